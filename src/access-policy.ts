@@ -0,0 +1,221 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import YAML from 'yaml';
+
+export interface AccessPolicyConfig {
+  readOnly?: boolean; // Refuse every tool that changes Jira
+  tools?: string[]; // Tool names that may be called; "*" matches any characters (e.g. "get_*")
+  projects?: string[]; // Project keys that write tools may change
+  issueTypes?: string[]; // Issue types that write tools may create or change
+}
+
+export interface AccessTarget {
+  issueKey?: string; // Unset for issues that do not exist yet (create_issue)
+  project?: string;
+  issueType?: string;
+}
+
+/**
+ * Lookups for the issues a write tool call targets without naming them directly
+ */
+export interface WriteTargetSources {
+  getIssueLink(linkId: string): Promise<{ inwardIssue?: string; outwardIssue?: string }>;
+  pendingIssueKeys(confirmationToken: string): string[] | undefined; // Issues of a pending bulk plan
+  lastUndoableIssueKeys(issueKey?: string): string[] | undefined; // Issues undo_last_change would restore
+}
+
+/**
+ * Tools that change Jira. Read-only mode refuses them; project and issue type scopes apply to them.
+ */
+export const WRITE_TOOLS = new Set([
+  'create_issue',
+  'update_issue',
+  'transition_issue',
+  'link_issues',
+  'unlink_issues',
+  'move_issues_to_sprint',
+  'bulk_update',
+  'bulk_transition',
+  'bulk_comment',
+  'add_comment',
+  'delete_comment',
+  'add_worklog',
+  'update_worklog',
+  'delete_worklog',
+  'add_attachment',
+  'undo_last_change',
+]);
+
+/**
+ * A tool call refused by the access policy
+ */
+export class AccessDeniedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AccessDeniedError';
+  }
+}
+
+/**
+ * Issues a write tool call would change, upper-cased and without duplicates
+ * Bulk previews change nothing, so only applying a confirmation token has targets.
+ */
+export async function writeTargetKeys(name: string, args: any, sources: WriteTargetSources): Promise<string[]> {
+  let keys: any[];
+  switch (name) {
+    case 'link_issues':
+      keys = [args.issueKey, args.targetIssueKey];
+      break;
+    case 'unlink_issues': {
+      if (!args.linkId) {
+        keys = [args.issueKey, args.targetIssueKey];
+        break;
+      }
+      const link = await sources.getIssueLink(args.linkId);
+      keys = [link.inwardIssue, link.outwardIssue];
+      break;
+    }
+    case 'move_issues_to_sprint':
+      keys = args.issueKeys || [];
+      break;
+    case 'bulk_update':
+    case 'bulk_transition':
+    case 'bulk_comment':
+      keys = args.confirmationToken ? sources.pendingIssueKeys(args.confirmationToken) || [] : [];
+      break;
+    case 'undo_last_change':
+      keys = sources.lastUndoableIssueKeys(args.issueKey) || [];
+      break;
+    default:
+      keys = [args.issueKey];
+  }
+  return [...new Set(keys.filter(Boolean).map(key => String(key).toUpperCase()))];
+}
+
+function toolPattern(pattern: string): RegExp {
+  return new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+}
+
+/**
+ * Which tools may be called and what write tools may change
+ * Unset lists allow everything, so the default policy allows every tool on every project.
+ */
+export class AccessPolicy {
+  private toolPatterns: RegExp[] | undefined;
+  private projects: Set<string> | undefined;
+  private issueTypes: Set<string> | undefined;
+
+  constructor(private config: AccessPolicyConfig, private source: string = 'built-in defaults') {
+    this.toolPatterns = config.tools?.map(toolPattern);
+    this.projects = config.projects && new Set(config.projects.map(project => project.toUpperCase()));
+    this.issueTypes = config.issueTypes && new Set(config.issueTypes.map(type => type.toLowerCase()));
+  }
+
+  /**
+   * Load the policy from a JSON or YAML file, with overrides (e.g. from environment variables)
+   * taking precedence over the file. Without either, every tool is allowed.
+   */
+  static load(configPath?: string, overrides: AccessPolicyConfig = {}): AccessPolicy {
+    let config: AccessPolicyConfig = {};
+
+    if (configPath) {
+      if (!fs.existsSync(configPath)) {
+        throw new Error(`Access policy file not found: ${configPath}`);
+      }
+
+      const raw = fs.readFileSync(configPath, 'utf-8');
+      const ext = path.extname(configPath).toLowerCase();
+      config = (ext === '.yaml' || ext === '.yml' ? YAML.parse(raw) : JSON.parse(raw)) || {};
+
+      for (const key of ['tools', 'projects', 'issueTypes'] as const) {
+        if (config[key] !== undefined && !Array.isArray(config[key])) {
+          throw new Error(`Access policy ${configPath}: "${key}" must be a list`);
+        }
+      }
+    }
+
+    const merged: AccessPolicyConfig = { ...config };
+    for (const [key, value] of Object.entries(overrides)) {
+      if (value !== undefined) {
+        (merged as any)[key] = value;
+      }
+    }
+
+    const sources = [configPath, Object.values(overrides).some(v => v !== undefined) ? 'environment' : undefined];
+    return new AccessPolicy(merged, sources.filter(Boolean).join(' + ') || undefined);
+  }
+
+  /**
+   * Whether the policy limits which projects or issue types write tools may change
+   */
+  get scoped(): boolean {
+    return !!(this.projects || this.issueTypes);
+  }
+
+  /**
+   * Whether the tool may be called at all. Used to hide refused tools from the tool list.
+   */
+  allowsTool(name: string): boolean {
+    if (this.config.readOnly && WRITE_TOOLS.has(name)) return false;
+    return !this.toolPatterns || this.toolPatterns.some(pattern => pattern.test(name));
+  }
+
+  /**
+   * Configured tool patterns that match none of the given tool names, e.g. typos
+   */
+  unmatchedTools(toolNames: string[]): string[] {
+    return (this.config.tools || []).filter(
+      (_, index) => !toolNames.some(name => this.toolPatterns![index].test(name))
+    );
+  }
+
+  checkTool(name: string): void {
+    if (this.config.readOnly && WRITE_TOOLS.has(name)) {
+      throw new AccessDeniedError(`${name} is not available: this server is running in read-only mode.`);
+    }
+    if (!this.allowsTool(name)) {
+      throw new AccessDeniedError(`${name} is not available: it is not in this server's list of allowed tools.`);
+    }
+  }
+
+  /**
+   * Refuse a write unless every target is in an allowed project and of an allowed issue type
+   */
+  checkTargets(name: string, targets: AccessTarget[]): void {
+    const refused: string[] = [];
+
+    for (const target of targets) {
+      const label = target.issueKey ?? 'new issue';
+      if (target.issueKey && !target.project && !target.issueType) {
+        refused.push(`${label} could not be found`);
+      } else if (this.projects && !this.projects.has((target.project || '').toUpperCase())) {
+        refused.push(`${label} is in project ${target.project ?? '(unknown)'}`);
+      } else if (this.issueTypes && !this.issueTypes.has((target.issueType || '').toLowerCase())) {
+        refused.push(`${label} is a ${target.issueType ?? '(unknown type)'}`);
+      }
+    }
+
+    if (refused.length > 0) {
+      const allowed = [
+        this.config.projects ? `projects ${this.config.projects.join(', ')}` : undefined,
+        this.config.issueTypes ? `issue types ${this.config.issueTypes.join(', ')}` : undefined,
+      ].filter(Boolean);
+      throw new AccessDeniedError(
+        `${name} would change issues outside this server's scope: ${refused.join('; ')}. Only ${allowed.join(' and ')} may be changed.`
+      );
+    }
+  }
+
+  /**
+   * Describe the active policy
+   */
+  describe(): any {
+    return {
+      source: this.source,
+      readOnly: !!this.config.readOnly,
+      tools: this.config.tools ?? 'all',
+      projects: this.config.projects ?? 'all',
+      issueTypes: this.config.issueTypes ?? 'all',
+    };
+  }
+}
@@ -0,0 +1,323 @@
+/**
+ * Converts Atlassian Document Format (ADF) to Markdown
+ * Covers the ADF block nodes, inline nodes and marks, including nested lists, tables,
+ * panels, task/decision lists, mentions, emoji, smart links, dates, status lozenges and media.
+ */
+
+export interface AdfRenderOptions {
+  // Issue attachments, used to link media nodes to attachment ids (matched by id, then filename)
+  attachments?: { id: string; filename: string }[];
+  // Account id to display name, used for mentions without text
+  mentionNames?: { [accountId: string]: string };
+}
+
+// GitHub-style alert labels for ADF panel types
+const PANEL_ALERTS: { [panelType: string]: string } = {
+  info: 'NOTE',
+  note: 'IMPORTANT',
+  success: 'TIP',
+  warning: 'WARNING',
+  error: 'CAUTION',
+  tip: 'TIP',
+};
+
+export function adfToMarkdown(adf: any, options: AdfRenderOptions = {}): string {
+  if (!adf) return '';
+  if (typeof adf === 'string') return adf;
+
+  const nodes = adf.type === 'doc' ? adf.content || [] : [adf];
+  return renderBlocks(nodes, options).trim();
+}
+
+/**
+ * Account ids of mentions that carry no display text, to be resolved into mentionNames
+ */
+export function findMentionIds(...adfs: any[]): string[] {
+  const ids = new Set<string>();
+  const visit = (node: any) => {
+    if (!node || typeof node !== 'object') return;
+    if (node.type === 'mention' && node.attrs?.id && !node.attrs.text) {
+      ids.add(node.attrs.id);
+    }
+    (node.content || []).forEach(visit);
+  };
+  adfs.forEach(visit);
+  return Array.from(ids);
+}
+
+function renderBlocks(nodes: any[], options: AdfRenderOptions): string {
+  return (nodes || [])
+    .map(node => renderBlock(node, options))
+    .filter(block => block !== '')
+    .join('\n\n');
+}
+
+function renderBlock(node: any, options: AdfRenderOptions): string {
+  if (!node) return '';
+
+  switch (node.type) {
+    case 'paragraph':
+      return renderInline(node.content, options);
+
+    case 'heading': {
+      const level = Math.min(Math.max(node.attrs?.level || 1, 1), 6);
+      return '#'.repeat(level) + ' ' + renderInline(node.content, options);
+    }
+
+    case 'bulletList':
+      return renderList(node, options, () => '- ');
+
+    case 'orderedList': {
+      const start = node.attrs?.order ?? 1;
+      return renderList(node, options, index => `${start + index}. `);
+    }
+
+    case 'taskList':
+      return renderList(node, options, (_, item) => (item.attrs?.state === 'DONE' ? '- [x] ' : '- [ ] '));
+
+    case 'decisionList':
+      return renderList(node, options, () => '- ✔ ');
+
+    case 'listItem':
+    case 'taskItem':
+    case 'decisionItem':
+      return renderListItemBody(node, options);
+
+    case 'codeBlock': {
+      const code = (node.content || []).map((c: any) => c.text || '').join('');
+      const fence = code.includes('```') ? '````' : '```';
+      return `${fence}${node.attrs?.language || ''}\n${code}\n${fence}`;
+    }
+
+    case 'blockquote':
+      return quote(renderBlocks(node.content, options));
+
+    case 'panel': {
+      const alert = PANEL_ALERTS[node.attrs?.panelType] || 'NOTE';
+      return quote(`[!${alert}]\n` + renderBlocks(node.content, options));
+    }
+
+    case 'rule':
+      return '---';
+
+    case 'table':
+      return renderTable(node, options);
+
+    case 'mediaSingle':
+    case 'mediaGroup':
+      return (node.content || []).map((media: any) => renderMedia(media, options)).join('\n');
+
+    case 'media':
+      return renderMedia(node, options);
+
+    case 'blockCard':
+    case 'embedCard':
+      return node.attrs?.url ? `<${node.attrs.url}>` : '';
+
+    case 'expand':
+    case 'nestedExpand': {
+      const title = node.attrs?.title ? `**${node.attrs.title}**\n\n` : '';
+      return title + renderBlocks(node.content, options);
+    }
+
+    case 'bodiedExtension':
+      return renderBlocks(node.content, options);
+
+    case 'extension':
+      return `[extension: ${node.attrs?.extensionKey || 'unknown'}]`;
+
+    default:
+      // Unknown block: render its children, or treat it as inline content
+      if (node.content) {
+        return isInlineNode(node.content[0]) ? renderInline(node.content, options) : renderBlocks(node.content, options);
+      }
+      return renderInlineNode(node, options);
+  }
+}
+
+function renderList(
+  node: any,
+  options: AdfRenderOptions,
+  marker: (index: number, item: any) => string
+): string {
+  return (node.content || [])
+    .map((item: any, index: number) => {
+      const prefix = marker(index, item);
+      const body = renderListItemBody(item, options);
+      return indentContinuation(prefix + body, ' '.repeat(prefix.length));
+    })
+    .join('\n');
+}
+
+function renderListItemBody(item: any, options: AdfRenderOptions): string {
+  const children = item.content || [];
+
+  // Task and decision items hold inline content directly
+  if (children.length > 0 && isInlineNode(children[0])) {
+    return renderInline(children, options);
+  }
+
+  // Keep paragraphs and nested lists tight inside list items
+  return children
+    .map((child: any) => renderBlock(child, options))
+    .filter((block: string) => block !== '')
+    .join('\n');
+}
+
+function renderTable(node: any, options: AdfRenderOptions): string {
+  const rows: string[][] = (node.content || []).map((row: any) =>
+    (row.content || []).map((cell: any) =>
+      (cell.content || [])
+        .map((block: any) => renderBlock(block, options))
+        .filter((text: string) => text !== '')
+        .join('<br>')
+        .replace(/\n/g, '<br>')
+        .replace(/\|/g, '\\|')
+    )
+  );
+
+  if (rows.length === 0) return '';
+
+  const columnCount = Math.max(...rows.map(row => row.length));
+  const pad = (row: string[]) => [...row, ...Array(columnCount - row.length).fill('')];
+  const line = (row: string[]) => `| ${pad(row).join(' | ')} |`;
+
+  const [header, ...body] = rows;
+  return [line(header), line(Array(columnCount).fill('---')), ...body.map(line)].join('\n');
+}
+
+function renderMedia(node: any, options: AdfRenderOptions): string {
+  if (node.type !== 'media') {
+    return renderBlock(node, options);
+  }
+
+  const attrs = node.attrs || {};
+  if (attrs.type === 'external' && attrs.url) {
+    return `![${attrs.alt || ''}](${attrs.url})`;
+  }
+
+  const attachment =
+    options.attachments?.find(a => String(a.id) === String(attrs.id)) ||
+    (attrs.alt ? options.attachments?.find(a => a.filename === attrs.alt) : undefined);
+  const name = attrs.alt || attachment?.filename || attrs.id || 'attachment';
+  const target = attachment ? `attachment:${attachment.id}` : `media:${attrs.id}`;
+  return `![${name}](${target})`;
+}
+
+function renderInline(nodes: any[] | undefined, options: AdfRenderOptions): string {
+  return (nodes || []).map(node => renderInlineNode(node, options)).join('');
+}
+
+function renderInlineNode(node: any, options: AdfRenderOptions): string {
+  if (!node) return '';
+
+  switch (node.type) {
+    case 'text':
+      return applyMarks(node.text || '', node.marks || []);
+
+    case 'hardBreak':
+      return '  \n';
+
+    case 'mention': {
+      const text = node.attrs?.text || options.mentionNames?.[node.attrs?.id] || node.attrs?.id || 'unknown';
+      return text.startsWith('@') ? text : `@${text}`;
+    }
+
+    case 'emoji':
+      return node.attrs?.text || node.attrs?.shortName || '';
+
+    case 'inlineCard':
+      return node.attrs?.url ? `<${node.attrs.url}>` : '';
+
+    case 'date': {
+      const timestamp = Number(node.attrs?.timestamp);
+      return isNaN(timestamp) ? '' : new Date(timestamp).toISOString().substring(0, 10);
+    }
+
+    case 'status':
+      return node.attrs?.text ? `[${node.attrs.text.toUpperCase()}]` : '';
+
+    case 'media':
+    case 'mediaInline':
+      return renderMedia({ ...node, type: 'media' }, options);
+
+    case 'inlineExtension':
+      return `[extension: ${node.attrs?.extensionKey || 'unknown'}]`;
+
+    case 'placeholder':
+      return '';
+
+    default:
+      return node.content ? renderInline(node.content, options) : node.text || '';
+  }
+}
+
+function applyMarks(text: string, marks: any[]): string {
+  if (!text) return '';
+
+  const codeMark = marks.find(m => m.type === 'code');
+  const result = codeMark ? wrapCode(text) : text;
+
+  const link = marks.find(m => m.type === 'link');
+  if (!result.trim()) {
+    // Emphasis cannot wrap whitespace, but a link can
+    return link?.attrs?.href ? `[${result}](${link.attrs.href})` : result;
+  }
+
+  // Apply emphasis inside-out, keep surrounding whitespace outside the markers
+  const leading = result.match(/^\s*/)?.[0] || '';
+  const trailing = result.match(/\s*$/)?.[0] || '';
+  let core = result.substring(leading.length, result.length - trailing.length);
+
+  for (const mark of marks) {
+    switch (mark.type) {
+      case 'strong':
+        core = `**${core}**`;
+        break;
+      case 'em':
+        core = `*${core}*`;
+        break;
+      case 'strike':
+        core = `~~${core}~~`;
+        break;
+      case 'underline':
+        core = `<u>${core}</u>`;
+        break;
+      case 'subsup':
+        core = mark.attrs?.type === 'sup' ? `<sup>${core}</sup>` : `<sub>${core}</sub>`;
+        break;
+    }
+  }
+
+  if (link?.attrs?.href) {
+    core = `[${core}](${link.attrs.href})`;
+  }
+
+  return leading + core + trailing;
+}
+
+function wrapCode(text: string): string {
+  const fence = text.includes('`') ? '``' : '`';
+  const padding = text.startsWith('`') || text.endsWith('`') ? ' ' : '';
+  return `${fence}${padding}${text}${padding}${fence}`;
+}
+
+function isInlineNode(node: any): boolean {
+  return !!node && [
+    'text', 'hardBreak', 'mention', 'emoji', 'inlineCard', 'date', 'status', 'mediaInline', 'inlineExtension', 'placeholder',
+  ].includes(node.type);
+}
+
+function quote(text: string): string {
+  return text
+    .split('\n')
+    .map(line => (line ? `> ${line}` : '>'))
+    .join('\n');
+}
+
+function indentContinuation(text: string, indent: string): string {
+  return text
+    .split('\n')
+    .map((line, index) => (index === 0 || line === '' ? line : indent + line))
+    .join('\n');
+}
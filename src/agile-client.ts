@@ -0,0 +1,329 @@
+import axios, { AxiosInstance } from 'axios';
+import { applyRequestLayer, RequestLayer, RequestLayerOptions } from './request-layer.js';
+import { applyAuth, AuthProvider } from './auth.js';
+import { toJiraApiError } from './jira-client.js';
+
+export type SprintState = 'active' | 'future' | 'closed';
+
+export interface JiraBoard {
+  id: number;
+  name: string;
+  type: string; // scrum, kanban or simple
+  projectKey?: string;
+}
+
+export interface JiraSprint {
+  id: number;
+  name: string;
+  state: SprintState;
+  startDate?: string;
+  endDate?: string;
+  completeDate?: string;
+  goal?: string;
+  originBoardId?: number;
+}
+
+export interface SprintIssueOptions {
+  jql?: string; // Additional JQL filter, e.g. "Pod = \"Workflow\""
+  onlyOpen?: boolean; // Skip issues in a done status category
+}
+
+/**
+ * Page size used by the Agile API (it caps most endpoints at 50)
+ */
+const AGILE_PAGE_SIZE = 50;
+
+const SPRINT_ISSUE_FIELDS = ['summary', 'status', 'assignee', 'issuetype', 'priority', 'created', 'resolutiondate'];
+
+/**
+ * Client for Jira Software's Agile API (/rest/agile/1.0): boards, sprints and sprint reports
+ */
+export class AgileClient {
+  private client: AxiosInstance;
+  private estimationFieldCache = new Map<number, { id: string; name: string } | null>();
+
+  constructor(auth: AuthProvider, requestLayer: RequestLayer | RequestLayerOptions = {}) {
+    this.client = axios.create({
+      headers: {
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+      },
+    });
+
+    applyRequestLayer(this.client, requestLayer);
+    applyAuth(this.client, auth, '/rest/agile/1.0');
+    this.client.interceptors.response.use(undefined, error => toJiraApiError(error));
+  }
+
+  /**
+   * Fetch every page of a startAt-paginated Agile endpoint
+   */
+  private async getAllPages(url: string, params: any, key: string = 'values'): Promise<any[]> {
+    const values: any[] = [];
+    let startAt = 0;
+
+    while (true) {
+      const response = await this.client.get(url, {
+        params: { ...params, startAt, maxResults: AGILE_PAGE_SIZE },
+      });
+      const page = response.data[key] || [];
+      values.push(...page);
+      startAt += page.length;
+
+      // Board and sprint lists report isLast; issue lists report total
+      const done = response.data.isLast ?? (response.data.total === undefined || startAt >= response.data.total);
+      if (done || page.length === 0) {
+        break;
+      }
+    }
+
+    return values;
+  }
+
+  async listBoards(options: { projectKeyOrId?: string; name?: string; type?: string } = {}): Promise<JiraBoard[]> {
+    const boards = await this.getAllPages('/board', {
+      projectKeyOrId: options.projectKeyOrId,
+      name: options.name,
+      type: options.type,
+    });
+
+    return boards.map(board => ({
+      id: board.id,
+      name: board.name,
+      type: board.type,
+      projectKey: board.location?.projectKey,
+    }));
+  }
+
+  async listSprints(boardId: number, states?: SprintState[]): Promise<JiraSprint[]> {
+    const sprints = await this.getAllPages(`/board/${boardId}/sprint`, {
+      state: states?.length ? states.join(',') : undefined,
+    });
+    return sprints.map(sprint => this.formatSprint(sprint));
+  }
+
+  async getSprint(sprintId: number): Promise<JiraSprint> {
+    const response = await this.client.get(`/sprint/${sprintId}`);
+    return this.formatSprint(response.data);
+  }
+
+  /**
+   * The board's active sprint. Boards with parallel sprints return the earliest started one.
+   */
+  async getActiveSprint(boardId: number): Promise<JiraSprint> {
+    const sprints = await this.listSprints(boardId, ['active']);
+    if (sprints.length === 0) {
+      throw new Error(`Board ${boardId} has no active sprint`);
+    }
+    return sprints.sort((a, b) => (a.startDate || '').localeCompare(b.startDate || ''))[0];
+  }
+
+  async getSprintIssues(sprintId: number, options: SprintIssueOptions = {}): Promise<any> {
+    const sprint = await this.getSprint(sprintId);
+    const estimationField = sprint.originBoardId ? await this.getEstimationField(sprint.originBoardId) : null;
+
+    const jqlParts: string[] = [];
+    if (options.jql) jqlParts.push(`(${options.jql})`);
+    if (options.onlyOpen) jqlParts.push('statusCategory != Done');
+
+    const issues = await this.getAllPages(
+      `/sprint/${sprintId}/issue`,
+      {
+        jql: jqlParts.length ? jqlParts.join(' AND ') : undefined,
+        fields: [...SPRINT_ISSUE_FIELDS, ...(estimationField ? [estimationField.id] : [])].join(','),
+      },
+      'issues'
+    );
+
+    const rows = issues.map(issue => this.formatSprintIssue(issue, estimationField?.id));
+    return {
+      sprint,
+      estimationField,
+      total: rows.length,
+      storyPoints: sumPoints(rows),
+      issues: rows,
+    };
+  }
+
+  /**
+   * Move issues into a sprint. The Agile API accepts at most 50 issues per call.
+   */
+  async moveIssuesToSprint(sprintId: number, issueKeys: string[]): Promise<any> {
+    for (let i = 0; i < issueKeys.length; i += AGILE_PAGE_SIZE) {
+      await this.client.post(`/sprint/${sprintId}/issue`, {
+        issues: issueKeys.slice(i, i + AGILE_PAGE_SIZE),
+      });
+    }
+
+    return {
+      success: true,
+      sprintId,
+      moved: issueKeys,
+      message: `Moved ${issueKeys.length} issue(s) to sprint ${sprintId}`,
+    };
+  }
+
+  /**
+   * Sprint report built from the sprint's current issues and their Sprint field history:
+   * committed vs completed, scope added after the sprint started, carry-over from earlier
+   * sprints and story points by assignee. Issues removed from the sprint are not listed by
+   * the Agile API and so are not reported.
+   */
+  async getSprintReport(sprintId: number): Promise<any> {
+    const sprint = await this.getSprint(sprintId);
+    const estimationField = sprint.originBoardId ? await this.getEstimationField(sprint.originBoardId) : null;
+
+    const issues = await this.getAllPages(
+      `/sprint/${sprintId}/issue`,
+      {
+        fields: [...SPRINT_ISSUE_FIELDS, ...(estimationField ? [estimationField.id] : [])].join(','),
+        expand: 'changelog',
+      },
+      'issues'
+    );
+
+    const startedAt = sprint.startDate ? new Date(sprint.startDate) : undefined;
+    const completedAt = sprint.completeDate ? new Date(sprint.completeDate) : undefined;
+
+    const committed: any[] = [];
+    const completed: any[] = [];
+    const added: any[] = [];
+    const carriedOver: any[] = [];
+    const incomplete: any[] = [];
+    const byAssignee: { [assignee: string]: any } = {};
+
+    for (const issue of issues) {
+      const row = this.formatSprintIssue(issue, estimationField?.id);
+      const entry = sprintEntry(issue, sprintId);
+
+      // Added after the sprint started, either moved in or created directly in the sprint
+      const addedAt = entry.addedAt ?? issue.fields?.created;
+      const addedMidSprint = !!startedAt && !!addedAt && new Date(addedAt) > startedAt;
+
+      // Resolved after the sprint closed does not count towards this sprint
+      const resolvedAt = issue.fields?.resolutiondate ? new Date(issue.fields.resolutiondate) : undefined;
+      const isCompleted = row.statusCategory === 'done' && !(completedAt && resolvedAt && resolvedAt > completedAt);
+
+      if (addedMidSprint) {
+        added.push({ ...row, addedAt });
+      } else {
+        committed.push(row);
+      }
+      if (entry.previousSprints.length > 0) {
+        carriedOver.push({ ...row, fromSprints: entry.previousSprints });
+      }
+      if (isCompleted) {
+        completed.push(row);
+      } else {
+        incomplete.push(row);
+      }
+
+      const assignee = row.assignee || 'Unassigned';
+      const totals = (byAssignee[assignee] ??= { issues: 0, storyPoints: 0, completedIssues: 0, completedStoryPoints: 0 });
+      totals.issues++;
+      totals.storyPoints += row.storyPoints || 0;
+      if (isCompleted) {
+        totals.completedIssues++;
+        totals.completedStoryPoints += row.storyPoints || 0;
+      }
+    }
+
+    const completedKeys = new Set(completed.map(row => row.key));
+    const committedCompleted = committed.filter(row => completedKeys.has(row.key));
+
+    return {
+      sprint,
+      estimationField,
+      committed: { issues: committed.length, storyPoints: sumPoints(committed) },
+      completed: { issues: completed.length, storyPoints: sumPoints(completed) },
+      committedCompleted: {
+        issues: committedCompleted.length,
+        storyPoints: sumPoints(committedCompleted),
+        percentOfCommittedPoints: sumPoints(committed) > 0
+          ? Math.round((sumPoints(committedCompleted) / sumPoints(committed)) * 100)
+          : null,
+      },
+      addedMidSprint: { issues: added.length, storyPoints: sumPoints(added), items: added },
+      carriedOver: { issues: carriedOver.length, storyPoints: sumPoints(carriedOver), items: carriedOver },
+      incomplete: { issues: incomplete.length, storyPoints: sumPoints(incomplete), items: incomplete },
+      byAssignee,
+    };
+  }
+
+  /**
+   * The board's estimation field (story points), loaded once per board
+   */
+  private async getEstimationField(boardId: number): Promise<{ id: string; name: string } | null> {
+    if (!this.estimationFieldCache.has(boardId)) {
+      try {
+        const response = await this.client.get(`/board/${boardId}/configuration`);
+        const field = response.data.estimation?.field;
+        this.estimationFieldCache.set(boardId, field?.fieldId ? { id: field.fieldId, name: field.displayName } : null);
+      } catch {
+        // Estimation is optional; the report still works without story points
+        this.estimationFieldCache.set(boardId, null);
+      }
+    }
+    return this.estimationFieldCache.get(boardId)!;
+  }
+
+  private formatSprint(sprint: any): JiraSprint {
+    return {
+      id: sprint.id,
+      name: sprint.name,
+      state: sprint.state,
+      startDate: sprint.startDate,
+      endDate: sprint.endDate,
+      completeDate: sprint.completeDate,
+      goal: sprint.goal || undefined,
+      originBoardId: sprint.originBoardId,
+    };
+  }
+
+  private formatSprintIssue(issue: any, estimationFieldId?: string): any {
+    const fields = issue.fields || {};
+    const points = estimationFieldId ? fields[estimationFieldId] : undefined;
+    return {
+      key: issue.key,
+      summary: fields.summary,
+      issueType: fields.issuetype?.name,
+      status: fields.status?.name,
+      statusCategory: fields.status?.statusCategory?.key,
+      assignee: fields.assignee?.displayName || null,
+      priority: fields.priority?.name,
+      storyPoints: typeof points === 'number' ? points : null,
+    };
+  }
+}
+
+function sumPoints(rows: { storyPoints: number | null }[]): number {
+  return rows.reduce((sum, row) => sum + (row.storyPoints || 0), 0);
+}
+
+/**
+ * When the issue last entered the sprint and which sprints it was in before, from Sprint field changes
+ */
+function sprintEntry(issue: any, sprintId: number): { addedAt?: string; previousSprints: string[] } {
+  const histories = [...(issue.changelog?.histories || [])].sort(
+    (a, b) => new Date(a.created).getTime() - new Date(b.created).getTime()
+  );
+  const id = String(sprintId);
+  const ids = (value: any) => (value ? String(value).split(',').map(s => s.trim()).filter(Boolean) : []);
+
+  let addedAt: string | undefined;
+  let previousSprints: string[] = [];
+  for (const history of histories) {
+    for (const item of history.items || []) {
+      if (item.field !== 'Sprint') continue;
+      const fromIds = ids(item.from);
+      if (ids(item.to).includes(id) && !fromIds.includes(id)) {
+        addedAt = history.created;
+        // Closed sprints stay on the issue, so the previous value lists where it came from
+        const fromNames = item.fromString ? String(item.fromString).split(',').map(s => s.trim()) : [];
+        previousSprints = fromNames.length === fromIds.length ? fromNames : fromIds;
+      }
+    }
+  }
+
+  return { addedAt, previousSprints };
+}
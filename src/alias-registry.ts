@@ -0,0 +1,181 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import YAML from 'yaml';
+import { JiraClient } from './jira-client.js';
+import { operandValueTokens, parseJql, quoteJqlValue } from './jql-parser.js';
+
+export interface FieldAliasConfig {
+  aliases?: { [alias: string]: string };
+  discover?: boolean; // Load the field's allowed values from Jira
+}
+
+export interface AliasConfig {
+  fields: { [fieldName: string]: FieldAliasConfig };
+}
+
+/**
+ * Default aliases, used when no alias config file is provided
+ */
+const DEFAULT_ALIAS_CONFIG: AliasConfig = {
+  fields: {
+    Pod: {
+      aliases: {
+        'workflow': 'Pod 1 Workflow',
+        'pod1': 'Pod 1 Workflow',
+        'pod 1': 'Pod 1 Workflow',
+        'growth': 'Pod 2 Growth',
+        'pod2': 'Pod 2 Growth',
+        'pod 2': 'Pod 2 Growth',
+        'platform': 'Platform Pod',
+        'siteops': 'Pod SiteOps',
+        'site ops': 'Pod SiteOps',
+        'ai': 'AI Pod',
+        'ds': 'DS Pod',
+        'design': 'DS Pod',
+        'scale': 'Scale Pod',
+      },
+    },
+  },
+};
+
+interface FieldAliases {
+  fieldName: string;
+  aliases: { [alias: string]: string };
+  discover: boolean;
+  allowedValues: string[];
+}
+
+/**
+ * Registry of value aliases per Jira field (pods, teams, components, customer tiers, projects, ...)
+ * Loaded from a JSON or YAML file and optionally enriched with allowed values discovered from Jira
+ */
+export class AliasRegistry {
+  private fields = new Map<string, FieldAliases>();
+
+  constructor(config: AliasConfig) {
+    for (const [fieldName, fieldConfig] of Object.entries(config.fields || {})) {
+      const aliases: { [alias: string]: string } = {};
+      for (const [alias, value] of Object.entries(fieldConfig.aliases || {})) {
+        aliases[alias.toLowerCase().trim()] = value;
+      }
+
+      this.fields.set(fieldName.toLowerCase(), {
+        fieldName,
+        aliases,
+        discover: !!fieldConfig.discover,
+        allowedValues: [],
+      });
+    }
+  }
+
+  /**
+   * Load the registry from a JSON or YAML file. Falls back to the default pod aliases
+   * when no path is given.
+   */
+  static load(configPath?: string): AliasRegistry {
+    if (!configPath) {
+      return new AliasRegistry(DEFAULT_ALIAS_CONFIG);
+    }
+
+    if (!fs.existsSync(configPath)) {
+      throw new Error(`Alias config file not found: ${configPath}`);
+    }
+
+    const raw = fs.readFileSync(configPath, 'utf-8');
+    const ext = path.extname(configPath).toLowerCase();
+    const config = ext === '.yaml' || ext === '.yml' ? YAML.parse(raw) : JSON.parse(raw);
+
+    if (!config || typeof config.fields !== 'object') {
+      throw new Error(`Alias config ${configPath} must contain a "fields" object`);
+    }
+
+    return new AliasRegistry(config);
+  }
+
+  /**
+   * Fetch allowed values from Jira for fields marked with `discover: true`.
+   * Each discovered value becomes an alias of itself (case-insensitive, with and without spaces).
+   */
+  async discover(jiraClient: JiraClient): Promise<void> {
+    for (const field of this.fields.values()) {
+      if (!field.discover) continue;
+
+      try {
+        field.allowedValues = await jiraClient.getFieldOptions(field.fieldName);
+        for (const value of field.allowedValues) {
+          const normalized = value.toLowerCase().trim();
+          field.aliases[normalized] ??= value;
+          field.aliases[normalized.replace(/\s+/g, '')] ??= value;
+        }
+      } catch (error) {
+        console.error(
+          `Failed to discover values for field "${field.fieldName}":`,
+          error instanceof Error ? error.message : error
+        );
+      }
+    }
+  }
+
+  /**
+   * Resolve a single value for a field. Returns undefined when no alias applies.
+   */
+  resolve(fieldName: string, value: string): string | undefined {
+    const field = this.fields.get(fieldName.toLowerCase().trim());
+    if (!field) return undefined;
+
+    const normalized = value.toLowerCase().trim();
+    if (field.aliases[normalized]) {
+      return field.aliases[normalized];
+    }
+
+    // Fall back to a unique partial match against discovered values
+    const candidates = field.allowedValues.filter(v => v.toLowerCase().includes(normalized));
+    return candidates.length === 1 ? candidates[0] : undefined;
+  }
+
+  /**
+   * Expand aliases in a JQL query for all configured fields.
+   * Only operand values of matching clauses are rewritten (=, !=, IN, NOT IN, WAS, ...),
+   * so quoted text elsewhere in the query is left untouched. Unparseable queries are
+   * returned unchanged.
+   */
+  expand(jql: string): string {
+    const parsed = parseJql(jql);
+    if (parsed.errors.length > 0) {
+      return jql;
+    }
+
+    const replacements: { start: number; end: number; text: string }[] = [];
+    for (const clause of parsed.clauses) {
+      if (!this.fields.has(clause.field.toLowerCase().trim())) continue;
+      if (clause.operator === '~' || clause.operator === '!~') continue;
+
+      for (const token of operandValueTokens(clause.operand)) {
+        const resolved = this.resolve(clause.field, token.value);
+        if (resolved && resolved !== token.value) {
+          replacements.push({ start: token.start, end: token.end, text: quoteJqlValue(resolved) });
+        }
+      }
+    }
+
+    let expandedJql = jql;
+    for (const replacement of replacements.sort((a, b) => b.start - a.start)) {
+      expandedJql =
+        expandedJql.substring(0, replacement.start) + replacement.text + expandedJql.substring(replacement.end);
+    }
+
+    return expandedJql;
+  }
+
+  /**
+   * Describe the effective alias mapping per field
+   */
+  describe(): any[] {
+    return Array.from(this.fields.values()).map(field => ({
+      field: field.fieldName,
+      aliases: field.aliases,
+      discovered: field.discover,
+      allowedValues: field.allowedValues,
+    }));
+  }
+}
@@ -0,0 +1,396 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import YAML from 'yaml';
+import { CommentClassifier } from './comment-classifier.js';
+import { buildIssueTimeline, BusinessHours, timelineInputFromIssue } from './issue-timeline.js';
+
+/**
+ * Where a value in the analysis comes from. The first source that yields a value wins:
+ * custom fields (by display name, in order), then the ticket data path, then the derived value,
+ * then the default.
+ */
+export interface ValueSpec {
+  field?: string; // Custom field display name
+  fields?: string[]; // Fallback custom field names, tried in order
+  source?: string; // Path into the comprehensive issue data, e.g. "reporter.name"
+  derive?: string; // Name of a derived value, see DERIVED_VALUES
+  default?: any;
+  as?: 'array'; // Wrap single values in an array
+}
+
+export interface AnalysisTemplate {
+  name: string;
+  description?: string;
+  // Selection by issue type or project key; templates without conditions are fallbacks
+  match?: {
+    issueTypes?: string[];
+    projects?: string[];
+  };
+  // Section name to either a single value or a map of value name to value spec
+  sections: { [section: string]: ValueSpec | { [key: string]: ValueSpec } };
+}
+
+export interface AnalysisContext {
+  commentClassifier: CommentClassifier;
+  businessHours?: BusinessHours;
+}
+
+type DerivedValue = (ticketData: any, context: AnalysisContext) => any;
+
+/**
+ * Values computed from the ticket rather than read from a single field
+ */
+const DERIVED_VALUES: { [name: string]: { description: string; compute: DerivedValue } } = {
+  timeToResolution: {
+    description: 'Whole days between created and resolved, or "Not resolved yet"',
+    compute: ticketData =>
+      ticketData.resolutionDate
+        ? Math.floor((new Date(ticketData.resolutionDate).getTime() - new Date(ticketData.created).getTime()) / (1000 * 60 * 60 * 24)) + ' days'
+        : 'Not resolved yet',
+  },
+  attachments: {
+    description: 'Attachment filenames with uploader and date',
+    compute: ticketData =>
+      (ticketData.attachments || []).map((a: any) => ({
+        filename: a.filename,
+        uploadedBy: a.author,
+        date: a.created,
+      })),
+  },
+  attachmentCount: {
+    description: 'Number of attachments',
+    compute: ticketData => (ticketData.attachments || []).length,
+  },
+  issueTimeline: {
+    description: 'Status timeline, time in status (calendar and business hours), assignee hand-offs, reopens, first response and priority changes',
+    compute: (ticketData, context) =>
+      buildIssueTimeline(
+        timelineInputFromIssue(ticketData, c => context.commentClassifier.classify(c).tag === 'human'),
+        context.businessHours
+      ),
+  },
+  discussion: {
+    description: 'Human comments, plus counts of bot and automation comments filtered out',
+    compute: (ticketData, context) => {
+      const allComments = Array.isArray(ticketData.comments) ? ticketData.comments.filter((c: any) => c) : [];
+
+      // Tag each comment as human, bot or automation
+      const filtered = { bot: 0, automation: 0 };
+      const humanComments: any[] = [];
+      for (const comment of allComments) {
+        const { tag } = context.commentClassifier.classify(comment);
+        if (tag === 'human') {
+          humanComments.push({ author: comment.author, created: comment.created, body: comment.body });
+        } else {
+          filtered[tag]++;
+        }
+      }
+
+      return { humanComments, totalComments: allComments.length, filtered };
+    },
+  },
+};
+
+const VALUE_SPEC_KEYS = ['field', 'fields', 'source', 'derive', 'default', 'as'];
+
+/**
+ * Built-in templates. "rca" is the fallback for every ticket unless a configured template matches.
+ */
+const BUILT_IN_TEMPLATES: AnalysisTemplate[] = [
+  {
+    name: 'rca',
+    description: 'Root cause analysis for customer-reported bugs: customer context, cause, fix and timeline',
+    sections: {
+      ticketInfo: {
+        issueKey: { source: 'issueKey' },
+        summary: { source: 'summary' },
+        issueType: { source: 'issueType' },
+        priority: { source: 'priority' },
+        status: { source: 'status' },
+        pod: { field: 'Pod', default: [], as: 'array' },
+        created: { source: 'created' },
+        resolved: { source: 'resolutionDate' },
+        dueDate: { source: 'dueDate' },
+      },
+      customerContext: {
+        organization: { field: 'Org Name', default: 'Not specified' },
+        tier: { field: 'Customer Tier', default: 'Not specified' },
+        platform: { field: 'Platform', default: 'Not specified' },
+        affectedSection: { field: 'Sections from Sprinto App', default: 'Not specified' },
+      },
+      whatCustomerSaw: {
+        description: { source: 'description', default: 'No description provided' },
+        reportedBy: { source: 'reporter.name', default: 'Unknown' },
+        attachments: { derive: 'attachments' },
+      },
+      howItHappened: {
+        probableCause: { field: 'Probable Cause', default: 'Not documented' },
+        rootCause: { field: 'Root Cause', default: 'Not documented' },
+        isRegression: { field: 'Regression?', default: 'Not documented' },
+      },
+      howItWasFixed: {
+        resolutionType: { field: 'Resolution Type', default: 'Not documented' },
+        assignedTo: { source: 'assignee.name', default: 'Unassigned' },
+        currentStatus: { source: 'status' },
+      },
+      discussion: { derive: 'discussion' },
+      timeline: {
+        created: { source: 'created' },
+        updated: { source: 'updated' },
+        resolved: { source: 'resolutionDate' },
+        timeToResolution: { derive: 'timeToResolution' },
+      },
+      workflow: { derive: 'issueTimeline' },
+      additionalInfo: {
+        totalAttachments: { derive: 'attachmentCount' },
+        developmentStartDate: { field: 'Development Start Date', default: null },
+        releaseDate: { field: 'Release date', default: null },
+      },
+    },
+  },
+  {
+    name: 'generic',
+    description: 'Fields common to every issue: summary, people, description, discussion and timeline',
+    sections: {
+      ticketInfo: {
+        issueKey: { source: 'issueKey' },
+        summary: { source: 'summary' },
+        issueType: { source: 'issueType' },
+        priority: { source: 'priority' },
+        status: { source: 'status' },
+      },
+      people: {
+        reporter: { source: 'reporter.name', default: 'Unknown' },
+        assignee: { source: 'assignee.name', default: 'Unassigned' },
+      },
+      description: { source: 'description', default: 'No description provided' },
+      discussion: { derive: 'discussion' },
+      timeline: {
+        created: { source: 'created' },
+        updated: { source: 'updated' },
+        resolved: { source: 'resolutionDate' },
+        timeToResolution: { derive: 'timeToResolution' },
+      },
+      workflow: { derive: 'issueTimeline' },
+    },
+  },
+];
+
+/**
+ * Whether an object has exactly the shape of a value spec: only spec keys, each with the right type.
+ * A section map whose entries are all value specs is a map, even when its keys look like spec keys
+ * (e.g. a value named "source").
+ */
+function isValueSpec(value: any): value is ValueSpec {
+  if (!isPlainObject(value)) return false;
+
+  const keys = Object.keys(value);
+  const hasSpecShape =
+    keys.length > 0 &&
+    keys.every(key => VALUE_SPEC_KEYS.includes(key)) &&
+    ['field', 'source', 'derive'].every(key => value[key] === undefined || typeof value[key] === 'string') &&
+    (value.fields === undefined ||
+      (Array.isArray(value.fields) && value.fields.every((name: any) => typeof name === 'string'))) &&
+    (value.as === undefined || value.as === 'array');
+
+  return hasSpecShape && !keys.every(key => isPlainObject(value[key]) && isValueSpec(value[key]));
+}
+
+function isPlainObject(value: any): boolean {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isEmpty(value: any): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+function getPath(data: any, dottedPath: string): any {
+  return dottedPath.split('.').reduce((current, key) => (current == null ? undefined : current[key]), data);
+}
+
+/**
+ * Registry of analysis templates for analyze_ticket
+ * Built-in templates can be extended or overridden (by name) from a JSON or YAML file
+ */
+export class AnalysisTemplateRegistry {
+  private templates: AnalysisTemplate[];
+
+  constructor(templates: AnalysisTemplate[] = []) {
+    const configuredNames = new Set(templates.map(t => t.name));
+    // Configured templates come first so their match conditions take precedence
+    this.templates = [...templates, ...BUILT_IN_TEMPLATES.filter(t => !configuredNames.has(t.name))];
+
+    for (const template of this.templates) {
+      this.validate(template);
+    }
+  }
+
+  /**
+   * Load templates from a JSON or YAML file with a "templates" array.
+   * Falls back to the built-in templates when no path is given.
+   */
+  static load(configPath?: string): AnalysisTemplateRegistry {
+    if (!configPath) {
+      return new AnalysisTemplateRegistry();
+    }
+
+    if (!fs.existsSync(configPath)) {
+      throw new Error(`Analysis templates file not found: ${configPath}`);
+    }
+
+    const raw = fs.readFileSync(configPath, 'utf-8');
+    const ext = path.extname(configPath).toLowerCase();
+    const config = ext === '.yaml' || ext === '.yml' ? YAML.parse(raw) : JSON.parse(raw);
+
+    if (!config || !Array.isArray(config.templates)) {
+      throw new Error(`Analysis templates ${configPath} must contain a "templates" array`);
+    }
+
+    return new AnalysisTemplateRegistry(config.templates);
+  }
+
+  private validate(template: AnalysisTemplate): void {
+    if (!template.name || !template.sections || typeof template.sections !== 'object') {
+      throw new Error(`Analysis template "${template.name || '(unnamed)'}" must have a name and sections`);
+    }
+
+    const specs: ValueSpec[] = [];
+    for (const [sectionName, section] of Object.entries(template.sections)) {
+      if (isValueSpec(section)) {
+        specs.push(section);
+        continue;
+      }
+      if (!isPlainObject(section)) {
+        throw new Error(`Analysis template "${template.name}" section "${sectionName}" must be a value spec or a map of value specs`);
+      }
+      for (const [key, spec] of Object.entries(section)) {
+        if (!isValueSpec(spec)) {
+          throw new Error(
+            `Analysis template "${template.name}" value "${sectionName}.${key}" is not a value spec. ` +
+              `Use only ${VALUE_SPEC_KEYS.join(', ')}, with field/source/derive as strings and fields as a list of strings`
+          );
+        }
+        specs.push(spec);
+      }
+    }
+    for (const spec of specs) {
+      if (spec.derive && !DERIVED_VALUES[spec.derive]) {
+        throw new Error(
+          `Analysis template "${template.name}" uses unknown derived value "${spec.derive}". Available: ${Object.keys(DERIVED_VALUES).join(', ')}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Pick a template: the explicit name if given, otherwise the first template matching
+   * the issue type or project, otherwise the first template without match conditions
+   */
+  select(ticketData: any, name?: string): AnalysisTemplate {
+    if (name) {
+      const template = this.templates.find(t => t.name.toLowerCase() === name.toLowerCase());
+      if (!template) {
+        throw new Error(`Unknown analysis template "${name}". Available: ${this.templates.map(t => t.name).join(', ')}`);
+      }
+      return template;
+    }
+
+    const issueType = String(ticketData.issueType || '').toLowerCase();
+    const project = String(ticketData.allFields?.project?.key || String(ticketData.issueKey || '').split('-')[0]).toLowerCase();
+
+    const matching = this.templates.find(t => {
+      if (!t.match) return false;
+      const typeMatches = !t.match.issueTypes || t.match.issueTypes.some(type => type.toLowerCase() === issueType);
+      const projectMatches = !t.match.projects || t.match.projects.some(key => key.toLowerCase() === project);
+      return typeMatches && projectMatches;
+    });
+
+    return matching || this.templates.find(t => !t.match) || this.templates[0];
+  }
+
+  /**
+   * Produce the analysis for a ticket using a template
+   */
+  render(template: AnalysisTemplate, ticketData: any, context: AnalysisContext): any {
+    const analysis: any = {};
+
+    for (const [sectionName, section] of Object.entries(template.sections)) {
+      if (isValueSpec(section)) {
+        analysis[sectionName] = this.resolveValue(section, ticketData, context);
+        continue;
+      }
+
+      analysis[sectionName] = {};
+      for (const [key, spec] of Object.entries(section)) {
+        analysis[sectionName][key] = this.resolveValue(spec, ticketData, context);
+      }
+    }
+
+    return analysis;
+  }
+
+  private resolveValue(spec: ValueSpec, ticketData: any, context: AnalysisContext): any {
+    const customFields = ticketData.customFields || {};
+    const fieldNames = [...(spec.field ? [spec.field] : []), ...(spec.fields || [])];
+
+    let value: any;
+    for (const fieldName of fieldNames) {
+      if (!isEmpty(customFields[fieldName])) {
+        value = customFields[fieldName];
+        break;
+      }
+    }
+
+    if (isEmpty(value) && spec.source) {
+      value = getPath(ticketData, spec.source);
+    }
+
+    if (isEmpty(value) && spec.derive) {
+      value = DERIVED_VALUES[spec.derive].compute(ticketData, context);
+    }
+
+    if (isEmpty(value) && spec.default !== undefined) {
+      value = spec.default;
+    }
+
+    if (spec.as === 'array' && !Array.isArray(value)) {
+      value = isEmpty(value) ? [] : [value];
+    }
+
+    return value === undefined ? null : value;
+  }
+
+  /**
+   * Describe each template and what it outputs
+   */
+  describe(): any {
+    return {
+      templates: this.templates.map(template => ({
+        name: template.name,
+        description: template.description,
+        match: template.match || 'fallback',
+        outputs: Object.fromEntries(
+          Object.entries(template.sections).map(([sectionName, section]) => [
+            sectionName,
+            isValueSpec(section)
+              ? this.describeSpec(section)
+              : Object.fromEntries(Object.entries(section).map(([key, spec]) => [key, this.describeSpec(spec)])),
+          ])
+        ),
+      })),
+      derivedValues: Object.fromEntries(
+        Object.entries(DERIVED_VALUES).map(([name, derived]) => [name, derived.description])
+      ),
+    };
+  }
+
+  private describeSpec(spec: ValueSpec): string {
+    const parts: string[] = [];
+    const fieldNames = [...(spec.field ? [spec.field] : []), ...(spec.fields || [])];
+    if (fieldNames.length > 0) parts.push(`field ${fieldNames.map(f => `"${f}"`).join(' or ')}`);
+    if (spec.source) parts.push(`issue ${spec.source}`);
+    if (spec.derive) parts.push(`derived ${spec.derive}`);
+    if (spec.default !== undefined) parts.push(`default ${JSON.stringify(spec.default)}`);
+    return parts.join(', then ');
+  }
+}
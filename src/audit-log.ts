@@ -0,0 +1,199 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string; // When the call started
+  tool: string;
+  arguments: any; // Secrets redacted
+  issueKeys: string[];
+  before?: { [issueKey: string]: { [fieldId: string]: any } }; // Raw Jira values, fetched before the call
+  after?: { [issueKey: string]: { [fieldId: string]: any } }; // Fetched after the call
+  snapshotError?: string; // Why before/after values are missing
+  redactedFields?: { [issueKey: string]: string[] }; // Snapshot fields that held secrets; undo leaves them alone
+  success: boolean;
+  result?: any;
+  error?: string;
+}
+
+export interface AuditQuery {
+  issueKey?: string;
+  tool?: string;
+  since?: Date;
+  until?: Date;
+  limit?: number;
+}
+
+/**
+ * Tools whose changes undo_last_change can revert by writing the recorded before values back
+ */
+export const UNDOABLE_TOOLS = new Set(['update_issue', 'bulk_update']);
+
+/**
+ * Argument names whose values are never written to the log
+ */
+const SECRET_ARGUMENT = /token|password|secret|api[_-]?key|authorization|credential/i;
+
+/**
+ * Argument names matching SECRET_ARGUMENT that are still logged. Bulk confirmation tokens are
+ * single use and already spent when the entry is written; they tie an applied change to its preview.
+ */
+const LOGGED_ARGUMENTS = new Set(['confirmationToken']);
+
+/**
+ * Properties dropped from recorded field values: links and icons that Jira adds to every object
+ */
+const NOISE_PROPERTIES = new Set(['self', 'avatarUrls', 'iconUrl', 'statusCategory']);
+
+/**
+ * Recorded field values without link and icon noise. The result can still be written back to Jira.
+ */
+export function compactValue(value: any): any {
+  if (Array.isArray(value)) return value.map(compactValue);
+  if (!value || typeof value !== 'object') return value;
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([key]) => !NOISE_PROPERTIES.has(key))
+      .map(([key, item]) => [key, compactValue(item)])
+  );
+}
+
+/**
+ * The recorded before values of an issue that undo can write back: all but the redacted fields
+ */
+export function restorableFields(entry: AuditEntry, issueKey: string): { [fieldId: string]: any } {
+  const redacted = new Set(entry.redactedFields?.[issueKey] || []);
+  return Object.fromEntries(Object.entries(entry.before?.[issueKey] || {}).filter(([field]) => !redacted.has(field)));
+}
+
+/**
+ * Append-only JSONL log of mutating tool calls, one entry per line
+ * Undoing a change appends a new entry (tool undo_last_change); earlier lines are never rewritten.
+ */
+export class AuditLog {
+  constructor(public filePath: string, private secrets: string[] = []) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+
+  /**
+   * Replace secret arguments, and any configured secret value inside other strings
+   * (arguments, results, errors and field snapshots alike)
+   */
+  redact(value: any, key?: string): any {
+    if (key && SECRET_ARGUMENT.test(key) && !LOGGED_ARGUMENTS.has(key) && value !== undefined && value !== null) {
+      return '[REDACTED]';
+    }
+    if (typeof value === 'string') {
+      return this.secrets.reduce((text, secret) => (secret ? text.split(secret).join('[REDACTED]') : text), value);
+    }
+    if (Array.isArray(value)) return value.map(item => this.redact(item));
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, this.redact(v, k)]));
+    }
+    return value;
+  }
+
+  append(entry: Omit<AuditEntry, 'id'>): AuditEntry {
+    const before = entry.before && this.redact(entry.before);
+    const after = entry.after && this.redact(entry.after);
+
+    // Redacted values are not the real ones: writing them back would put "[REDACTED]" into Jira
+    const redactedFields: { [issueKey: string]: string[] } = {};
+    for (const [raw, redacted] of [
+      [entry.before, before],
+      [entry.after, after],
+    ]) {
+      for (const [issueKey, fields] of Object.entries<{ [fieldId: string]: any }>(raw || {})) {
+        for (const [field, value] of Object.entries(fields)) {
+          if (JSON.stringify(value) !== JSON.stringify(redacted[issueKey][field])) {
+            redactedFields[issueKey] = [...new Set([...(redactedFields[issueKey] || []), field])];
+          }
+        }
+      }
+    }
+
+    const recorded: AuditEntry = {
+      id: `${Date.now().toString(36)}-${randomBytes(3).toString('hex')}`,
+      ...entry,
+      arguments: this.redact(entry.arguments),
+      ...(before !== undefined ? { before } : {}),
+      ...(after !== undefined ? { after } : {}),
+      ...(Object.keys(redactedFields).length > 0 ? { redactedFields } : {}),
+      ...(entry.result !== undefined ? { result: this.redact(entry.result) } : {}),
+      ...(entry.error !== undefined ? { error: this.redact(entry.error) } : {}),
+    };
+    // A single write per line keeps concurrent appends from interleaving
+    fs.appendFileSync(this.filePath, `${JSON.stringify(recorded)}\n`);
+    return recorded;
+  }
+
+  private readAll(): AuditEntry[] {
+    let raw: string;
+    try {
+      raw = fs.readFileSync(this.filePath, 'utf-8');
+    } catch {
+      return [];
+    }
+
+    const entries: AuditEntry[] = [];
+    for (const line of raw.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // Skip a line cut short by a crash
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Entries matching the query, newest first
+   */
+  query(query: AuditQuery = {}): AuditEntry[] {
+    const issueKey = query.issueKey?.toUpperCase();
+    return this.readAll()
+      .filter(
+        entry =>
+          (!issueKey || entry.issueKeys.includes(issueKey)) &&
+          (!query.tool || entry.tool === query.tool) &&
+          (!query.since || new Date(entry.timestamp) >= query.since) &&
+          (!query.until || new Date(entry.timestamp) <= query.until)
+      )
+      .reverse()
+      .slice(0, query.limit ?? 50);
+  }
+
+  /**
+   * The most recent successful change that can still be undone, with the issues not yet restored.
+   * Issues restored by an earlier undo_last_change are skipped.
+   */
+  lastUndoable(issueKey?: string): { entry: AuditEntry; issueKeys: string[] } | undefined {
+    const wanted = issueKey?.toUpperCase();
+    const entries = this.readAll();
+
+    const restored = new Set<string>();
+    for (const entry of entries) {
+      if (entry.tool === 'undo_last_change' && entry.success && entry.result?.undone) {
+        for (const key of entry.result.restored || []) {
+          restored.add(`${entry.result.undone}:${key}`);
+        }
+      }
+    }
+
+    for (const entry of entries.reverse()) {
+      if (!UNDOABLE_TOOLS.has(entry.tool) || !entry.success || !entry.before) continue;
+      const issueKeys = Object.keys(entry.before).filter(
+        key =>
+          (!wanted || key === wanted) &&
+          !restored.has(`${entry.id}:${key}`) &&
+          Object.keys(restorableFields(entry, key)).length > 0
+      );
+      if (issueKeys.length > 0) {
+        return { entry, issueKeys };
+      }
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,283 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import axios, { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+
+export type AuthType = 'basic' | 'pat' | 'oauth';
+
+/**
+ * Supplies the REST base URL and credentials for every request to Jira
+ */
+export interface AuthProvider {
+  readonly type: AuthType;
+  /** Base URL the REST paths are appended to: the site URL, or api.atlassian.com/ex/jira/{cloudId} for OAuth */
+  apiBaseUrl(): Promise<string>;
+  /** Browsable site URL, used for links to issues */
+  siteUrl(): Promise<string>;
+  /** Authorization header value for the next request */
+  authorization(): Promise<string>;
+  /** Renew credentials after Jira rejected them with a 401; providers with fixed credentials omit this */
+  refresh?(): Promise<void>;
+}
+
+export interface OAuthConfig {
+  clientId: string;
+  clientSecret: string;
+  refreshToken: string;
+  accessToken?: string;
+  cloudId?: string; // Resolved from siteUrl through the accessible resources endpoint when not given
+  siteUrl?: string;
+  tokenFile?: string; // Where rotated refresh tokens are kept across restarts
+  tokenUrl?: string; // Default: https://auth.atlassian.com/oauth/token
+  apiUrl?: string; // Default: https://api.atlassian.com
+}
+
+interface OAuthTokens {
+  accessToken?: string;
+  refreshToken: string;
+  expiresAt?: number; // Epoch milliseconds
+  configuredRefreshToken?: string; // The configured refresh token these tokens were rotated from
+}
+
+/**
+ * Refresh access tokens this long before they expire
+ */
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+function trimSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+/**
+ * Email and API token (Jira Cloud)
+ */
+export class BasicAuth implements AuthProvider {
+  readonly type = 'basic';
+  private header: string;
+
+  constructor(private url: string, email: string, apiToken: string) {
+    this.header = `Basic ${Buffer.from(`${email}:${apiToken}`).toString('base64')}`;
+  }
+
+  async apiBaseUrl(): Promise<string> {
+    return trimSlash(this.url);
+  }
+
+  async siteUrl(): Promise<string> {
+    return trimSlash(this.url);
+  }
+
+  async authorization(): Promise<string> {
+    return this.header;
+  }
+}
+
+/**
+ * Personal Access Token sent as a bearer token (Jira Data Center / Server)
+ */
+export class BearerTokenAuth implements AuthProvider {
+  readonly type = 'pat';
+
+  constructor(private url: string, private token: string) {}
+
+  async apiBaseUrl(): Promise<string> {
+    return trimSlash(this.url);
+  }
+
+  async siteUrl(): Promise<string> {
+    return trimSlash(this.url);
+  }
+
+  async authorization(): Promise<string> {
+    return `Bearer ${this.token}`;
+  }
+}
+
+/**
+ * Atlassian OAuth 2.0 (3LO) with refresh tokens
+ * Requests go to api.atlassian.com/ex/jira/{cloudId}. Access tokens are refreshed shortly before they
+ * expire and after a 401; Atlassian rotates refresh tokens, so the latest one is saved to tokenFile.
+ */
+export class OAuthAuth implements AuthProvider {
+  readonly type = 'oauth';
+  private tokens: OAuthTokens;
+  private cloudId: string | undefined;
+  private site: string | undefined;
+  private refreshing: Promise<void> | undefined;
+  private resolvingSite: Promise<void> | undefined;
+  private tokenUrl: string;
+  private apiUrl: string;
+
+  constructor(private config: OAuthConfig) {
+    this.tokenUrl = config.tokenUrl || 'https://auth.atlassian.com/oauth/token';
+    this.apiUrl = trimSlash(config.apiUrl || 'https://api.atlassian.com');
+    this.cloudId = config.cloudId;
+    this.site = config.siteUrl && trimSlash(config.siteUrl);
+    this.tokens = this.loadTokens() ?? {
+      accessToken: config.accessToken,
+      refreshToken: config.refreshToken,
+      configuredRefreshToken: config.refreshToken,
+    };
+  }
+
+  /**
+   * Tokens saved by an earlier run. They win over the configured refresh token, which they were rotated
+   * from, unless a different refresh token has been configured since (the app was authorized again).
+   * An unreadable file is ignored with a warning.
+   */
+  private loadTokens(): OAuthTokens | undefined {
+    if (!this.config.tokenFile || !fs.existsSync(this.config.tokenFile)) return undefined;
+
+    let saved: any;
+    try {
+      saved = JSON.parse(fs.readFileSync(this.config.tokenFile, 'utf-8'));
+    } catch (error) {
+      console.error(
+        `Ignoring OAuth token file ${this.config.tokenFile}: ${(error as Error).message}. Using the configured refresh token.`
+      );
+      return undefined;
+    }
+
+    if (!saved?.refreshToken) return undefined;
+    // Files written before configuredRefreshToken was recorded are trusted as before
+    if (saved.configuredRefreshToken && saved.configuredRefreshToken !== this.config.refreshToken) return undefined;
+    return saved;
+  }
+
+  private saveTokens(): void {
+    if (!this.config.tokenFile) return;
+    fs.mkdirSync(path.dirname(this.config.tokenFile), { recursive: true });
+    const tempPath = `${this.config.tokenFile}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(this.tokens), { mode: 0o600 });
+    fs.renameSync(tempPath, this.config.tokenFile);
+  }
+
+  /**
+   * Exchange the refresh token for a new access token. Concurrent callers share one request.
+   */
+  refresh(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = (async () => {
+        let data: any;
+        try {
+          const response = await axios.post(this.tokenUrl, {
+            grant_type: 'refresh_token',
+            client_id: this.config.clientId,
+            client_secret: this.config.clientSecret,
+            refresh_token: this.tokens.refreshToken,
+          });
+          data = response.data;
+        } catch (error) {
+          const detail = (error as AxiosError<any>).response?.data;
+          const reason = String(detail?.error_description || detail?.error || (error as Error).message).replace(/\.$/, '');
+          throw new Error(`OAuth token refresh failed: ${reason}. The refresh token may have expired; authorize the app again.`);
+        }
+
+        if (!data?.access_token) {
+          throw new Error('OAuth token refresh failed: the token endpoint returned no access_token');
+        }
+        this.tokens = {
+          accessToken: data.access_token,
+          refreshToken: data.refresh_token || this.tokens.refreshToken,
+          expiresAt: data.expires_in ? Date.now() + data.expires_in * 1000 : undefined,
+          configuredRefreshToken: this.config.refreshToken,
+        };
+        this.saveTokens();
+      })().finally(() => {
+        this.refreshing = undefined;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async accessToken(): Promise<string> {
+    const expired = this.tokens.expiresAt !== undefined && Date.now() >= this.tokens.expiresAt - TOKEN_EXPIRY_MARGIN_MS;
+    if (!this.tokens.accessToken || expired) {
+      await this.refresh();
+    }
+    return this.tokens.accessToken!;
+  }
+
+  async authorization(): Promise<string> {
+    return `Bearer ${await this.accessToken()}`;
+  }
+
+  /**
+   * Find the cloud id and site URL among the sites the token can access
+   */
+  private resolveSite(): Promise<void> {
+    if (this.cloudId && this.site) return Promise.resolve();
+    if (!this.resolvingSite) {
+      this.resolvingSite = (async () => {
+        const response = await axios.get(`${this.apiUrl}/oauth/token/accessible-resources`, {
+          headers: { Authorization: await this.authorization(), Accept: 'application/json' },
+        });
+        const resources: any[] = response.data || [];
+        const match = this.cloudId
+          ? resources.find(resource => resource.id === this.cloudId)
+          : this.site
+            ? resources.find(resource => trimSlash(resource.url) === this.site)
+            : resources.length === 1
+              ? resources[0]
+              : undefined;
+
+        if (!match) {
+          const available = resources.map(resource => `${resource.url} (${resource.id})`).join(', ') || 'none';
+          throw new Error(
+            `OAuth token has no access to ${this.cloudId ?? this.site ?? 'a single Jira site'}. Accessible sites: ${available}`
+          );
+        }
+        this.cloudId = match.id;
+        this.site = trimSlash(match.url);
+      })().finally(() => {
+        this.resolvingSite = undefined;
+      });
+    }
+    return this.resolvingSite;
+  }
+
+  async apiBaseUrl(): Promise<string> {
+    if (!this.cloudId) await this.resolveSite();
+    return `${this.apiUrl}/ex/jira/${this.cloudId}`;
+  }
+
+  async siteUrl(): Promise<string> {
+    if (!this.site) await this.resolveSite();
+    return this.site!;
+  }
+}
+
+interface AuthRequestConfig extends InternalAxiosRequestConfig {
+  authRetried?: boolean;
+}
+
+/**
+ * Point an axios instance at the provider's base URL plus apiPath (e.g. "/rest/api/3", or a function
+ * resolving it once the deployment type is known), send the provider's credentials, and retry once
+ * after a 401 when the provider can refresh
+ */
+export function applyAuth(
+  client: AxiosInstance,
+  auth: AuthProvider,
+  apiPath: string | (() => Promise<string>)
+): void {
+  client.interceptors.request.use(async config => {
+    config.baseURL = `${await auth.apiBaseUrl()}${typeof apiPath === 'string' ? apiPath : await apiPath()}`;
+    config.headers.set('Authorization', await auth.authorization());
+    return config;
+  });
+
+  client.interceptors.response.use(undefined, async (error: AxiosError) => {
+    const config = error.config as AuthRequestConfig | undefined;
+    const replayable = !(config?.data && typeof (config.data as any).pipe === 'function'); // Streamed uploads cannot be resent
+    if (error.response?.status !== 401 || !auth.refresh || !config || config.authRetried || !replayable) {
+      throw error;
+    }
+
+    config.authRetried = true;
+    // Requests that failed while another one refreshed only need the new credentials
+    if (config.headers.get('Authorization') === (await auth.authorization())) {
+      await auth.refresh();
+    }
+    return client.request(config);
+  });
+}
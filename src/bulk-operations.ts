@@ -0,0 +1,451 @@
+/**
+ * Bulk update, transition and comment with a dry-run preview
+ * Planning returns a per-issue diff and a confirmation token; applying the token runs the
+ * stored plan with bounded concurrency and reports success or failure per issue.
+ */
+
+import { randomBytes } from 'crypto';
+import { adfToMarkdown } from './adf-to-markdown.js';
+import { formatFieldValue } from './field-registry.js';
+import { JiraApiError, JiraClient, matchTransition } from './jira-client.js';
+
+export type BulkOperation = 'update' | 'transition' | 'comment';
+
+export interface BulkSelection {
+  jql?: string; // Already alias-expanded
+  issueKeys?: string[];
+}
+
+export interface BulkTransitionSpec {
+  transition: string; // Transition id, transition name or target status name
+  resolution?: string;
+  fields?: { [field: string]: any };
+  comment?: string;
+}
+
+interface PlannedIssue {
+  issueKey: string;
+  issueId?: string; // Needed to read bulk task results, which report issue ids
+  context?: string; // Project and issue type, which decide field contexts and option ids
+  transitionId?: string;
+}
+
+interface BulkPlan {
+  operation: BulkOperation;
+  createdAt: number;
+  issues: PlannedIssue[]; // Only issues that will change
+  spec: any;
+  useBulkEndpoint?: boolean;
+}
+
+/**
+ * Most issues a single bulk operation may touch
+ */
+const MAX_BULK_ISSUES = 200;
+
+const PLAN_TTL_MS = 15 * 60 * 1000;
+const BULK_TASK_POLL_MS = 1000;
+const BULK_TASK_TIMEOUT_MS = 2 * 60 * 1000;
+const BULK_TASK_DONE = ['COMPLETE', 'FAILED', 'CANCELLED', 'DEAD'];
+
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function isBlank(value: any): boolean {
+  return value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Whether an issue's raw field value equals a wanted value coerced into the same shape.
+ * Objects match on the properties the wanted value sets (e.g. value, name or accountId),
+ * lists match in any order and rich text matches on its Markdown.
+ */
+function sameValue(current: any, wanted: any): boolean {
+  if (isBlank(current) || isBlank(wanted)) {
+    return isBlank(current) && isBlank(wanted);
+  }
+  if (Array.isArray(wanted)) {
+    return (
+      Array.isArray(current) &&
+      current.length === wanted.length &&
+      wanted.every(item => current.some(currentItem => sameValue(currentItem, item)))
+    );
+  }
+  if (typeof wanted === 'object') {
+    if (wanted.type === 'doc') {
+      return adfToMarkdown(current) === adfToMarkdown(wanted);
+    }
+    return typeof current === 'object' && Object.entries(wanted).every(([key, value]) => sameValue(current[key], value));
+  }
+  return String(current) === String(wanted);
+}
+
+export class BulkOperations {
+  private plans = new Map<string, BulkPlan>();
+
+  // Issues worked on at once; their requests still share the client's request layer limit
+  constructor(private jiraClient: JiraClient, private concurrency: number = 5) {}
+
+  private async selectIssues(selection: BulkSelection, fields: string[], compact: boolean = false): Promise<any[]> {
+    let jql: string;
+    if (selection.issueKeys?.length) {
+      const invalid = selection.issueKeys.filter(key => !/^[A-Z][A-Z0-9_]*-\d+$/i.test(key));
+      if (invalid.length > 0) {
+        throw new Error(`Invalid issue keys: ${invalid.join(', ')}`);
+      }
+      jql = `key in (${selection.issueKeys.join(', ')}) ORDER BY key`;
+    } else if (selection.jql) {
+      jql = selection.jql;
+    } else {
+      throw new Error('Provide either jql or issueKeys');
+    }
+
+    const result = await this.jiraClient.searchIssues(jql, MAX_BULK_ISSUES + 1, { fields, compact });
+    if (result.issues.length > MAX_BULK_ISSUES) {
+      throw new Error(`More than ${MAX_BULK_ISSUES} issues match. Narrow the query and run the operation in batches.`);
+    }
+    if (result.issues.length === 0) {
+      throw new Error('No issues match the selection');
+    }
+    return result.issues;
+  }
+
+  /**
+   * A pending plan's operation, issues and spec, or undefined for an unknown or expired token
+   */
+  pendingPlan(token: string): { operation: BulkOperation; issueKeys: string[]; spec: any } | undefined {
+    const plan = this.plans.get(token);
+    if (!plan || Date.now() - plan.createdAt > PLAN_TTL_MS) return undefined;
+    return { operation: plan.operation, issueKeys: plan.issues.map(issue => issue.issueKey), spec: plan.spec };
+  }
+
+  /**
+   * Store a plan and build the preview returned to the caller
+   */
+  private preview(plan: Omit<BulkPlan, 'createdAt'>, details: any): any {
+    const now = Date.now();
+    for (const [token, stored] of this.plans) {
+      if (now - stored.createdAt > PLAN_TTL_MS) this.plans.delete(token);
+    }
+
+    if (plan.issues.length === 0) {
+      return { operation: plan.operation, dryRun: true, toChange: 0, ...details, message: 'Nothing to change.' };
+    }
+
+    const token = randomBytes(12).toString('hex');
+    this.plans.set(token, { ...plan, createdAt: now });
+    return {
+      operation: plan.operation,
+      dryRun: true,
+      toChange: plan.issues.length,
+      ...details,
+      confirmationToken: token,
+      expiresAt: new Date(now + PLAN_TTL_MS).toISOString(),
+      message: `Nothing has been changed yet. Call again with confirmationToken "${token}" to apply this plan.`,
+    };
+  }
+
+  async planUpdate(selection: BulkSelection, fields: { [field: string]: any }): Promise<any> {
+    if (!fields || Object.keys(fields).length === 0) {
+      throw new Error('fields must contain at least one field to set');
+    }
+
+    const known = await this.jiraClient.getFields();
+    const targets = Object.entries(fields).map(([field, value]) => {
+      const wanted = field.toLowerCase().trim();
+      const info = known.find(f => f.id.toLowerCase() === wanted || f.name.toLowerCase() === wanted);
+      if (!info) {
+        throw new Error(`Unknown field "${field}". Use a field id (e.g., customfield_10010) or its display name.`);
+      }
+      return { input: field, info, value };
+    });
+
+    // Applying sends the fields by id, so every issue gets the field the preview showed
+    const fieldsById = Object.fromEntries(targets.map(target => [target.info.id, target.value]));
+    const rows = await this.selectIssues(selection, ['summary', 'project', 'issuetype', ...targets.map(t => t.info.id)]);
+    const changes: any[] = [];
+    const unchanged: string[] = [];
+    const skipped: any[] = [];
+    const issues: PlannedIssue[] = [];
+
+    // Compare raw values with the wanted values in the shape they will be sent in, coerced against
+    // the edit screen of each project and issue type as applying does
+    const contextOf = (row: any) => `${row.fields.project?.id}/${row.fields.issuetype?.id}`;
+    const coercions = new Map<string, Promise<{ [fieldId: string]: any }>>();
+    for (const row of rows) {
+      if (!coercions.has(contextOf(row))) {
+        coercions.set(contextOf(row), this.jiraClient.coerceFields(fieldsById, row.key));
+      }
+    }
+
+    for (const row of rows) {
+      let coerced: { [fieldId: string]: any };
+      try {
+        coerced = await coercions.get(contextOf(row))!;
+      } catch (error) {
+        skipped.push({ issueKey: row.key, reason: errorMessage(error) });
+        continue;
+      }
+
+      const fieldChanges = targets
+        .filter(target => !sameValue(row.fields[target.info.id], coerced[target.info.id]))
+        .map(target => ({
+          field: target.info.name,
+          from: formatFieldValue(row.fields[target.info.id], target.info.schema),
+          to: target.value,
+        }));
+
+      if (fieldChanges.length === 0) {
+        unchanged.push(row.key);
+        continue;
+      }
+      issues.push({ issueKey: row.key, issueId: row.id, context: contextOf(row) });
+      changes.push({ issueKey: row.key, summary: row.fields.summary, changes: fieldChanges });
+    }
+
+    return this.preview(
+      // Cloud sets the fields with one bulk edit; Data Center updates issue by issue
+      { operation: 'update', issues, spec: { fields: fieldsById }, useBulkEndpoint: true },
+      { matched: rows.length, changes, unchanged, ...(skipped.length > 0 ? { skipped } : {}) }
+    );
+  }
+
+  async planTransition(selection: BulkSelection, spec: BulkTransitionSpec): Promise<any> {
+    const rows = await this.selectIssues(selection, ['summary', 'status']);
+    const changes: any[] = [];
+    const unchanged: string[] = [];
+    const skipped: any[] = [];
+    const issues: PlannedIssue[] = [];
+    const needsScreen = !!(spec.resolution || spec.comment || (spec.fields && Object.keys(spec.fields).length > 0));
+
+    const lookups = await mapWithConcurrency(rows, this.concurrency, async issue => {
+      try {
+        return { issue, transitions: await this.jiraClient.getTransitions(issue.key) };
+      } catch (error) {
+        return { issue, error: errorMessage(error) };
+      }
+    });
+
+    for (const { issue, transitions, error } of lookups) {
+      const status = issue.fields.status?.name;
+      if (error || !transitions) {
+        skipped.push({ issueKey: issue.key, reason: error });
+        continue;
+      }
+
+      const transition = matchTransition(transitions, spec.transition);
+      if (!transition) {
+        if (status?.toLowerCase() === spec.transition.toLowerCase().trim()) {
+          unchanged.push(issue.key);
+        } else {
+          skipped.push({
+            issueKey: issue.key,
+            status,
+            reason: `No transition matching "${spec.transition}". Available: ${transitions.map(t => t.name).join(', ') || 'none'}`,
+          });
+        }
+        continue;
+      }
+
+      // Fields may be given by id or display name
+      const provided = new Set(
+        [...Object.keys(spec.fields || {}), ...(spec.resolution ? ['resolution'] : [])].map(field => field.toLowerCase().trim())
+      );
+      const missing = transition.requiredFields.filter(
+        field => !provided.has(field.id.toLowerCase()) && !provided.has(field.name?.toLowerCase())
+      );
+      if (missing.length > 0) {
+        skipped.push({
+          issueKey: issue.key,
+          status,
+          reason: `Transition "${transition.name}" requires: ${missing.map(f => `${f.id} '${f.name}'`).join(', ')}`,
+        });
+        continue;
+      }
+      issues.push({ issueKey: issue.key, issueId: issue.id, transitionId: transition.id });
+      changes.push({
+        issueKey: issue.key,
+        summary: issue.fields.summary,
+        status: { from: status, to: transition.toStatus },
+        transition: transition.name,
+      });
+    }
+
+    return this.preview(
+      // The bulk transition endpoint cannot set screen fields or comments
+      { operation: 'transition', issues, spec, useBulkEndpoint: !needsScreen },
+      {
+        matched: rows.length,
+        changes,
+        unchanged,
+        skipped,
+        ...(spec.resolution ? { resolution: spec.resolution } : {}),
+        ...(spec.comment ? { comment: spec.comment } : {}),
+      }
+    );
+  }
+
+  async planComment(selection: BulkSelection, comment: string): Promise<any> {
+    if (!comment?.trim()) {
+      throw new Error('comment must not be empty');
+    }
+
+    const rows = await this.selectIssues(selection, ['summary']);
+    return this.preview(
+      {
+        operation: 'comment',
+        issues: rows.map(issue => ({ issueKey: issue.key, issueId: issue.id })),
+        spec: { comment },
+      },
+      {
+        matched: rows.length,
+        comment,
+        changes: rows.map(issue => ({ issueKey: issue.key, summary: issue.fields.summary, action: 'add comment' })),
+      }
+    );
+  }
+
+  /**
+   * Apply a previously previewed plan. Tokens are single use.
+   */
+  async apply(operation: BulkOperation, token: string): Promise<any> {
+    const plan = this.plans.get(token);
+    if (!plan || Date.now() - plan.createdAt > PLAN_TTL_MS) {
+      this.plans.delete(token);
+      throw new Error('Unknown or expired confirmationToken. Run the operation again without a token to get a new preview.');
+    }
+    if (plan.operation !== operation) {
+      throw new Error(`This confirmationToken belongs to a bulk ${plan.operation}, not a bulk ${operation}`);
+    }
+    this.plans.delete(token);
+
+    let results: { issueKey: string; success: boolean; error?: string }[];
+    let task: any;
+
+    let bulk: { results: any[]; task: any } | undefined;
+    if (plan.useBulkEndpoint) {
+      try {
+        bulk = plan.operation === 'transition' ? await this.applyBulkTransition(plan) : await this.applyBulkEdit(plan);
+      } catch (error) {
+        // Sites without the bulk endpoints fall back to one change per issue
+        if (!(error instanceof JiraApiError && (error.status === 404 || error.status === 405))) throw error;
+      }
+    }
+    if (bulk) {
+      ({ results, task } = bulk);
+    } else {
+      results = await this.applyPerIssue(plan);
+    }
+
+    const failed = results.filter(result => !result.success);
+    return {
+      operation: plan.operation,
+      dryRun: false,
+      succeeded: results.length - failed.length,
+      failed: failed.length,
+      ...(task ? { task } : {}),
+      results,
+    };
+  }
+
+  private async applyPerIssue(plan: BulkPlan): Promise<{ issueKey: string; success: boolean; error?: string }[]> {
+    return mapWithConcurrency(plan.issues, this.concurrency, async issue => {
+      try {
+        if (plan.operation === 'update') {
+          await this.jiraClient.updateIssue(issue.issueKey, { fields: plan.spec.fields });
+        } else if (plan.operation === 'transition') {
+          await this.jiraClient.transitionIssue(issue.issueKey, { ...plan.spec, transition: issue.transitionId });
+        } else {
+          await this.jiraClient.addComment(issue.issueKey, plan.spec.comment);
+        }
+        return { issueKey: issue.issueKey, success: true };
+      } catch (error) {
+        return { issueKey: issue.issueKey, success: false, error: errorMessage(error) };
+      }
+    });
+  }
+
+  /**
+   * Run a transition plan through Jira's bulk transition endpoint and wait for the task
+   */
+  private async applyBulkTransition(plan: BulkPlan): Promise<{ results: any[]; task: any }> {
+    const groups = new Map<string, string[]>();
+    for (const issue of plan.issues) {
+      groups.set(issue.transitionId!, [...(groups.get(issue.transitionId!) || []), issue.issueKey]);
+    }
+
+    const taskId = await this.jiraClient.startBulkTransition(
+      [...groups.entries()].map(([transitionId, issueKeys]) => ({ transitionId, issueKeys }))
+    );
+    return this.waitForBulkTask(plan, taskId);
+  }
+
+  /**
+   * Run an update plan through Jira's bulk edit endpoint and wait for the task.
+   * Undefined when the edit cannot run in bulk.
+   */
+  private async applyBulkEdit(plan: BulkPlan): Promise<{ results: any[]; task: any } | undefined> {
+    const byContext = new Map<string | undefined, string[]>();
+    for (const issue of plan.issues) {
+      byContext.set(issue.context, [...(byContext.get(issue.context) || []), issue.issueKey]);
+    }
+    const taskId = await this.jiraClient.startBulkEdit([...byContext.values()], plan.spec.fields);
+    return taskId ? this.waitForBulkTask(plan, taskId) : undefined;
+  }
+
+  /**
+   * Poll a bulk task until it finishes or times out, and report the result per planned issue
+   */
+  private async waitForBulkTask(plan: BulkPlan, taskId: string): Promise<{ results: any[]; task: any }> {
+    let progress: any = {};
+    const deadline = Date.now() + BULK_TASK_TIMEOUT_MS;
+    while (Date.now() < deadline) {
+      progress = await this.jiraClient.getBulkTask(taskId);
+      if (BULK_TASK_DONE.includes(progress.status)) break;
+      await new Promise(resolve => setTimeout(resolve, BULK_TASK_POLL_MS));
+    }
+
+    const processed = new Set((progress.processedAccessibleIssues || []).map(String));
+    const failures: { [issueId: string]: string[] } = progress.failedAccessibleIssues || {};
+    const finished = BULK_TASK_DONE.includes(progress.status);
+
+    const results = plan.issues.map(issue => {
+      const errors = failures[issue.issueId!] || failures[issue.issueKey];
+      if (errors) {
+        return { issueKey: issue.issueKey, success: false, error: Array.isArray(errors) ? errors.join('; ') : String(errors) };
+      }
+      if (processed.has(issue.issueId) || processed.has(issue.issueKey)) {
+        return { issueKey: issue.issueKey, success: true };
+      }
+      return {
+        issueKey: issue.issueKey,
+        success: false,
+        error: finished ? 'Not processed by the bulk task' : 'Bulk task still running; check the issue later',
+      };
+    });
+
+    return {
+      results,
+      task: {
+        taskId,
+        status: progress.status,
+        progressPercent: progress.progressPercent,
+        invalidOrInaccessibleIssueCount: progress.invalidOrInaccessibleIssueCount,
+      },
+    };
+  }
+}
@@ -0,0 +1,142 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import YAML from 'yaml';
+
+export type CommentTag = 'human' | 'bot' | 'automation';
+
+export interface CommentRule {
+  name: string;
+  tag: Exclude<CommentTag, 'human'>;
+  authorAccountIds?: string[];
+  authorNames?: string[]; // Case-insensitive display name match
+  accountTypes?: string[]; // Jira account types, e.g. "app"
+  bodyMarkers?: string[]; // Plain substrings of the comment body
+  bodyPatterns?: string[]; // Regular expressions (case-insensitive)
+  properties?: { [propertyKey: string]: any }; // Comment properties; a value of true only requires the key
+}
+
+export interface CommentRuleConfig {
+  rules: CommentRule[];
+}
+
+export interface ClassifiableComment {
+  author?: string;
+  authorAccountId?: string;
+  authorAccountType?: string;
+  body?: string;
+  properties?: { [propertyKey: string]: any };
+}
+
+/**
+ * Default rules, used when no rule file is provided
+ */
+const DEFAULT_COMMENT_RULES: CommentRuleConfig = {
+  rules: [
+    {
+      name: 'Jira Automation',
+      tag: 'automation',
+      authorNames: ['Automation for Jira', 'Jira Automation'],
+    },
+    {
+      name: 'App accounts',
+      tag: 'bot',
+      accountTypes: ['app'],
+    },
+    {
+      name: 'AI-assisted investigation markers',
+      tag: 'bot',
+      bodyMarkers: ['🤖 AI-Assisted Investigation', 'Claude Code', 'This investigation was conducted by'],
+    },
+  ],
+};
+
+/**
+ * Classifies comments as human, bot or automation using a configurable, ordered rule set.
+ * The first matching rule wins; comments matching no rule are human.
+ */
+export class CommentClassifier {
+  private patterns: Map<CommentRule, RegExp[]>;
+
+  constructor(private config: CommentRuleConfig, private source: string = 'built-in defaults') {
+    this.patterns = new Map(
+      config.rules.map(rule => [rule, (rule.bodyPatterns || []).map(p => new RegExp(p, 'i'))])
+    );
+  }
+
+  /**
+   * Load rules from a JSON or YAML file. Falls back to the default rules when no path is given.
+   */
+  static load(configPath?: string): CommentClassifier {
+    if (!configPath) {
+      return new CommentClassifier(DEFAULT_COMMENT_RULES);
+    }
+
+    if (!fs.existsSync(configPath)) {
+      throw new Error(`Comment rules file not found: ${configPath}`);
+    }
+
+    const raw = fs.readFileSync(configPath, 'utf-8');
+    const ext = path.extname(configPath).toLowerCase();
+    const config = ext === '.yaml' || ext === '.yml' ? YAML.parse(raw) : JSON.parse(raw);
+
+    if (!config || !Array.isArray(config.rules)) {
+      throw new Error(`Comment rules ${configPath} must contain a "rules" array`);
+    }
+    for (const rule of config.rules) {
+      if (rule.tag !== 'bot' && rule.tag !== 'automation') {
+        throw new Error(`Comment rule "${rule.name}" must have tag "bot" or "automation"`);
+      }
+    }
+
+    return new CommentClassifier(config, configPath);
+  }
+
+  /**
+   * Whether any rule needs comment properties, which must be fetched separately
+   */
+  usesProperties(): boolean {
+    return this.config.rules.some(rule => rule.properties && Object.keys(rule.properties).length > 0);
+  }
+
+  classify(comment: ClassifiableComment): { tag: CommentTag; rule?: string } {
+    for (const rule of this.config.rules) {
+      if (this.matches(rule, comment)) {
+        return { tag: rule.tag, rule: rule.name };
+      }
+    }
+    return { tag: 'human' };
+  }
+
+  private matches(rule: CommentRule, comment: ClassifiableComment): boolean {
+    const author = (comment.author || '').toLowerCase();
+    const body = comment.body || '';
+
+    if (rule.authorAccountIds?.includes(comment.authorAccountId || '')) return true;
+    if (rule.authorNames?.some(name => name.toLowerCase() === author)) return true;
+    if (rule.accountTypes?.includes(comment.authorAccountType || '')) return true;
+    if (rule.bodyMarkers?.some(marker => body.includes(marker))) return true;
+    if (this.patterns.get(rule)?.some(pattern => pattern.test(body))) return true;
+
+    if (rule.properties && comment.properties) {
+      for (const [key, expected] of Object.entries(rule.properties)) {
+        if (!(key in comment.properties)) continue;
+        if (expected === true || JSON.stringify(comment.properties[key]) === JSON.stringify(expected)) {
+          return true;
+        }
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Describe the active rule set for auditing
+   */
+  describe(): any {
+    return {
+      source: this.source,
+      defaultTag: 'human',
+      rules: this.config.rules,
+    };
+  }
+}
@@ -0,0 +1,279 @@
+/**
+ * Dependency graph of an issue: issue links, subtasks and parent/child (epic) hierarchy,
+ * walked breadth-first to a configurable depth, with cycle detection and Mermaid/DOT output.
+ */
+
+import { JiraClient } from './jira-client.js';
+
+export interface DependencyGraphOptions {
+  depth?: number; // Number of hops from the root to expand (default 2, max 5)
+  linkTypes?: string[]; // Only follow these link types, by name or relation (default: all)
+  includeSubtasks?: boolean; // Follow subtasks (default true)
+  includeChildren?: boolean; // Follow children of epics and other parent issues (default true)
+  maxNodes?: number; // Stop expanding past this many nodes (default 200)
+}
+
+export interface GraphNode {
+  key: string;
+  project: string;
+  summary?: string;
+  issueType?: string;
+  status?: string;
+  statusCategory?: string; // new, indeterminate or done
+  depth: number; // Hops from the root
+  error?: string; // Set when the issue could not be expanded
+}
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+  kind: 'link' | 'subtask' | 'child';
+  type: string; // Link type name, or the hierarchy kind
+  relation: string; // Reads as "from <relation> to", e.g. "blocks"
+}
+
+export interface DependencyGraph {
+  root: string;
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  cycles: string[][];
+  openBlockers: { blocker: string; status?: string; blocks: string }[];
+  truncated: boolean;
+}
+
+const MAX_DEPTH = 5;
+const MAX_CYCLES = 20;
+const EXPAND_FIELDS = ['summary', 'status', 'issuetype', 'issuelinks', 'subtasks'];
+
+/**
+ * Whether an issue can have children: any type above the standard level. Data Center reports
+ * no hierarchy levels, so there only epics qualify.
+ */
+function isParentIssue(issue: any): boolean {
+  const issueType = issue.fields?.issuetype || {};
+  return (issueType.hierarchyLevel ?? (issueType.name?.toLowerCase() === 'epic' ? 1 : 0)) > 0;
+}
+
+function nodeFrom(issue: any, depth: number): GraphNode {
+  const fields = issue.fields || {};
+  return {
+    key: issue.key,
+    project: issue.key.split('-')[0],
+    summary: fields.summary,
+    issueType: fields.issuetype?.name,
+    status: fields.status?.name,
+    statusCategory: fields.status?.statusCategory?.key,
+    depth,
+  };
+}
+
+export async function buildDependencyGraph(
+  jiraClient: JiraClient,
+  rootKey: string,
+  options: DependencyGraphOptions = {}
+): Promise<DependencyGraph> {
+  const depth = Math.min(Math.max(options.depth ?? 2, 0), MAX_DEPTH);
+  const maxNodes = options.maxNodes ?? 200;
+  const includeSubtasks = options.includeSubtasks !== false;
+  const includeChildren = options.includeChildren !== false;
+  const linkTypes = options.linkTypes?.map(t => t.toLowerCase().trim());
+
+  const nodes = new Map<string, GraphNode>();
+  const edges = new Map<string, GraphEdge>();
+  let truncated = false;
+
+  const root = await jiraClient.getIssue(rootKey, EXPAND_FIELDS);
+  nodes.set(root.key, nodeFrom(root, 0));
+
+  // Adds a neighbour found at the given depth; returns whether it still needs expanding
+  const discover = (issue: any, nodeDepth: number): boolean => {
+    if (nodes.has(issue.key)) return false;
+    if (nodes.size >= maxNodes) {
+      truncated = true;
+      return false;
+    }
+    nodes.set(issue.key, nodeFrom(issue, nodeDepth));
+    return nodeDepth < depth;
+  };
+
+  let frontier: any[] = [root];
+  for (let level = 0; level < depth && frontier.length > 0; level++) {
+    const next: string[] = [];
+
+    for (const issue of frontier) {
+      for (const link of issue.fields?.issuelinks || []) {
+        const type = link.type || {};
+        if (linkTypes && !linkTypes.some(t => [type.name, type.outward, type.inward].some(v => v?.toLowerCase() === t))) {
+          continue;
+        }
+        const other = link.outwardIssue || link.inwardIssue;
+        if (!other) continue;
+
+        // "issue <outward> other" for outward links, "other <outward> issue" for inward ones
+        const [from, to] = link.outwardIssue ? [issue.key, other.key] : [other.key, issue.key];
+        edges.set(`link:${link.id}`, { from, to, kind: 'link', type: type.name, relation: type.outward });
+        if (discover(other, level + 1)) next.push(other.key);
+      }
+
+      if (includeSubtasks) {
+        for (const subtask of issue.fields?.subtasks || []) {
+          edges.set(`subtask:${issue.key}:${subtask.key}`, {
+            from: issue.key,
+            to: subtask.key,
+            kind: 'subtask',
+            type: 'Subtask',
+            relation: 'has subtask',
+          });
+          if (discover(subtask, level + 1)) next.push(subtask.key);
+        }
+      }
+    }
+
+    // Children of epics (and any other issue type above the standard level)
+    const parents = includeChildren
+      ? frontier.filter(isParentIssue).map(issue => issue.key)
+      : [];
+    if (parents.length > 0) {
+      const children = await jiraClient.searchChildIssues(parents, maxNodes, ['summary', 'status', 'issuetype']);
+      for (const child of children) {
+        // A child is only linked to the parent it names; guessing could credit it to the wrong epic
+        const parentKey = child.fields?.parent?.key;
+        if (!parentKey || !parents.includes(parentKey)) continue;
+        edges.set(`child:${parentKey}:${child.key}`, {
+          from: parentKey,
+          to: child.key,
+          kind: 'child',
+          type: 'Child',
+          relation: 'has child',
+        });
+        if (discover(child, level + 1)) next.push(child.key);
+      }
+    }
+
+    // Expand the next level; the request layer bounds concurrency
+    frontier = (
+      await Promise.all(
+        next.map(async key => {
+          try {
+            return await jiraClient.getIssue(key, EXPAND_FIELDS);
+          } catch (error) {
+            nodes.get(key)!.error = error instanceof Error ? error.message : String(error);
+            return undefined;
+          }
+        })
+      )
+    ).filter(issue => issue !== undefined);
+
+    // Linked issues arrive as stubs; refresh them from the fetched issue
+    for (const issue of frontier) {
+      nodes.set(issue.key, nodeFrom(issue, nodes.get(issue.key)!.depth));
+    }
+  }
+
+  const edgeList = [...edges.values()];
+  return {
+    root: root.key,
+    nodes: [...nodes.values()],
+    edges: edgeList,
+    cycles: findCycles(edgeList),
+    openBlockers: edgeList
+      .filter(edge => edge.kind === 'link' && /block/i.test(edge.type) && nodes.get(edge.from)?.statusCategory !== 'done')
+      .map(edge => ({ blocker: edge.from, status: nodes.get(edge.from)?.status, blocks: edge.to })),
+    truncated,
+  };
+}
+
+/**
+ * Directed cycles, each listed once starting from its smallest key
+ */
+export function findCycles(edges: GraphEdge[]): string[][] {
+  const adjacency = new Map<string, string[]>();
+  for (const edge of edges) {
+    if (!adjacency.has(edge.from)) adjacency.set(edge.from, []);
+    adjacency.get(edge.from)!.push(edge.to);
+  }
+
+  const cycles = new Map<string, string[]>();
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+
+  const visit = (key: string) => {
+    state.set(key, 'visiting');
+    stack.push(key);
+    for (const next of adjacency.get(key) || []) {
+      if (cycles.size >= MAX_CYCLES) break;
+      if (state.get(next) === 'visiting') {
+        const cycle = stack.slice(stack.indexOf(next));
+        const start = cycle.indexOf([...cycle].sort()[0]);
+        const normalized = [...cycle.slice(start), ...cycle.slice(0, start)];
+        cycles.set(normalized.join(' -> '), normalized);
+      } else if (!state.has(next)) {
+        visit(next);
+      }
+    }
+    stack.pop();
+    state.set(key, 'done');
+  };
+
+  for (const key of adjacency.keys()) {
+    if (!state.has(key)) visit(key);
+  }
+
+  return [...cycles.values()];
+}
+
+function nodeLabel(node: GraphNode): string {
+  const summary = node.summary && node.summary.length > 60 ? `${node.summary.substring(0, 57)}...` : node.summary;
+  return [node.key, summary, node.status ? `(${node.status})` : undefined].filter(Boolean).join('\n');
+}
+
+export function toMermaid(graph: DependencyGraph): string {
+  const id = (key: string) => key.replace(/[^A-Za-z0-9_]/g, '_');
+  const lines = ['graph LR'];
+
+  for (const node of graph.nodes) {
+    const label = nodeLabel(node).replace(/"/g, '#quot;').replace(/\n/g, '<br/>');
+    lines.push(`  ${id(node.key)}["${label}"]`);
+  }
+  for (const edge of graph.edges) {
+    const arrow = edge.kind === 'link' ? '-->' : '-.->';
+    lines.push(`  ${id(edge.from)} ${arrow}|${edge.relation}| ${id(edge.to)}`);
+  }
+
+  const done = graph.nodes.filter(node => node.statusCategory === 'done').map(node => id(node.key));
+  if (done.length > 0) {
+    lines.push('  classDef done fill:#e3fcef,stroke:#36b37e');
+    lines.push(`  class ${done.join(',')} done`);
+  }
+  const blockers = [...new Set(graph.openBlockers.map(b => id(b.blocker)))];
+  if (blockers.length > 0) {
+    lines.push('  classDef openBlocker fill:#ffebe6,stroke:#de350b');
+    lines.push(`  class ${blockers.join(',')} openBlocker`);
+  }
+
+  return lines.join('\n');
+}
+
+export function toDot(graph: DependencyGraph): string {
+  const quote = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+  const blockers = new Set(graph.openBlockers.map(b => b.blocker));
+  const lines = ['digraph dependencies {', '  rankdir=LR;', '  node [shape=box];'];
+
+  for (const node of graph.nodes) {
+    const attributes = [`label=${quote(nodeLabel(node))}`];
+    if (blockers.has(node.key)) {
+      attributes.push('color=red');
+    } else if (node.statusCategory === 'done') {
+      attributes.push('color=green');
+    }
+    lines.push(`  ${quote(node.key)} [${attributes.join(', ')}];`);
+  }
+  for (const edge of graph.edges) {
+    const attributes = [`label=${quote(edge.relation)}`];
+    if (edge.kind !== 'link') attributes.push('style=dashed');
+    lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)} [${attributes.join(', ')}];`);
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
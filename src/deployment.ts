@@ -0,0 +1,81 @@
+import axios from 'axios';
+import { AuthProvider } from './auth.js';
+
+export type DeploymentType = 'cloud' | 'datacenter';
+
+/**
+ * Which kind of Jira the server talks to. Cloud uses REST v3, nextPageToken search and ADF rich text;
+ * Data Center / Server uses REST v2, startAt pagination and wiki markup.
+ * Unless configured, the type is detected from the site URL or /serverInfo on first use.
+ */
+export class Deployment {
+  private detected: DeploymentType | undefined;
+  private detecting: Promise<DeploymentType> | undefined;
+
+  constructor(private auth: AuthProvider, private configured?: DeploymentType) {}
+
+  /**
+   * Parse a JIRA_DEPLOYMENT value. "auto" and empty values leave the type to detection.
+   */
+  static parse(value: string | undefined): DeploymentType | undefined {
+    const normalized = (value || '').trim().toLowerCase();
+    if (!normalized || normalized === 'auto') return undefined;
+    if (normalized === 'cloud') return 'cloud';
+    if (['datacenter', 'data-center', 'dc', 'server'].includes(normalized)) return 'datacenter';
+    throw new Error(`Unknown Jira deployment type "${value}". Use cloud, datacenter or auto.`);
+  }
+
+  /**
+   * The deployment type, detected once and then reused
+   */
+  type(): Promise<DeploymentType> {
+    if (this.configured) return Promise.resolve(this.configured);
+    if (this.detected) return Promise.resolve(this.detected);
+    if (!this.detecting) {
+      this.detecting = this.detect()
+        .then(type => (this.detected = type))
+        .finally(() => {
+          this.detecting = undefined;
+        });
+    }
+    return this.detecting;
+  }
+
+  /**
+   * The type if it is already known, for code that cannot wait (e.g. rendering fetched fields)
+   */
+  get current(): DeploymentType | undefined {
+    return this.configured ?? this.detected;
+  }
+
+  async isCloud(): Promise<boolean> {
+    return (await this.type()) === 'cloud';
+  }
+
+  /**
+   * Path of the platform REST API for this deployment
+   */
+  async restApiPath(): Promise<string> {
+    return (await this.isCloud()) ? '/rest/api/3' : '/rest/api/2';
+  }
+
+  private async detect(): Promise<DeploymentType> {
+    // OAuth 2.0 (3LO) apps only exist on Cloud
+    if (this.auth.type === 'oauth') return 'cloud';
+
+    const baseUrl = await this.auth.apiBaseUrl();
+    if (/\.(atlassian\.net|jira\.com)$/i.test(new URL(baseUrl).hostname)) return 'cloud';
+
+    try {
+      const response = await axios.get(`${baseUrl}/rest/api/2/serverInfo`, {
+        headers: { Authorization: await this.auth.authorization(), Accept: 'application/json' },
+      });
+      return response.data?.deploymentType === 'Cloud' ? 'cloud' : 'datacenter';
+    } catch (error) {
+      throw new Error(
+        `Could not detect the Jira deployment type from ${baseUrl}/rest/api/2/serverInfo: ${(error as Error).message}. ` +
+          'Set JIRA_DEPLOYMENT to cloud or datacenter.'
+      );
+    }
+  }
+}
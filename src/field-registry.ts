@@ -0,0 +1,264 @@
+import { AxiosInstance } from 'axios';
+import { adfToMarkdown } from './adf-to-markdown.js';
+
+export interface FieldMetadata {
+  names: { [fieldId: string]: string };
+  schema: { [fieldId: string]: any };
+}
+
+export interface FieldInfo {
+  id: string;
+  name: string;
+  custom: boolean;
+  type: string; // Readable type, e.g. "option", "user", "sprint", "team", "array<user>"
+  clauseNames: string[]; // Names usable in JQL, e.g. ["cf[10010]", "Customer Tier"]
+  schema?: any;
+}
+
+export interface ScreenField {
+  id: string;
+  name: string;
+  type: string;
+  required: boolean;
+  allowedValues?: string[];
+  allowedValueIds?: { [label: string]: string }; // Allowed value label to id, for inputs that take ids
+}
+
+const SPRINT_FIELD = 'com.pyxis.greenhopper.jira:gh-sprint';
+const TEAM_FIELDS = [
+  'com.atlassian.jira.plugin.system.customfieldtypes:atlassian-team',
+  'com.atlassian.teams:rm-teams-custom-field-team',
+];
+
+/**
+ * Readable field type from a Jira field schema
+ */
+export function fieldType(schema: any): string {
+  if (!schema) return 'unknown';
+  if (schema.custom === SPRINT_FIELD) return 'sprint';
+  if (schema.type === 'team' || TEAM_FIELDS.includes(schema.custom)) return 'team';
+  if (schema.type === 'array') return `array<${schema.items}>`;
+  return schema.type;
+}
+
+/**
+ * Format a field value for reading, based on the field's schema when known.
+ * Falsy values such as 0, false and '' are kept; only null and undefined become null.
+ */
+export function formatFieldValue(value: any, schema?: any): any {
+  if (value === null || value === undefined) return null;
+
+  if (Array.isArray(value)) {
+    if (schema?.custom === SPRINT_FIELD) {
+      return value.map(sprint => (typeof sprint === 'object' ? sprint.name : sprint));
+    }
+    const itemSchema = schema?.type === 'array' ? { type: schema.items } : undefined;
+    return value.map(item => formatFieldValue(item, itemSchema));
+  }
+
+  if (typeof value !== 'object') return value;
+
+  // Rich text
+  if (value.type === 'doc') return adfToMarkdown(value);
+
+  switch (fieldType(schema)) {
+    case 'user':
+      return value.displayName ?? value.emailAddress ?? value.accountId;
+    case 'option':
+      return value.value;
+    case 'option-with-child':
+      return value.child ? `${value.value} > ${value.child.value}` : value.value;
+    case 'team':
+      return value.name ?? value.title ?? value.id;
+    case 'project':
+    case 'issuelink':
+      return value.key;
+    case 'number':
+    case 'date':
+    case 'datetime':
+    case 'string':
+      return value;
+  }
+
+  // Unknown schema: use the most readable property of the common shapes
+  if (value.value !== undefined) {
+    return value.child ? `${value.value} > ${value.child.value}` : value.value;
+  }
+  return value.name ?? value.displayName ?? value.title ?? value.key ?? value;
+}
+
+function allowedValueLabel(value: any): string {
+  return value.name ?? value.value ?? value.key ?? value.id;
+}
+
+function allowedValueIds(values: any[] | undefined): { [label: string]: string } | undefined {
+  return values?.some(value => value.id !== undefined)
+    ? Object.fromEntries(values.map(value => [allowedValueLabel(value), String(value.id)]))
+    : undefined;
+}
+
+/**
+ * Field metadata loaded once from /field, plus create and edit screen metadata
+ * Resolves field ids and display names and backs schema-based formatting.
+ */
+export class FieldRegistry {
+  private fieldsPromise: Promise<Map<string, FieldInfo>> | undefined;
+  private createMetaCache = new Map<string, Promise<ScreenField[]>>();
+
+  constructor(private client: AxiosInstance) {}
+
+  /**
+   * All system and custom fields, keyed by id. Loaded on first use; a failed load is retried next time.
+   */
+  async fields(): Promise<Map<string, FieldInfo>> {
+    if (!this.fieldsPromise) {
+      this.fieldsPromise = this.client.get('/field').then(response => {
+        const fields = new Map<string, FieldInfo>();
+        for (const field of response.data || []) {
+          fields.set(field.id, {
+            id: field.id,
+            name: field.name,
+            custom: !!field.custom,
+            type: fieldType(field.schema),
+            clauseNames: field.clauseNames || [],
+            schema: field.schema,
+          });
+        }
+        return fields;
+      });
+      this.fieldsPromise.catch(() => {
+        this.fieldsPromise = undefined;
+      });
+    }
+    return this.fieldsPromise;
+  }
+
+  async names(): Promise<{ [fieldId: string]: string }> {
+    const names: { [fieldId: string]: string } = {};
+    for (const field of (await this.fields()).values()) {
+      names[field.id] = field.name;
+    }
+    return names;
+  }
+
+  /**
+   * Names and schemas for resolving and coercing field input. Fields on the given screen
+   * come first, so a display name shared by several fields resolves to the one on the screen.
+   */
+  async metadata(screenFields: ScreenField[] = []): Promise<FieldMetadata> {
+    const fields = await this.fields();
+    const metadata: FieldMetadata = { names: {}, schema: {} };
+
+    for (const id of [...screenFields.map(f => f.id), ...fields.keys()]) {
+      if (id in metadata.names) continue;
+      const field = fields.get(id);
+      metadata.names[id] = field?.name ?? screenFields.find(f => f.id === id)!.name;
+      if (field?.schema) {
+        metadata.schema[id] = field.schema;
+      }
+    }
+
+    return metadata;
+  }
+
+  /**
+   * Fields on a project's create screen, per issue type (createmeta). Cached per project and issue type.
+   */
+  async createFields(projectKey: string, issueType: string): Promise<ScreenField[]> {
+    const cacheKey = `${projectKey.toUpperCase()}/${issueType.toLowerCase()}`;
+    if (!this.createMetaCache.has(cacheKey)) {
+      const promise = (async () => {
+        const issueTypeId = (await this.createIssueTypes(projectKey)).find(
+          type => type.name.toLowerCase() === issueType.toLowerCase() || type.id === issueType
+        )?.id;
+        if (!issueTypeId) {
+          throw new Error(`Issue type "${issueType}" is not available in project ${projectKey}`);
+        }
+
+        const fields: any[] = [];
+        let startAt = 0;
+        let isLast = false;
+        while (!isLast) {
+          const response = await this.client.get(`/issue/createmeta/${projectKey}/issuetypes/${issueTypeId}`, {
+            params: { startAt, maxResults: 100 },
+          });
+          const page = response.data.fields || response.data.values || [];
+          fields.push(...page);
+          startAt += page.length;
+          isLast = page.length === 0 || startAt >= (response.data.total ?? startAt);
+        }
+
+        return fields.map(field => ({
+          id: field.fieldId ?? field.key,
+          name: field.name,
+          type: fieldType(field.schema),
+          required: !!field.required,
+          allowedValues: field.allowedValues?.map(allowedValueLabel),
+          allowedValueIds: allowedValueIds(field.allowedValues),
+        }));
+      })();
+      promise.catch(() => this.createMetaCache.delete(cacheKey));
+      this.createMetaCache.set(cacheKey, promise);
+    }
+    return this.createMetaCache.get(cacheKey)!;
+  }
+
+  async createIssueTypes(projectKey: string): Promise<{ id: string; name: string }[]> {
+    const response = await this.client.get(`/issue/createmeta/${projectKey}/issuetypes`, {
+      params: { maxResults: 200 },
+    });
+    return (response.data.issueTypes || response.data.values || []).map((type: any) => ({ id: type.id, name: type.name }));
+  }
+
+  /**
+   * Fields editable on an existing issue (editmeta). Not cached: it depends on the issue's current state.
+   */
+  async editFields(issueKey: string): Promise<ScreenField[]> {
+    const response = await this.client.get(`/issue/${issueKey}/editmeta`);
+    return Object.entries(response.data.fields || {}).map(([id, field]: [string, any]) => ({
+      id,
+      name: field.name,
+      type: fieldType(field.schema),
+      required: !!field.required,
+      allowedValues: field.allowedValues?.map(allowedValueLabel),
+      allowedValueIds: allowedValueIds(field.allowedValues),
+    }));
+  }
+
+  /**
+   * Find fields by name, id or JQL clause name, optionally limited to a project's create screens
+   */
+  async list(options: { query?: string; projectKey?: string; issueType?: string; customOnly?: boolean } = {}): Promise<any[]> {
+    const query = options.query?.toLowerCase().trim();
+    let fields = [...(await this.fields()).values()].filter(
+      field =>
+        (!options.customOnly || field.custom) &&
+        (!query ||
+          field.name.toLowerCase().includes(query) ||
+          field.id.toLowerCase() === query ||
+          field.clauseNames.some(name => name.toLowerCase() === query))
+    );
+
+    if (!options.projectKey) {
+      return fields.map(({ schema, ...field }) => field);
+    }
+
+    // Which of the project's issue types have the field on their create screen
+    const issueTypes = options.issueType
+      ? [options.issueType]
+      : (await this.createIssueTypes(options.projectKey)).map(type => type.name);
+    const usage = new Map<string, { issueTypes: string[]; required: boolean; allowedValues?: string[] }>();
+    for (const issueType of issueTypes) {
+      for (const screenField of await this.createFields(options.projectKey, issueType)) {
+        const entry = usage.get(screenField.id) ?? { issueTypes: [], required: false };
+        entry.issueTypes.push(issueType);
+        entry.required ||= screenField.required;
+        entry.allowedValues ??= screenField.allowedValues;
+        usage.set(screenField.id, entry);
+      }
+    }
+
+    fields = fields.filter(field => usage.has(field.id));
+    return fields.map(({ schema, ...field }) => ({ ...field, ...usage.get(field.id) }));
+  }
+}
@@ -4,159 +4,363 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  CallToolResult,
   ListToolsRequestSchema,
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
-import { JiraClient } from './jira-client.js';
+import { JiraApiError, JiraClient, WorklogInput } from './jira-client.js';
+import { AgileClient, SprintState } from './agile-client.js';
+import { AliasRegistry } from './alias-registry.js';
+import { JQL_ONLY_FIELDS, parseJql, quoteJqlValue } from './jql-parser.js';
+import { CommentClassifier } from './comment-classifier.js';
+import { AnalysisTemplateRegistry } from './analysis-templates.js';
+import { buildIssueTimeline, parseBusinessHours, timelineInputFromIssue } from './issue-timeline.js';
+import { aggregateIssues } from './issue-aggregates.js';
+import { buildDependencyGraph, toDot, toMermaid } from './dependency-graph.js';
+import { keyTerms, rankSimilar, SimilarityDocument } from './similarity.js';
+import { IssueCache, syncProjectIssues } from './issue-cache.js';
+import { buildTimesheet, TimesheetIssue } from './worklogs.js';
+import { formatFieldValue } from './field-registry.js';
+import { BulkOperations, BulkSelection } from './bulk-operations.js';
+import {
+  AccessDeniedError,
+  AccessPolicy,
+  AccessTarget,
+  WRITE_TOOLS,
+  WriteTargetSources,
+  writeTargetKeys,
+} from './access-policy.js';
+import { AuditEntry, AuditLog, compactValue, restorableFields } from './audit-log.js';
+import { AuthProvider, BasicAuth, BearerTokenAuth, OAuthAuth } from './auth.js';
+import { Deployment, DeploymentType } from './deployment.js';
+import { RequestLayer } from './request-layer.js';
+import * as os from 'os';
+import * as path from 'path';
 import dotenv from 'dotenv';
 
 dotenv.config();
 
-const JIRA_URL = process.env.JIRA_URL;
-const JIRA_EMAIL = process.env.JIRA_EMAIL;
-const JIRA_API_TOKEN = process.env.JIRA_API_TOKEN;
+/**
+ * How to authenticate: basic (email + API token), pat (Data Center Personal Access Token) or oauth (OAuth 2.0 3LO)
+ * Defaults to oauth when JIRA_OAUTH_CLIENT_ID is set, pat when JIRA_PAT is set, and basic otherwise
+ */
+const JIRA_AUTH_TYPE = (
+  process.env.JIRA_AUTH_TYPE || (process.env.JIRA_OAUTH_CLIENT_ID ? 'oauth' : process.env.JIRA_PAT ? 'pat' : 'basic')
+).toLowerCase();
+
+/**
+ * Environment variables each auth type requires
+ */
+const REQUIRED_AUTH_VARIABLES: { [authType: string]: string[] } = {
+  basic: ['JIRA_URL', 'JIRA_EMAIL', 'JIRA_API_TOKEN'],
+  pat: ['JIRA_URL', 'JIRA_PAT'],
+  oauth: ['JIRA_OAUTH_CLIENT_ID', 'JIRA_OAUTH_CLIENT_SECRET', 'JIRA_OAUTH_REFRESH_TOKEN'],
+};
+
+if (!REQUIRED_AUTH_VARIABLES[JIRA_AUTH_TYPE]) {
+  console.error(`Error: JIRA_AUTH_TYPE must be one of ${Object.keys(REQUIRED_AUTH_VARIABLES).join(', ')}`);
+  process.exit(1);
+}
 
-if (!JIRA_URL || !JIRA_EMAIL || !JIRA_API_TOKEN) {
+const missingVariables = REQUIRED_AUTH_VARIABLES[JIRA_AUTH_TYPE].filter(name => !process.env[name]);
+if (missingVariables.length > 0) {
   console.error('Error: Missing required environment variables');
-  console.error('Please set JIRA_URL, JIRA_EMAIL, and JIRA_API_TOKEN');
+  console.error(`Please set ${missingVariables.join(', ')} for ${JIRA_AUTH_TYPE} authentication`);
   process.exit(1);
 }
 
-const jiraClient = new JiraClient(JIRA_URL, JIRA_EMAIL, JIRA_API_TOKEN);
-
-/**
- * Pod alias mappings for easier searching
- * Maps shorthand names to full pod names in Jira
- */
-const POD_ALIASES: { [key: string]: string } = {
-  'workflow': 'Pod 1 Workflow',
-  'pod1': 'Pod 1 Workflow',
-  'pod 1': 'Pod 1 Workflow',
-  'growth': 'Pod 2 Growth',
-  'pod2': 'Pod 2 Growth',
-  'pod 2': 'Pod 2 Growth',
-  'platform': 'Platform Pod',
-  'siteops': 'Pod SiteOps',
-  'site ops': 'Pod SiteOps',
-  'ai': 'AI Pod',
-  'ds': 'DS Pod',
-  'design': 'DS Pod',
-  'scale': 'Scale Pod',
-};
+function createAuthProvider(): AuthProvider {
+  const env = process.env;
+  switch (JIRA_AUTH_TYPE) {
+    case 'oauth':
+      return new OAuthAuth({
+        clientId: env.JIRA_OAUTH_CLIENT_ID!,
+        clientSecret: env.JIRA_OAUTH_CLIENT_SECRET!,
+        refreshToken: env.JIRA_OAUTH_REFRESH_TOKEN!,
+        accessToken: env.JIRA_OAUTH_ACCESS_TOKEN,
+        cloudId: env.JIRA_CLOUD_ID,
+        siteUrl: env.JIRA_URL,
+        tokenFile: env.JIRA_OAUTH_TOKEN_FILE,
+        tokenUrl: env.JIRA_OAUTH_TOKEN_URL,
+        apiUrl: env.JIRA_OAUTH_API_URL,
+      });
+    case 'pat':
+      return new BearerTokenAuth(env.JIRA_URL!, env.JIRA_PAT!);
+    default:
+      return new BasicAuth(env.JIRA_URL!, env.JIRA_EMAIL!, env.JIRA_API_TOKEN!);
+  }
+}
+
+const auth = createAuthProvider();
+
+/**
+ * Jira deployment type from JIRA_DEPLOYMENT: cloud, datacenter (also for Server) or auto
+ * Auto (the default) detects the type from the site URL or /serverInfo on the first request
+ */
+let deploymentType: DeploymentType | undefined;
+try {
+  deploymentType = Deployment.parse(process.env.JIRA_DEPLOYMENT);
+} catch (error) {
+  console.error(`Error: ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+}
+if (deploymentType === 'datacenter' && JIRA_AUTH_TYPE === 'oauth') {
+  console.error('Error: OAuth 2.0 (3LO) is only available on Jira Cloud; use basic or pat authentication for Data Center');
+  process.exit(1);
+}
+const deployment = new Deployment(auth, deploymentType);
+
+/**
+ * Configured credentials, redacted wherever they would be logged
+ */
+const CREDENTIALS = [
+  process.env.JIRA_API_TOKEN,
+  process.env.JIRA_PAT,
+  process.env.JIRA_OAUTH_CLIENT_SECRET,
+  process.env.JIRA_OAUTH_REFRESH_TOKEN,
+  process.env.JIRA_OAUTH_ACCESS_TOKEN,
+].filter((value): value is string => !!value);
+
+/**
+ * Parse an optional numeric environment variable
+ */
+function numberFromEnv(name: string): number | undefined {
+  const value = process.env[name];
+  if (value === undefined || value === '') return undefined;
+  const parsed = Number(value);
+  if (isNaN(parsed)) {
+    console.error(`Error: ${name} must be a number`);
+    process.exit(1);
+  }
+  return parsed;
+}
+
+/**
+ * Parse an optional comma-separated environment variable
+ */
+function listFromEnv(name: string): string[] | undefined {
+  const value = process.env[name];
+  if (value === undefined || value.trim() === '') return undefined;
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Load the configuration file named by an environment variable
+ * A missing or invalid file stops the server with the variable and path in the message.
+ */
+function loadConfigFile<T>(name: string, load: (configPath: string | undefined) => T): T {
+  const configPath = process.env[name];
+  try {
+    return load(configPath);
+  } catch (error) {
+    const source = configPath ? `${name} file ${configPath}` : `built-in defaults for ${name}`;
+    console.error(`Error: Could not load ${source}: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Concurrency limit, retries and timeouts shared by every Jira client in the process
+ */
+const requestLayer = new RequestLayer({
+  maxConcurrency: numberFromEnv('JIRA_MAX_CONCURRENCY'),
+  maxRetries: numberFromEnv('JIRA_MAX_RETRIES'),
+  timeoutMs: numberFromEnv('JIRA_TIMEOUT_MS'),
+});
+
+const jiraClient = new JiraClient(auth, requestLayer, deployment);
+const agileClient = new AgileClient(auth, requestLayer);
+const bulkOperations = new BulkOperations(jiraClient, requestLayer.maxConcurrency);
+
+/**
+ * Which tools may be called and which projects and issue types write tools may change
+ * Loaded from JIRA_ACCESS_POLICY_FILE (JSON or YAML); JIRA_READ_ONLY, JIRA_ALLOWED_TOOLS,
+ * JIRA_ALLOWED_PROJECTS and JIRA_ALLOWED_ISSUE_TYPES override the file
+ */
+const accessPolicy = loadConfigFile('JIRA_ACCESS_POLICY_FILE', configPath =>
+  AccessPolicy.load(configPath, {
+    readOnly: process.env.JIRA_READ_ONLY ? ['true', '1', 'yes'].includes(process.env.JIRA_READ_ONLY.toLowerCase()) : undefined,
+    tools: listFromEnv('JIRA_ALLOWED_TOOLS'),
+    projects: listFromEnv('JIRA_ALLOWED_PROJECTS'),
+    issueTypes: listFromEnv('JIRA_ALLOWED_ISSUE_TYPES'),
+  })
+);
+
+/**
+ * Append-only JSONL log of every write made through this server
+ * Written to JIRA_AUDIT_LOG, defaulting to ~/.jira-analysis-mcp/audit.jsonl; credentials are redacted wherever they appear
+ */
+const auditLog = new AuditLog(
+  process.env.JIRA_AUDIT_LOG || path.join(os.homedir(), '.jira-analysis-mcp', 'audit.jsonl'),
+  CREDENTIALS
+);
+
+/**
+ * Field value aliases (pods, teams, components, ...) for easier searching
+ * Loaded from JIRA_ALIASES_FILE (JSON or YAML), defaulting to the built-in pod aliases
+ */
+const aliasRegistry = loadConfigFile('JIRA_ALIASES_FILE', configPath => AliasRegistry.load(configPath));
 
 /**
- * Expand pod aliases in JQL query
- * Converts shorthand pod names to full Jira pod names
+ * Expand pod (and other field) aliases in JQL query
+ * Converts shorthand values to the full values stored in Jira
  */
 function expandPodAliases(jql: string): string {
-  let expandedJql = jql;
-  
-  // Match patterns like: pod = "workflow" or Pod = "growth" (case insensitive)
-  const podPattern = /Pod\s*=\s*["']([^"']+)["']/gi;
-  
-  expandedJql = expandedJql.replace(podPattern, (match, podName) => {
-    const normalizedPod = podName.toLowerCase().trim();
-    const fullPodName = POD_ALIASES[normalizedPod];
-    
-    if (fullPodName) {
-      return `Pod = "${fullPodName}"`;
+  return aliasRegistry.expand(jql);
+}
+
+/**
+ * Validate a JQL query before running it
+ * Reports local syntax errors and unknown fields, plus Jira's own parse result when available
+ */
+async function validateJql(jql: string, checkWithJira: boolean = true): Promise<any> {
+  const expandedJql = expandPodAliases(jql);
+  const parsed = parseJql(expandedJql);
+
+  const result: any = {
+    valid: parsed.errors.length === 0,
+    expandedJql,
+    errors: parsed.errors,
+    unknownFields: [],
+  };
+
+  if (parsed.errors.length === 0) {
+    try {
+      const knownFields = new Set<string>(JQL_ONLY_FIELDS);
+      for (const field of await jiraClient.getFields()) {
+        knownFields.add(String(field.id).toLowerCase());
+        knownFields.add(String(field.name).toLowerCase());
+        for (const clauseName of field.clauseNames || []) {
+          knownFields.add(String(clauseName).toLowerCase());
+        }
+      }
+
+      const referencedFields = [
+        ...parsed.clauses.map(c => c.field),
+        ...parsed.orderBy.map(o => o.field),
+      ];
+      result.unknownFields = Array.from(new Set(referencedFields)).filter(
+        field => !knownFields.has(field.toLowerCase()) && !/^cf\[\d+\]$/i.test(field)
+      );
+      if (result.unknownFields.length > 0) {
+        result.valid = false;
+      }
+    } catch (error) {
+      result.fieldCheck = `Skipped: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+
+  if (checkWithJira) {
+    try {
+      const jiraResult = await jiraClient.parseJqlQuery(expandedJql);
+      result.jira = { errors: jiraResult?.errors || [] };
+      if (result.jira.errors.length > 0) {
+        result.valid = false;
+      } else if (result.unknownFields.length > 0 && parsed.errors.length === 0) {
+        // Jira knows more fields than /field lists; its own parse has the final word
+        result.valid = true;
+        result.warnings = [`Fields not found in the field list, but accepted by Jira: ${result.unknownFields.join(', ')}`];
+      }
+    } catch (error) {
+      result.jira = { unavailable: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Comment classification rules (human / bot / automation)
+ * Loaded from JIRA_COMMENT_RULES_FILE (JSON or YAML), defaulting to the built-in rules
+ */
+const commentClassifier = loadConfigFile('JIRA_COMMENT_RULES_FILE', configPath => CommentClassifier.load(configPath));
+
+/**
+ * Working hours used for business-hour metrics in issue timelines
+ */
+const businessHours = parseBusinessHours(
+  process.env.JIRA_BUSINESS_HOURS,
+  process.env.JIRA_BUSINESS_DAYS,
+  process.env.JIRA_UTC_OFFSET
+);
+
+/**
+ * Analysis templates for analyze_ticket
+ * Loaded from JIRA_ANALYSIS_TEMPLATES_FILE (JSON or YAML) on top of the built-in templates
+ */
+const analysisTemplates = loadConfigFile('JIRA_ANALYSIS_TEMPLATES_FILE', configPath =>
+  AnalysisTemplateRegistry.load(configPath)
+);
+
+/**
+ * Optional on-disk issue cache, enabled by JIRA_CACHE_DIR
+ * Entries younger than JIRA_CACHE_MAX_AGE_MINUTES (default 60) are served without asking Jira
+ */
+const issueCache = process.env.JIRA_CACHE_DIR
+  ? new IssueCache(process.env.JIRA_CACHE_DIR, numberFromEnv('JIRA_CACHE_MAX_AGE_MINUTES'))
+  : undefined;
+
+/**
+ * Comprehensive issue data, served from the cache when possible
+ * Fresh entries are returned as is; older ones are revalidated against Jira's updated timestamp,
+ * which is a single-field request. A maxAgeMinutes of 0 always refetches.
+ */
+async function getIssueData(issueKey: string, options: { maxAgeMinutes?: number; updated?: string } = {}): Promise<any> {
+  // Property-based comment rules need comments fetched with their properties
+  const commentProperties = commentClassifier.usesProperties();
+  if (!issueCache) {
+    return jiraClient.getComprehensiveIssue(issueKey, { commentProperties });
+  }
+
+  const maxAgeMinutes = options.maxAgeMinutes ?? issueCache.maxAgeMinutes;
+  const cached = maxAgeMinutes > 0 ? issueCache.get(issueKey) : undefined;
+  // Copies cached before property rules were configured lack the properties
+  const entry =
+    cached && (!commentProperties || (cached.data.comments || []).every((c: any) => c.properties)) ? cached : undefined;
+  if (entry) {
+    if (options.updated !== undefined) {
+      // The caller already knows the current timestamp, e.g. from a search
+      if (entry.updated === options.updated) return entry.data;
+    } else if (issueCache.isFresh(entry, maxAgeMinutes)) {
+      return entry.data;
+    } else {
+      const issue = await jiraClient.getIssue(issueKey, ['updated']);
+      if (issue.fields.updated === entry.updated) {
+        issueCache.touch(entry);
+        return entry.data;
+      }
     }
-    return match; // Return original if no alias found
+  }
+
+  const data = await jiraClient.getComprehensiveIssue(issueKey, { commentProperties });
+  issueCache.put(data);
+  return data;
+}
+
+/**
+ * Pull a project's changed issues into the cache, see syncProjectIssues
+ */
+async function syncProject(projectKey: string, full: boolean = false): Promise<any> {
+  if (!issueCache) {
+    throw new Error('The issue cache is disabled. Set JIRA_CACHE_DIR to enable it.');
+  }
+  return syncProjectIssues(issueCache, jiraClient, projectKey, {
+    full,
+    commentProperties: commentClassifier.usesProperties(),
   });
-  
-  return expandedJql;
 }
 
 /**
  * Generate structured ticket analysis
- * Filters out AI-assisted comments and focuses on key information
+ * Uses the explicitly named template, or the one selected by issue type or project
  */
-function generateTicketAnalysis(ticketData: any): any {
+function generateTicketAnalysis(ticketData: any, templateName?: string): any {
   try {
-    // Ensure comments is an array
-    const allComments = Array.isArray(ticketData.comments) ? ticketData.comments : [];
-    
-    // Filter out AI-assisted comments (AI-generated investigation comments)
-    const humanComments = allComments.filter((c: any) => {
-      if (!c) return false;
-      const isAIComment = 
-        (c.author && String(c.author).toLowerCase().includes('yash jhunjhunwala')) ||
-        (c.body && (
-          String(c.body).includes('🤖 AI-Assisted Investigation') ||
-          String(c.body).includes('Claude Code') ||
-          String(c.body).includes('This investigation was conducted by')
-        ));
-      return !isAIComment;
-    });
-
-    // Extract key custom fields
-    const customFields = ticketData.customFields || {};
-    const probableCause = customFields['Probable Cause'] || 'Not documented';
-    const rootCause = customFields['Root Cause'] || 'Not documented';
-    const resolutionType = customFields['Resolution Type'] || 'Not documented';
-    const isRegression = customFields['Regression?'] || 'Not documented';
-    const pod = customFields['Pod'] || [];
-    const orgName = customFields['Org Name'] || 'Not specified';
-    const customerTier = customFields['Customer Tier'] || 'Not specified';
-    const platform = customFields['Platform'] || 'Not specified';
-    const sections = customFields['Sections from Sprinto App'] || 'Not specified';
+    const template = analysisTemplates.select(ticketData, templateName);
 
     return {
-      ticketInfo: {
-        issueKey: ticketData.issueKey,
-        summary: ticketData.summary,
-        issueType: ticketData.issueType,
-        priority: ticketData.priority,
-        status: ticketData.status,
-        pod: Array.isArray(pod) ? pod : [pod],
-        created: ticketData.created,
-        resolved: ticketData.resolutionDate,
-        dueDate: ticketData.dueDate,
-      },
-      
-      customerContext: {
-        organization: orgName,
-        tier: customerTier,
-        platform: platform,
-        affectedSection: sections,
-      },
-
-      whatCustomerSaw: {
-        description: ticketData.description || 'No description provided',
-        reportedBy: ticketData.reporter?.name || 'Unknown',
-        attachments: (ticketData.attachments || []).map((a: any) => ({
-          filename: a.filename,
-          uploadedBy: a.author,
-          date: a.created,
-        })),
-      },
-
-      howItHappened: {
-        probableCause: probableCause,
-        rootCause: rootCause,
-        isRegression: isRegression,
-      },
-
-    howItWasFixed: {
-      resolutionType: resolutionType,
-      assignedTo: ticketData.assignee?.name || 'Unassigned',
-      currentStatus: ticketData.status,
-    },
-
-      timeline: {
-        created: ticketData.created,
-        updated: ticketData.updated,
-        resolved: ticketData.resolutionDate,
-        timeToResolution: ticketData.resolutionDate 
-          ? Math.floor((new Date(ticketData.resolutionDate).getTime() - new Date(ticketData.created).getTime()) / (1000 * 60 * 60 * 24)) + ' days'
-          : 'Not resolved yet',
-      },
-
-      additionalInfo: {
-        totalAttachments: (ticketData.attachments || []).length,
-        developmentStartDate: customFields['Development Start Date'] || null,
-        releaseDate: customFields['Release date'] || null,
-      },
+      template: template.name,
+      ...analysisTemplates.render(template, ticketData, { commentClassifier, businessHours }),
     };
   } catch (error) {
     return {
@@ -167,6 +371,520 @@ function generateTicketAnalysis(ticketData: any): any {
   }
 }
 
+/**
+ * Whether a comment is part of the human discussion
+ */
+function isHumanComment(comment: any): boolean {
+  return commentClassifier.classify(comment).tag === 'human';
+}
+
+/**
+ * Analyze every issue matching a JQL query and aggregate the results
+ * Aliases are expanded; issues that fail to load are reported instead of failing the whole run
+ */
+async function analyzeIssues(
+  jql: string,
+  options: {
+    maxResults?: number;
+    template?: string;
+    groupBy?: string[];
+    includeTickets?: boolean;
+    maxCacheAgeMinutes?: number;
+  }
+): Promise<any> {
+  const expandedJql = expandPodAliases(jql);
+  const search = await jiraClient.searchIssues(expandedJql, options.maxResults ?? 100, { fields: ['summary', 'updated'] });
+
+  // Concurrency is bounded by the client's request layer
+  const results = await Promise.all(
+    search.issues.map(async (issue: any) => {
+      const issueKey: string = issue.key;
+      try {
+        // The search already tells whether a cached copy is current
+        const ticketData = await getIssueData(issueKey, {
+          maxAgeMinutes: options.maxCacheAgeMinutes,
+          updated: issue.fields.updated,
+        });
+        const timeline = buildIssueTimeline(timelineInputFromIssue(ticketData, isHumanComment), businessHours);
+        return {
+          input: { ticketData, timeline },
+          analysis: options.includeTickets ? generateTicketAnalysis(ticketData, options.template) : undefined,
+        };
+      } catch (error) {
+        return { failure: { issueKey, error: error instanceof Error ? error.message : String(error) } };
+      }
+    })
+  );
+
+  const inputs = results.flatMap(r => (r.input ? [r.input] : []));
+  const failures = results.flatMap(r => (r.failure ? [r.failure] : []));
+
+  return {
+    jql: expandedJql,
+    analyzed: inputs.length,
+    // More issues match than were analyzed; raise maxResults or narrow the query
+    isLast: search.isLast,
+    ...aggregateIssues(inputs, { groupBy: options.groupBy }),
+    ...(failures.length > 0 ? { failures } : {}),
+    ...(options.includeTickets ? { tickets: results.flatMap(r => (r.analysis ? [r.analysis] : [])) } : {}),
+  };
+}
+
+/**
+ * Find issues similar to an existing issue or a free-text description
+ * Candidates come from a JQL text search on the query's key terms and are ranked locally with BM25
+ */
+async function findSimilarIssues(options: {
+  issueKey?: string;
+  text?: string;
+  jql?: string;
+  maxCandidates?: number;
+  top?: number;
+}): Promise<any> {
+  const humanCommentText = (comments: any[]) =>
+    (comments || []).filter(isHumanComment).map((c: any) => c.body).join('\n');
+
+  let query: SimilarityDocument;
+  if (options.issueKey) {
+    const ticketData = await getIssueData(options.issueKey);
+    query = {
+      key: ticketData.issueKey,
+      fields: {
+        summary: ticketData.summary || '',
+        description: ticketData.description || '',
+        comments: humanCommentText(ticketData.comments),
+      },
+    };
+  } else if (options.text) {
+    query = { key: '(text)', fields: { text: options.text } };
+  } else {
+    throw new Error('Either issueKey or text is required');
+  }
+
+  const terms = keyTerms(query);
+  if (terms.length === 0) {
+    throw new Error('No searchable terms found in the issue or text');
+  }
+
+  const clauses = [`(${terms.map(term => `text ~ "${term}"`).join(' OR ')})`];
+  if (options.issueKey) clauses.push(`key != ${query.key}`);
+  if (options.jql) clauses.push(`(${expandPodAliases(options.jql)})`);
+  const candidateJql = `${clauses.join(' AND ')} ORDER BY created DESC`;
+
+  const candidates = await jiraClient.searchIssueTexts(candidateJql, options.maxCandidates ?? 100);
+  if (commentClassifier.usesProperties()) {
+    // Search results carry no comment properties; fetch them so property rules can drop bot comments
+    await Promise.all(
+      candidates.map(async candidate => {
+        candidate.comments = await jiraClient.getComments(candidate.issueKey, true);
+      })
+    );
+  }
+  const matches = rankSimilar(
+    query,
+    candidates.map(candidate => ({
+      key: candidate.issueKey,
+      fields: {
+        summary: candidate.summary || '',
+        description: candidate.description || '',
+        comments: humanCommentText(candidate.comments),
+      },
+    })),
+    { top: options.top ?? 10 }
+  );
+
+  const byKey = new Map(candidates.map(candidate => [candidate.issueKey, candidate]));
+  return {
+    query: options.issueKey ? { issueKey: query.key } : { text: options.text },
+    keyTerms: terms,
+    candidateJql,
+    candidatesScanned: candidates.length,
+    results: matches.map(({ key, ...match }) => {
+      const candidate = byKey.get(key);
+      return {
+        issueKey: key,
+        summary: candidate?.summary,
+        status: candidate?.status,
+        resolution: candidate?.resolution,
+        created: candidate?.created,
+        ...match,
+      };
+    }),
+  };
+}
+
+/**
+ * Aggregate time logged between two dates (inclusive, in the team's UTC offset)
+ * Issues are found with worklogDate JQL; their worklogs are then filtered to the range and users.
+ */
+async function buildTimesheetReport(
+  from: string,
+  to: string,
+  options: { jql?: string; users?: string[]; podField?: string }
+): Promise<any> {
+  for (const date of [from, to]) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      throw new Error(`Invalid date "${date}". Use YYYY-MM-DD`);
+    }
+  }
+  const offset = businessHours.utcOffsetMinutes * 60 * 1000;
+  const rangeStart = new Date(Date.parse(`${from}T00:00:00Z`) - offset);
+  const rangeEnd = new Date(Date.parse(`${to}T00:00:00Z`) + 24 * 60 * 60 * 1000 - offset);
+
+  let jql = `worklogDate >= "${from}" AND worklogDate <= "${to}"`;
+  if (options.users?.length) {
+    jql += ` AND worklogAuthor in (${options.users.map(quoteJqlValue).join(', ')})`;
+  }
+  if (options.jql) {
+    jql += ` AND (${expandPodAliases(options.jql)})`;
+  }
+
+  // The pod field is optional; sites without it group everything under "(not set)"
+  const podField = (await jiraClient.getFields()).find(
+    field => field.name.toLowerCase() === (options.podField || 'Pod').toLowerCase()
+  );
+  const search = await jiraClient.searchIssues(jql, 1000, {
+    fields: ['summary', 'timeoriginalestimate', 'timespent', ...(podField ? [podField.id] : [])],
+  });
+
+  const issues: TimesheetIssue[] = search.issues.map((issue: any) => {
+    // Multi-select pod fields format to a list of values
+    const pod = podField ? formatFieldValue(issue.fields[podField.id], podField.schema) : null;
+    return {
+      issueKey: issue.key,
+      summary: issue.fields.summary,
+      pods: (Array.isArray(pod) ? pod : [pod]).filter(value => value !== null && value !== '').map(String),
+      originalEstimateSeconds: issue.fields.timeoriginalestimate,
+      timeSpentSeconds: issue.fields.timespent,
+    };
+  });
+
+  const users = options.users?.map(user => user.toLowerCase());
+  const worklogs = (
+    await Promise.all(
+      issues.map(issue => jiraClient.getWorklogs(issue.issueKey, { startedAfter: rangeStart, startedBefore: rangeEnd }))
+    )
+  )
+    .flat()
+    .filter(worklog => {
+      const started = new Date(worklog.started);
+      return (
+        started >= rangeStart &&
+        started < rangeEnd &&
+        (!users ||
+          users.includes(String(worklog.authorAccountId).toLowerCase()) ||
+          users.includes(String(worklog.authorName).toLowerCase()) ||
+          users.includes(String(worklog.author).toLowerCase()))
+      );
+    })
+    .map(worklog => ({ ...worklog, authorId: worklog.authorAccountId ?? worklog.authorName ?? worklog.author }));
+
+  return {
+    from,
+    to,
+    jql,
+    issues: issues.length,
+    ...(search.isLast ? {} : { limitedTo: issues.length }),
+    ...buildTimesheet(worklogs, issues),
+  };
+}
+
+/**
+ * Issues selected by a bulk tool, by JQL (aliases expanded) or by key
+ */
+function bulkSelection(args: any): BulkSelection {
+  return {
+    jql: args.jql ? expandPodAliases(args.jql as string) : undefined,
+    issueKeys: args.issueKeys as string[] | undefined,
+  };
+}
+
+/**
+ * Sprint to operate on: the given sprint id, or the board's active sprint
+ */
+async function resolveSprintId(sprintId?: number, boardId?: number): Promise<number> {
+  if (sprintId !== undefined) return sprintId;
+  if (boardId === undefined) {
+    throw new Error('Either sprintId or boardId is required');
+  }
+  return (await agileClient.getActiveSprint(boardId)).id;
+}
+
+/**
+ * Where write tools find the issues they target: links, pending bulk plans and the audit log
+ */
+const writeTargetSources: WriteTargetSources = {
+  getIssueLink: linkId => jiraClient.getIssueLink(linkId),
+  pendingIssueKeys: token => bulkOperations.pendingPlan(token)?.issueKeys,
+  lastUndoableIssueKeys: issueKey => auditLog.lastUndoable(issueKey)?.issueKeys,
+};
+
+/**
+ * Refuse the call unless the access policy allows the tool and, for writes, every target issue
+ * Target projects and issue types are looked up in Jira; issues that cannot be found are refused.
+ */
+async function enforceAccessPolicy(name: string, args: any): Promise<void> {
+  accessPolicy.checkTool(name);
+  if (!WRITE_TOOLS.has(name) || !accessPolicy.scoped) return;
+
+  if (name === 'create_issue') {
+    accessPolicy.checkTargets(name, [{ project: args.project, issueType: args.issueType }]);
+    return;
+  }
+
+  const issueKeys = await writeTargetKeys(name, args, writeTargetSources);
+  if (issueKeys.length === 0) return;
+
+  const result = await jiraClient.searchIssues(`key in (${issueKeys.join(', ')})`, issueKeys.length, {
+    fields: ['project', 'issuetype'],
+  });
+  const found = new Map<string, AccessTarget>(
+    result.issues.map((issue: any) => [
+      issue.key,
+      { issueKey: issue.key, project: issue.fields.project?.key, issueType: issue.fields.issuetype?.name },
+    ])
+  );
+  accessPolicy.checkTargets(
+    name,
+    issueKeys.map(key => found.get(key) ?? { issueKey: key })
+  );
+}
+
+/**
+ * Whether a call changes Jira and is written to the audit log. Bulk previews change nothing.
+ */
+function isAuditedCall(name: string, args: any): boolean {
+  return WRITE_TOOLS.has(name) && !(name.startsWith('bulk_') && !args.confirmationToken);
+}
+
+/**
+ * Fields recorded before and after a write, by tool
+ * Must be called before the write: applying a bulk plan consumes its token.
+ */
+function auditedFields(name: string, args: any): string[] {
+  switch (name) {
+    case 'update_issue':
+      return [
+        ...(args.summary ? ['summary'] : []),
+        ...(args.description ? ['description'] : []),
+        ...Object.keys(args.fields || {}),
+      ];
+    case 'bulk_update':
+      return Object.keys(bulkOperations.pendingPlan(args.confirmationToken)?.spec.fields || {});
+    case 'transition_issue':
+      return [...new Set(['status', 'resolution', ...Object.keys(args.fields || {})])];
+    case 'bulk_transition':
+      return [...new Set(['status', 'resolution', ...Object.keys(bulkOperations.pendingPlan(args.confirmationToken)?.spec.fields || {})])];
+    case 'move_issues_to_sprint':
+      return ['Sprint'];
+    case 'link_issues':
+    case 'unlink_issues':
+      return ['issuelinks'];
+    case 'undo_last_change': {
+      const undoable = auditLog.lastUndoable(args.issueKey);
+      return undoable
+        ? [...new Set(undoable.issueKeys.flatMap(key => Object.keys(restorableFields(undoable.entry, key))))]
+        : [];
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * Current raw values of the given fields, keyed by issue key and field id
+ */
+async function snapshotFields(issueKeys: string[], fields: string[]): Promise<AuditEntry['before']> {
+  if (issueKeys.length === 0 || fields.length === 0) return undefined;
+  const result = await jiraClient.searchIssues(`key in (${issueKeys.join(', ')})`, issueKeys.length, { fields });
+  return Object.fromEntries(result.issues.map((issue: any) => [issue.key, compactValue(issue.fields)]));
+}
+
+/**
+ * Run a write and record it in the audit log, with field values fetched before and after the call
+ * Snapshots are best effort: a failed snapshot is noted in the entry and never blocks the write.
+ */
+async function auditedCall(name: string, args: any): Promise<CallToolResult> {
+  const timestamp = new Date().toISOString();
+  let issueKeys: string[] = [];
+  let fields: string[] = [];
+  let before: AuditEntry['before'];
+  let after: AuditEntry['after'];
+  const snapshotErrors: string[] = [];
+
+  try {
+    issueKeys = await writeTargetKeys(name, args, writeTargetSources);
+    fields = auditedFields(name, args);
+    if (name === 'delete_comment') {
+      // Keep the text of the deleted comment
+      const comment = (await jiraClient.getComments(args.issueKey)).find(c => c.id === String(args.commentId));
+      before = comment ? { [issueKeys[0]]: { comment } } : undefined;
+    } else {
+      before = await snapshotFields(issueKeys, fields);
+    }
+  } catch (error) {
+    snapshotErrors.push(`before: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const response = await callTool(name, args);
+  // Cached copies of the written issues are stale now, even when the call failed part way
+  for (const key of issueKeys) {
+    issueCache?.delete(key);
+  }
+  const text = response.content[0]?.type === 'text' ? response.content[0].text : '';
+  let result: any;
+  try {
+    result = JSON.parse(text);
+  } catch {
+    result = text;
+  }
+
+  if (!response.isError) {
+    if (name === 'create_issue' && result?.key) {
+      issueKeys = [result.key];
+    }
+    try {
+      after = await snapshotFields(issueKeys, fields);
+    } catch (error) {
+      snapshotErrors.push(`after: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  try {
+    auditLog.append({
+      timestamp,
+      tool: name,
+      arguments: args,
+      issueKeys,
+      before,
+      after,
+      ...(snapshotErrors.length > 0 ? { snapshotError: snapshotErrors.join('; ') } : {}),
+      success: !response.isError,
+      ...(response.isError ? { error: text } : { result }),
+    });
+  } catch (error) {
+    console.error(`Failed to write audit log ${auditLog.filePath}:`, error);
+  }
+
+  return response;
+}
+
+/**
+ * Audit log entries, newest first, with recorded values shown in readable form
+ */
+function getAuditLog(query: { issueKey?: string; tool?: string; since?: string; until?: string; limit?: number }): any {
+  const parseDate = (value: string | undefined, name: string) => {
+    if (!value) return undefined;
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new Error(`${name} must be a date or date-time, e.g. 2024-05-01 or 2024-05-01T09:00:00Z`);
+    }
+    return date;
+  };
+  const readable = (values: AuditEntry['before']) =>
+    values &&
+    Object.fromEntries(
+      Object.entries(values).map(([key, fields]) => [
+        key,
+        Object.fromEntries(Object.entries(fields).map(([field, value]) => [field, formatFieldValue(value)])),
+      ])
+    );
+
+  const entries = auditLog.query({
+    issueKey: query.issueKey,
+    tool: query.tool,
+    since: parseDate(query.since, 'since'),
+    until: parseDate(query.until, 'until'),
+    limit: query.limit,
+  });
+  return {
+    file: auditLog.filePath,
+    count: entries.length,
+    entries: entries.map(entry => ({ ...entry, before: readable(entry.before), after: readable(entry.after) })),
+  };
+}
+
+/**
+ * Revert the most recent update_issue or bulk_update change (optionally for one issue) by writing
+ * the recorded before values back. Issues changed again since are skipped unless force is set.
+ * Fields whose recorded values held secrets were redacted in the log and are left alone.
+ */
+async function undoLastChange(issueKey?: string, force: boolean = false): Promise<any> {
+  const undoable = auditLog.lastUndoable(issueKey);
+  if (!undoable) {
+    throw new Error(
+      `No change to undo${issueKey ? ` for ${issueKey}` : ''}. Only field changes made with update_issue or bulk_update can be undone.`
+    );
+  }
+
+  const { entry, issueKeys } = undoable;
+  const fields = [...new Set(issueKeys.flatMap(key => Object.keys(restorableFields(entry, key))))];
+  const current = (await snapshotFields(issueKeys, fields)) || {};
+
+  const restored: string[] = [];
+  const conflicts: { issueKey: string; changedSince: string[] }[] = [];
+  const failed: { issueKey: string; error: string }[] = [];
+  const redacted = issueKeys
+    .filter(key => entry.redactedFields?.[key]?.length)
+    .map(key => ({ issueKey: key, fields: entry.redactedFields![key] }));
+
+  for (const key of issueKeys) {
+    const previous = restorableFields(entry, key);
+    const changedSince = Object.keys(previous).filter(
+      field => JSON.stringify(current[key]?.[field] ?? null) !== JSON.stringify(entry.after?.[key]?.[field] ?? null)
+    );
+    if (changedSince.length > 0 && !force) {
+      conflicts.push({ issueKey: key, changedSince });
+      continue;
+    }
+
+    try {
+      // Recorded values are raw Jira values; coercing them again would re-convert rich text
+      await jiraClient.updateIssue(key, { rawFields: previous });
+      restored.push(key);
+    } catch (error) {
+      failed.push({ issueKey: key, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  if (restored.length === 0) {
+    const reasons = [
+      ...conflicts.map(c => `${c.issueKey} was changed again since (${c.changedSince.join(', ')})`),
+      ...failed.map(f => `${f.issueKey}: ${f.error}`),
+    ];
+    throw new Error(
+      `Nothing was restored. ${reasons.join('; ')}.${conflicts.length > 0 ? ' Pass force: true to overwrite the newer values.' : ''}`
+    );
+  }
+
+  return {
+    undone: entry.id,
+    tool: entry.tool,
+    changedAt: entry.timestamp,
+    restored,
+    ...(conflicts.length > 0 ? { conflicts } : {}),
+    ...(failed.length > 0 ? { failed } : {}),
+    ...(redacted.length > 0
+      ? { notRestored: { reason: 'The recorded values held credentials and were redacted', issues: redacted } }
+      : {}),
+    message: `Restored ${fields.join(', ')} on ${restored.join(', ')}`,
+  };
+}
+
+/**
+ * Render an error for a tool result
+ * Jira API errors include the failing request and field-level details so the assistant can fix its call
+ */
+function formatToolError(error: unknown): string {
+  if (error instanceof AccessDeniedError) {
+    return `Refused: ${error.message}`;
+  }
+  if (error instanceof JiraApiError) {
+    return `Error: ${error.message}\n\nDetails:\n${JSON.stringify(error.toJSON(), null, 2)}`;
+  }
+  return `Error: ${error instanceof Error ? error.message : String(error)}`;
+}
+
 const server = new Server(
   {
     name: 'jira-mcp-server',
@@ -203,34 +921,162 @@ const tools: Tool[] = [
   },
   {
     name: 'search_issues',
-    description: 'Search for Jira issues using JQL (Jira Query Language). Supports pod aliases: use "workflow" for Pod 1 Workflow, "growth" for Pod 2 Growth, "platform" for Platform Pod, "siteops" for Pod SiteOps, "ai" for AI Pod, "ds" for DS Pod, "scale" for Scale Pod.',
+    description: 'Search for Jira issues using JQL (Jira Query Language). Supports field value aliases (e.g., Pod = "workflow") with =, !=, IN and NOT IN; use list_aliases to see the available shorthand.',
     inputSchema: {
       type: 'object',
       properties: {
         jql: {
           type: 'string',
-          description: 'JQL query string (e.g., "project = PROJ AND status = Open" or "Pod = \'workflow\' AND created >= 2025-12-01"). Pod aliases supported: workflow, growth, platform, siteops, ai, ds, scale.',
+          description: 'JQL query string (e.g., "project = PROJ AND status = Open" or "Pod IN (workflow, growth) AND created >= 2025-12-01"). Aliases from list_aliases are expanded.',
         },
         maxResults: {
           type: 'number',
-          description: 'Maximum number of results to return (default: 50)',
+          description: 'Maximum number of results to return in this call (default: 50, capped at 1000). Use nextPageToken to continue.',
+        },
+        fields: {
+          type: 'array',
+          items: {
+            type: 'string',
+          },
+          description: 'Fields to return, by id or display name (e.g., ["summary", "priority", "labels", "Pod", "Customer Tier"]). Supports "*all" and "*navigable". Defaults to summary, status, assignee, reporter, created, updated and issue type.',
+        },
+        expand: {
+          type: 'string',
+          description: 'Comma-separated expand options (e.g., "changelog", "renderedFields")',
+        },
+        compact: {
+          type: 'boolean',
+          description: 'Return flattened rows keyed by field display name instead of raw Jira JSON (default: false)',
+        },
+        nextPageToken: {
+          type: 'string',
+          description: 'Cursor returned by a previous search_issues call (when isLast is false) to fetch the next batch of results',
+        },
+        countOnly: {
+          type: 'boolean',
+          description: 'Only return an approximate count of matching issues, without fetching them (default: false)',
         },
       },
       required: ['jql'],
     },
   },
   {
-    name: 'create_issue',
-    description: 'Create a new Jira issue',
+    name: 'validate_jql',
+    description: 'Check a JQL query before running it. Reports syntax errors with positions, unknown fields, and Jira\'s own validation errors. Aliases are expanded first.',
     inputSchema: {
       type: 'object',
       properties: {
-        project: {
+        jql: {
           type: 'string',
-          description: 'Project key (e.g., PROJ)',
+          description: 'JQL query string to validate',
         },
-        summary: {
-          type: 'string',
+        checkWithJira: {
+          type: 'boolean',
+          description: 'Also validate with Jira\'s JQL parser (default: true)',
+        },
+      },
+      required: ['jql'],
+    },
+  },
+  {
+    name: 'list_aliases',
+    description: 'List the effective field value aliases (e.g., pod shorthand like "workflow") that are expanded in JQL queries',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+  {
+    name: 'get_access_policy',
+    description: 'Show what this server is allowed to do: read-only mode, allowed tools, and the projects and issue types write tools may change',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+  {
+    name: 'get_audit_log',
+    description: 'Read the audit log of changes made through this server (creates, updates, transitions, links, comments, worklogs, attachments and bulk changes), newest first. Each entry has the tool, its arguments, the target issues, field values before and after the change, and the result or error.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        issueKey: {
+          type: 'string',
+          description: 'Only changes to this issue',
+        },
+        tool: {
+          type: 'string',
+          description: 'Only calls of this tool (e.g., "update_issue")',
+        },
+        since: {
+          type: 'string',
+          description: 'Only changes at or after this date or date-time (e.g., "2024-05-01")',
+        },
+        until: {
+          type: 'string',
+          description: 'Only changes at or before this date or date-time',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of entries (default: 50)',
+        },
+      },
+    },
+  },
+  {
+    name: 'undo_last_change',
+    description: 'Undo the most recent field change made through this server with update_issue or bulk_update, by writing the summary, description and field values recorded before the change back to Jira. Issues that were changed again since are skipped unless force is true. Transitions, comments and other changes cannot be undone.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        issueKey: {
+          type: 'string',
+          description: 'Undo the most recent change to this issue instead of the most recent change overall',
+        },
+        force: {
+          type: 'boolean',
+          description: 'Restore even if the fields were changed again after the recorded change (default: false)',
+        },
+      },
+    },
+  },
+  {
+    name: 'list_fields',
+    description: 'Find Jira fields by display name, id or JQL clause name and show their id, type and JQL names, e.g. which field holds "Customer Tier". With a project, only fields on that project\'s create screens are listed, with the issue types that use them, whether they are required and their allowed values.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Text the field name contains, or an exact field id or JQL clause name (e.g., "Customer Tier", "customfield_10010")',
+        },
+        projectKey: {
+          type: 'string',
+          description: 'Optional project key to limit the result to fields used in that project',
+        },
+        issueType: {
+          type: 'string',
+          description: 'Optional issue type name, used with projectKey',
+        },
+        customOnly: {
+          type: 'boolean',
+          description: 'Only list custom fields (default: false)',
+        },
+      },
+    },
+  },
+  {
+    name: 'create_issue',
+    description: 'Create a new Jira issue, optionally setting any additional standard or custom fields',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        project: {
+          type: 'string',
+          description: 'Project key (e.g., PROJ)',
+        },
+        summary: {
+          type: 'string',
           description: 'Issue summary/title',
         },
         description: {
@@ -241,13 +1087,17 @@ const tools: Tool[] = [
           type: 'string',
           description: 'Issue type (e.g., Task, Bug, Story)',
         },
+        fields: {
+          type: 'object',
+          description: 'Optional map of additional fields to set, keyed by field id or display name (e.g., {"Assignee": "jane@example.com", "Priority": "High", "Labels": ["rca"], "Due date": "2025-12-31", "Parent": "PROJ-1", "Root Cause": "Missing null check", "Regression?": "Yes"}). Values are converted to the shape each field expects.',
+        },
       },
       required: ['project', 'summary', 'issueType'],
     },
   },
   {
     name: 'update_issue',
-    description: 'Update an existing Jira issue',
+    description: 'Update an existing Jira issue, including assignee, priority, labels, components, versions, dates, parent and custom fields (e.g., RCA fields)',
     inputSchema: {
       type: 'object',
       properties: {
@@ -263,38 +1113,107 @@ const tools: Tool[] = [
           type: 'string',
           description: 'New issue description',
         },
+        fields: {
+          type: 'object',
+          description: 'Optional map of additional fields to set, keyed by field id or display name (e.g., {"Assignee": "jane@example.com", "Priority": "High", "Labels": ["rca"], "Due date": "2025-12-31", "Parent": "PROJ-1", "Root Cause": "Missing null check", "Regression?": "Yes"}). Values are converted to the shape each field expects.',
+        },
       },
       required: ['issueKey'],
     },
   },
   {
-    name: 'add_comment',
-    description: 'Add a comment to a Jira issue with optional file attachments',
+    name: 'bulk_update',
+    description: 'Set fields on many issues at once (up to 200). The first call is a dry run that returns the per-issue diff and a confirmationToken; call again with only the token to apply. Fields are given by id or display name, as in update_issue.',
     inputSchema: {
       type: 'object',
       properties: {
-        issueKey: {
+        jql: {
           type: 'string',
-          description: 'The Jira issue key (e.g., PROJ-123)',
+          description: 'JQL selecting the issues (aliases such as Pod = "workflow" are expanded)',
+        },
+        issueKeys: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Issue keys to change, instead of jql',
+        },
+        fields: {
+          type: 'object',
+          description: 'Map of field id or display name to the new value (e.g., {"fixVersions": ["2.4.0"], "Pod": "Platform Pod"})',
+        },
+        confirmationToken: {
+          type: 'string',
+          description: 'Token from the dry-run preview. When given, the previewed plan is applied and the other arguments are ignored.',
+        },
+      },
+    },
+  },
+  {
+    name: 'bulk_transition',
+    description: 'Move many issues through a workflow transition (up to 200). The first call is a dry run showing each issue\'s status change, plus issues that would be skipped; call again with only the confirmationToken to apply. Uses Jira\'s bulk transition endpoint when no resolution, fields or comment are needed.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        jql: {
+          type: 'string',
+          description: 'JQL selecting the issues (aliases such as Pod = "workflow" are expanded)',
+        },
+        issueKeys: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Issue keys to change, instead of jql',
+        },
+        transition: {
+          type: 'string',
+          description: 'Transition id, transition name or target status name (e.g., "Done")',
+        },
+        resolution: {
+          type: 'string',
+          description: 'Resolution name to set when the transition requires one',
+        },
+        fields: {
+          type: 'object',
+          description: 'Optional map of field id or display name to value for other fields on the transition screen',
         },
         comment: {
           type: 'string',
-          description: 'Comment text',
+          description: 'Optional comment to add with each transition',
         },
-        attachments: {
+        confirmationToken: {
+          type: 'string',
+          description: 'Token from the dry-run preview. When given, the previewed plan is applied and the other arguments are ignored.',
+        },
+      },
+    },
+  },
+  {
+    name: 'bulk_comment',
+    description: 'Add the same comment to many issues (up to 200). The first call is a dry run listing the issues; call again with only the confirmationToken to apply.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        jql: {
+          type: 'string',
+          description: 'JQL selecting the issues (aliases such as Pod = "workflow" are expanded)',
+        },
+        issueKeys: {
           type: 'array',
-          items: {
-            type: 'string',
-          },
-          description: 'Optional array of absolute file paths to attach to the comment',
+          items: { type: 'string' },
+          description: 'Issue keys to change, instead of jql',
+        },
+        comment: {
+          type: 'string',
+          description: 'The comment text (supports markdown)',
+        },
+        confirmationToken: {
+          type: 'string',
+          description: 'Token from the dry-run preview. When given, the previewed plan is applied and the other arguments are ignored.',
         },
       },
-      required: ['issueKey', 'comment'],
     },
   },
   {
-    name: 'delete_comment',
-    description: 'Delete a comment from a Jira issue',
+    name: 'get_transitions',
+    description: 'List the workflow transitions currently available for a Jira issue, with target statuses and any fields the transition requires (e.g., resolution)',
     inputSchema: {
       type: 'object',
       properties: {
@@ -302,17 +1221,43 @@ const tools: Tool[] = [
           type: 'string',
           description: 'The Jira issue key (e.g., PROJ-123)',
         },
-        commentId: {
+      },
+      required: ['issueKey'],
+    },
+  },
+  {
+    name: 'transition_issue',
+    description: 'Move a Jira issue to another status. Accepts a transition id, transition name or target status name (e.g., "In Review", "Done"), fills required screen fields and can post a comment in the same call.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        issueKey: {
           type: 'string',
-          description: 'The comment ID to delete',
+          description: 'The Jira issue key (e.g., PROJ-123)',
+        },
+        transition: {
+          type: 'string',
+          description: 'Transition id, transition name or target status name',
+        },
+        resolution: {
+          type: 'string',
+          description: 'Resolution name to set when the transition requires one (e.g., "Done", "Duplicate")',
+        },
+        fields: {
+          type: 'object',
+          description: 'Optional map of field id or display name to value for other fields on the transition screen',
+        },
+        comment: {
+          type: 'string',
+          description: 'Optional comment to add as part of the transition',
         },
       },
-      required: ['issueKey', 'commentId'],
+      required: ['issueKey', 'transition'],
     },
   },
   {
-    name: 'get_attachments',
-    description: 'Get all attachments for a Jira issue, including metadata and download URLs',
+    name: 'link_issues',
+    description: 'Link two Jira issues so that "issueKey <linkType> targetIssueKey" holds, e.g. PROJ-1 blocks PROJ-2. The link type can be a type name ("Blocks") or either of its relations ("blocks", "is blocked by", "relates to", "duplicates").',
     inputSchema: {
       type: 'object',
       properties: {
@@ -320,31 +1265,111 @@ const tools: Tool[] = [
           type: 'string',
           description: 'The Jira issue key (e.g., PROJ-123)',
         },
+        linkType: {
+          type: 'string',
+          description: 'Link type name or relation (e.g., "blocks", "is blocked by", "relates to")',
+        },
+        targetIssueKey: {
+          type: 'string',
+          description: 'The issue to link to (e.g., OTHER-456)',
+        },
+        comment: {
+          type: 'string',
+          description: 'Optional comment to add to issueKey with the link',
+        },
+      },
+      required: ['issueKey', 'linkType', 'targetIssueKey'],
+    },
+  },
+  {
+    name: 'unlink_issues',
+    description: 'Remove an issue link, by link id or by the two linked issues (optionally only links of one type)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        linkId: {
+          type: 'string',
+          description: 'The link id (see issueLinks in get_comprehensive_issue)',
+        },
+        issueKey: {
+          type: 'string',
+          description: 'One of the linked issues (e.g., PROJ-123)',
+        },
+        targetIssueKey: {
+          type: 'string',
+          description: 'The other linked issue',
+        },
+        linkType: {
+          type: 'string',
+          description: 'Optional link type name or relation to restrict which links are removed',
+        },
+      },
+    },
+  },
+  {
+    name: 'get_dependency_graph',
+    description: 'Walk an issue\'s links, subtasks and epic children across projects to a given depth and return the dependency graph as nodes and edges, with detected cycles and the blockers that are still open. Can also render the graph as Mermaid or Graphviz DOT.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        issueKey: {
+          type: 'string',
+          description: 'The root issue key (e.g., PROJ-123)',
+        },
+        depth: {
+          type: 'number',
+          description: 'Number of hops to walk from the root (default: 2, max: 5)',
+        },
+        linkTypes: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Only follow these link types, by name or relation (e.g., ["Blocks"]). Default: all',
+        },
+        includeSubtasks: {
+          type: 'boolean',
+          description: 'Follow subtasks (default: true)',
+        },
+        includeChildren: {
+          type: 'boolean',
+          description: 'Follow children of epics (default: true)',
+        },
+        format: {
+          type: 'string',
+          enum: ['json', 'mermaid', 'dot'],
+          description: 'Output format (default: json)',
+        },
       },
       required: ['issueKey'],
     },
   },
   {
-    name: 'download_attachment',
-    description: 'Download a specific attachment from a Jira issue and save it to disk',
+    name: 'add_comment',
+    description: 'Add a comment to a Jira issue with optional file attachments',
     inputSchema: {
       type: 'object',
       properties: {
-        attachmentId: {
+        issueKey: {
           type: 'string',
-          description: 'The attachment ID',
+          description: 'The Jira issue key (e.g., PROJ-123)',
         },
-        outputDir: {
+        comment: {
           type: 'string',
-          description: 'Directory to save the file (optional, defaults to current directory)',
+          description: 'Comment text',
+        },
+        attachments: {
+          type: 'array',
+          items: {
+            type: 'string',
+          },
+          description: 'Optional array of absolute file paths to attach to the comment',
         },
       },
-      required: ['attachmentId'],
+      required: ['issueKey', 'comment'],
     },
   },
   {
-    name: 'add_attachment',
-    description: 'Upload and attach a file to a Jira issue',
+    name: 'delete_comment',
+    description: 'Delete a comment from a Jira issue',
     inputSchema: {
       type: 'object',
       properties: {
@@ -352,17 +1377,17 @@ const tools: Tool[] = [
           type: 'string',
           description: 'The Jira issue key (e.g., PROJ-123)',
         },
-        filePath: {
+        commentId: {
           type: 'string',
-          description: 'Absolute path to the file to attach',
+          description: 'The comment ID to delete',
         },
       },
-      required: ['issueKey', 'filePath'],
+      required: ['issueKey', 'commentId'],
     },
   },
   {
-    name: 'get_comprehensive_issue',
-    description: 'Get ALL details of a Jira issue including description, comments, custom fields (RCA templates, etc.), attachments, changelog, and complete field data. This tool fetches everything about a ticket in one call.',
+    name: 'get_worklogs',
+    description: 'List the worklogs of a Jira issue with author, start time, duration and comment',
     inputSchema: {
       type: 'object',
       properties: {
@@ -375,8 +1400,8 @@ const tools: Tool[] = [
     },
   },
   {
-    name: 'analyze_ticket',
-    description: 'Analyze a Jira ticket comprehensively and provide structured insights including summary, key findings, comments analysis, RCA details, timeline, and recommendations. This is perfect for getting a complete understanding of any ticket.',
+    name: 'add_worklog',
+    description: 'Log time on a Jira issue using a human duration such as "1h 30m", "2d" or "45m"',
     inputSchema: {
       type: 'object',
       properties: {
@@ -384,37 +1409,723 @@ const tools: Tool[] = [
           type: 'string',
           description: 'The Jira issue key (e.g., PROJ-123)',
         },
+        timeSpent: {
+          type: 'string',
+          description: 'Time spent, e.g. "1h 30m" (w, d, h, m; 1d = 8h, 1w = 5d)',
+        },
+        started: {
+          type: 'string',
+          description: 'When the work started, as an ISO date or date-time (default: now)',
+        },
+        comment: {
+          type: 'string',
+          description: 'Optional worklog comment (supports markdown)',
+        },
+        adjustEstimate: {
+          type: 'string',
+          enum: ['auto', 'leave', 'new', 'manual'],
+          description: 'How to adjust the remaining estimate (default: auto)',
+        },
+        newEstimate: {
+          type: 'string',
+          description: 'New remaining estimate when adjustEstimate is "new" (e.g., "2d")',
+        },
+        reduceBy: {
+          type: 'string',
+          description: 'Amount to reduce the remaining estimate by when adjustEstimate is "manual"',
+        },
       },
-      required: ['issueKey'],
+      required: ['issueKey', 'timeSpent'],
     },
   },
-];
-
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return { tools };
-});
-
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
+  {
+    name: 'update_worklog',
+    description: 'Change the duration, start time or comment of an existing worklog',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        issueKey: {
+          type: 'string',
+          description: 'The Jira issue key (e.g., PROJ-123)',
+        },
+        worklogId: {
+          type: 'string',
+          description: 'The worklog ID (see get_worklogs)',
+        },
+        timeSpent: {
+          type: 'string',
+          description: 'New time spent, e.g. "2h"',
+        },
+        started: {
+          type: 'string',
+          description: 'When the work started, as an ISO date or date-time (default: now)',
+        },
+        comment: {
+          type: 'string',
+          description: 'Optional worklog comment (supports markdown)',
+        },
+        adjustEstimate: {
+          type: 'string',
+          enum: ['auto', 'leave', 'new', 'manual'],
+          description: 'How to adjust the remaining estimate (default: auto)',
+        },
+        newEstimate: {
+          type: 'string',
+          description: 'New remaining estimate when adjustEstimate is "new" (e.g., "2d")',
+        },
+        reduceBy: {
+          type: 'string',
+          description: 'Amount to reduce the remaining estimate by when adjustEstimate is "manual"',
+        },
+      },
+      required: ['issueKey', 'worklogId'],
+    },
+  },
+  {
+    name: 'delete_worklog',
+    description: 'Delete a worklog from a Jira issue',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        issueKey: {
+          type: 'string',
+          description: 'The Jira issue key (e.g., PROJ-123)',
+        },
+        worklogId: {
+          type: 'string',
+          description: 'The worklog ID to delete',
+        },
+        adjustEstimate: {
+          type: 'string',
+          enum: ['auto', 'leave', 'new', 'manual'],
+          description: 'How to adjust the remaining estimate (default: auto)',
+        },
+        newEstimate: {
+          type: 'string',
+          description: 'New remaining estimate when adjustEstimate is "new"',
+        },
+        reduceBy: {
+          type: 'string',
+          description: 'Amount to add back to the remaining estimate when adjustEstimate is "manual"',
+        },
+      },
+      required: ['issueKey', 'worklogId'],
+    },
+  },
+  {
+    name: 'timesheet',
+    description: 'Aggregate time logged between two dates per user (with per-issue breakdown for billing), per issue (with original estimate vs total logged) and per pod. Issues are found with worklogDate JQL; an extra JQL filter and a list of users can narrow the report.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        from: {
+          type: 'string',
+          description: 'First day of the range (YYYY-MM-DD)',
+        },
+        to: {
+          type: 'string',
+          description: 'Last day of the range, inclusive (YYYY-MM-DD)',
+        },
+        jql: {
+          type: 'string',
+          description: 'Optional JQL filter, e.g. Pod = "workflow" or project = PROJ',
+        },
+        users: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Optional account ids (or display names) whose time to include',
+        },
+        podField: {
+          type: 'string',
+          description: 'Field to group by as pod (default: "Pod")',
+        },
+      },
+      required: ['from', 'to'],
+    },
+  },
+  {
+    name: 'get_attachments',
+    description: 'Get all attachments for a Jira issue, including metadata and download URLs',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        issueKey: {
+          type: 'string',
+          description: 'The Jira issue key (e.g., PROJ-123)',
+        },
+      },
+      required: ['issueKey'],
+    },
+  },
+  {
+    name: 'download_attachment',
+    description: 'Download a specific attachment from a Jira issue and save it to disk',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        attachmentId: {
+          type: 'string',
+          description: 'The attachment ID',
+        },
+        outputDir: {
+          type: 'string',
+          description: 'Directory to save the file (optional, defaults to current directory)',
+        },
+      },
+      required: ['attachmentId'],
+    },
+  },
+  {
+    name: 'add_attachment',
+    description: 'Upload and attach a file to a Jira issue',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        issueKey: {
+          type: 'string',
+          description: 'The Jira issue key (e.g., PROJ-123)',
+        },
+        filePath: {
+          type: 'string',
+          description: 'Absolute path to the file to attach',
+        },
+      },
+      required: ['issueKey', 'filePath'],
+    },
+  },
+  {
+    name: 'list_boards',
+    description: 'List Jira Software boards, optionally filtered by project, name or type',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectKey: {
+          type: 'string',
+          description: 'Optional project key or id (e.g., PROJ)',
+        },
+        name: {
+          type: 'string',
+          description: 'Optional text the board name must contain',
+        },
+        type: {
+          type: 'string',
+          enum: ['scrum', 'kanban', 'simple'],
+          description: 'Optional board type',
+        },
+      },
+    },
+  },
+  {
+    name: 'list_sprints',
+    description: 'List the sprints of a board, optionally filtered by state',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        boardId: {
+          type: 'number',
+          description: 'The board id (see list_boards)',
+        },
+        states: {
+          type: 'array',
+          items: { type: 'string', enum: ['active', 'future', 'closed'] },
+          description: 'Optional sprint states to include (default: all)',
+        },
+      },
+      required: ['boardId'],
+    },
+  },
+  {
+    name: 'get_sprint_issues',
+    description: 'Get the issues in a sprint with status, assignee and story points. Pass a sprintId, or a boardId to use the board\'s active sprint. An optional JQL filter narrows the result (aliases such as Pod = "workflow" are expanded), e.g. what is left in the current sprint for a pod with onlyOpen.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sprintId: {
+          type: 'number',
+          description: 'The sprint id (see list_sprints)',
+        },
+        boardId: {
+          type: 'number',
+          description: 'Board id whose active sprint is used when no sprintId is given',
+        },
+        jql: {
+          type: 'string',
+          description: 'Optional JQL filter, e.g. Pod = "workflow"',
+        },
+        onlyOpen: {
+          type: 'boolean',
+          description: 'Only return issues that are not done (default: false)',
+        },
+      },
+    },
+  },
+  {
+    name: 'move_issues_to_sprint',
+    description: 'Move one or more issues into a sprint',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sprintId: {
+          type: 'number',
+          description: 'The target sprint id',
+        },
+        issueKeys: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Issue keys to move (e.g., ["PROJ-1", "PROJ-2"])',
+        },
+      },
+      required: ['sprintId', 'issueKeys'],
+    },
+  },
+  {
+    name: 'get_sprint_report',
+    description: 'Sprint report: committed vs completed issues and story points, scope added after the sprint started, issues carried over from earlier sprints, incomplete work and story points by assignee. Pass a sprintId, or a boardId to use the board\'s active sprint.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sprintId: {
+          type: 'number',
+          description: 'The sprint id (see list_sprints)',
+        },
+        boardId: {
+          type: 'number',
+          description: 'Board id whose active sprint is used when no sprintId is given',
+        },
+      },
+    },
+  },
+  {
+    name: 'get_comprehensive_issue',
+    description: 'Get ALL details of a Jira issue including description, comments, custom fields (RCA templates, etc.), attachments, changelog, and complete field data. This tool fetches everything about a ticket in one call.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        issueKey: {
+          type: 'string',
+          description: 'The Jira issue key (e.g., PROJ-123)',
+        },
+        maxCacheAgeMinutes: {
+          type: 'number',
+          description: 'When the issue cache is enabled, serve cached data up to this many minutes old (default: JIRA_CACHE_MAX_AGE_MINUTES; 0 refetches)',
+        },
+      },
+      required: ['issueKey'],
+    },
+  },
+  {
+    name: 'sync_project',
+    description: 'Pull a project\'s issues into the local issue cache. After the first full sync, only issues updated since the last sync are fetched. Requires JIRA_CACHE_DIR.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectKey: {
+          type: 'string',
+          description: 'The project key (e.g., PROJ)',
+        },
+        full: {
+          type: 'boolean',
+          description: 'Re-scan the whole project instead of syncing changes only (default: false)',
+        },
+      },
+      required: ['projectKey'],
+    },
+  },
+  {
+    name: 'analyze_issues',
+    description: 'Analyze all issues matching a JQL query and return aggregates: counts by pod, root cause, resolution type, regression flag and customer tier; resolution and first-response time percentiles; top reporters and organizations; and the worst outliers. Aliases (e.g., Pod = "workflow") are expanded.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        jql: {
+          type: 'string',
+          description: 'JQL query selecting the issues to analyze (e.g., "Pod = \'workflow\' AND resolved >= -30d")',
+        },
+        maxResults: {
+          type: 'number',
+          description: 'Maximum number of issues to analyze (default: 100)',
+        },
+        groupBy: {
+          type: 'array',
+          items: {
+            type: 'string',
+          },
+          description: 'Custom field names to count by (default: Pod, Root Cause, Resolution Type, Regression?, Customer Tier)',
+        },
+        includeTickets: {
+          type: 'boolean',
+          description: 'Also return the per-ticket analysis for every issue (default: false)',
+        },
+        template: {
+          type: 'string',
+          description: 'Analysis template for per-ticket analyses when includeTickets is set',
+        },
+        maxCacheAgeMinutes: {
+          type: 'number',
+          description: 'When the issue cache is enabled, serve cached data up to this many minutes old (default: JIRA_CACHE_MAX_AGE_MINUTES; 0 refetches)',
+        },
+      },
+      required: ['jql'],
+    },
+  },
+  {
+    name: 'find_similar_issues',
+    description: 'Find issues that may already report the same problem, for an existing issue or a free-text description. Candidates are found by a JQL text search on key terms, then ranked locally by text similarity (BM25 over summary, description and human comments) with scores and matching snippets.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        issueKey: {
+          type: 'string',
+          description: 'Issue to find duplicates of (e.g., PROJ-123)',
+        },
+        text: {
+          type: 'string',
+          description: 'Free-text description to match when there is no issue yet',
+        },
+        jql: {
+          type: 'string',
+          description: 'Optional JQL to narrow the candidates (e.g., "project = PROJ AND created >= -180d")',
+        },
+        maxCandidates: {
+          type: 'number',
+          description: 'Maximum number of candidate issues to rank (default: 100)',
+        },
+        top: {
+          type: 'number',
+          description: 'Number of results to return (default: 10)',
+        },
+      },
+    },
+  },
+  {
+    name: 'list_analysis_templates',
+    description: 'List the analysis templates available to analyze_ticket, when each is selected, and which fields each section outputs',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+  {
+    name: 'list_comment_rules',
+    description: 'Show the rules used to classify comments as human, bot or automation in analyze_ticket, so they can be audited',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+  {
+    name: 'get_issue_timeline',
+    description: 'Build a Jira issue\'s workflow timeline from its full changelog: status segments, time in each status (calendar and business hours), assignee hand-offs, reopen count, first response time and priority changes',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        issueKey: {
+          type: 'string',
+          description: 'The Jira issue key (e.g., PROJ-123)',
+        },
+        maxCacheAgeMinutes: {
+          type: 'number',
+          description: 'When the issue cache is enabled, serve cached data up to this many minutes old (default: JIRA_CACHE_MAX_AGE_MINUTES; 0 refetches)',
+        },
+      },
+      required: ['issueKey'],
+    },
+  },
+  {
+    name: 'analyze_ticket',
+    description: 'Analyze a Jira ticket comprehensively and provide structured insights including summary, key findings, comments analysis, RCA details, timeline, and recommendations. This is perfect for getting a complete understanding of any ticket. The analysis template is chosen by issue type or project unless one is named; see list_analysis_templates.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        issueKey: {
+          type: 'string',
+          description: 'The Jira issue key (e.g., PROJ-123)',
+        },
+        template: {
+          type: 'string',
+          description: 'Optional analysis template name (e.g., "rca", "generic")',
+        },
+        maxCacheAgeMinutes: {
+          type: 'number',
+          description: 'When the issue cache is enabled, serve cached data up to this many minutes old (default: JIRA_CACHE_MAX_AGE_MINUTES; 0 refetches)',
+        },
+      },
+      required: ['issueKey'],
+    },
+  },
+];
+
+/**
+ * Tools that can be called without an arguments object
+ */
+const NO_ARGUMENT_TOOLS = new Set([
+  'list_aliases',
+  'list_comment_rules',
+  'list_analysis_templates',
+  'list_boards',
+  'list_fields',
+  'get_access_policy',
+  'get_audit_log',
+  'undo_last_change',
+]);
+
+const unmatchedTools = accessPolicy.unmatchedTools(tools.map(tool => tool.name));
+if (unmatchedTools.length > 0) {
+  console.error(`Error: Allowed tools match no tool: ${unmatchedTools.join(', ')}`);
+  process.exit(1);
+}
+
+server.setRequestHandler(ListToolsRequestSchema, async () => {
+  // Refused tools are not offered at all; the dispatcher still enforces the policy
+  return { tools: tools.filter(tool => accessPolicy.allowsTool(tool.name)) };
+});
+
+/**
+ * Run a tool. Errors are returned as error results, not thrown.
+ */
+async function callTool(name: string, args: Record<string, unknown>): Promise<CallToolResult> {
+  try {
+    switch (name) {
+      case 'get_issue': {
+        const result = await jiraClient.getIssue(
+          args.issueKey as string,
+          args.fields as string[] | undefined
+        );
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'search_issues': {
+        // Expand pod aliases in the JQL query
+        const expandedJql = expandPodAliases(args.jql as string);
+
+        if (args.countOnly) {
+          const count = await jiraClient.countIssues(expandedJql);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(count, null, 2),
+              },
+            ],
+          };
+        }
+        
+        const result = await jiraClient.searchIssues(
+          expandedJql,
+          args.maxResults as number | undefined,
+          {
+            fields: args.fields as string[] | undefined,
+            expand: args.expand as string | undefined,
+            compact: args.compact as boolean | undefined,
+            nextPageToken: args.nextPageToken as string | undefined,
+          }
+        );
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'validate_jql': {
+        const result = await validateJql(
+          args.jql as string,
+          args.checkWithJira as boolean | undefined
+        );
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'list_aliases': {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(aliasRegistry.describe(), null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'get_access_policy': {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(accessPolicy.describe(), null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'get_audit_log': {
+        const result = getAuditLog({
+          issueKey: args.issueKey as string | undefined,
+          tool: args.tool as string | undefined,
+          since: args.since as string | undefined,
+          until: args.until as string | undefined,
+          limit: args.limit as number | undefined,
+        });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'undo_last_change': {
+        const result = await undoLastChange(args.issueKey as string | undefined, args.force as boolean | undefined);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'list_fields': {
+        const result = await jiraClient.listFields({
+          query: args.query as string | undefined,
+          projectKey: args.projectKey as string | undefined,
+          issueType: args.issueType as string | undefined,
+          customOnly: args.customOnly as boolean | undefined,
+        });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'create_issue': {
+        const result = await jiraClient.createIssue({
+          project: args.project as string,
+          summary: args.summary as string,
+          description: args.description as string,
+          issueType: args.issueType as string,
+          fields: args.fields as { [field: string]: any } | undefined,
+        });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'update_issue': {
+        const result = await jiraClient.updateIssue(
+          args.issueKey as string,
+          {
+            summary: args.summary as string | undefined,
+            description: args.description as string | undefined,
+            fields: args.fields as { [field: string]: any } | undefined,
+          }
+        );
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'bulk_update': {
+        const result = args.confirmationToken
+          ? await bulkOperations.apply('update', args.confirmationToken as string)
+          : await bulkOperations.planUpdate(bulkSelection(args), args.fields as { [field: string]: any });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'bulk_transition': {
+        const result = args.confirmationToken
+          ? await bulkOperations.apply('transition', args.confirmationToken as string)
+          : await bulkOperations.planTransition(bulkSelection(args), {
+              transition: args.transition as string,
+              resolution: args.resolution as string | undefined,
+              fields: args.fields as { [fieldId: string]: any } | undefined,
+              comment: args.comment as string | undefined,
+            });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'bulk_comment': {
+        const result = args.confirmationToken
+          ? await bulkOperations.apply('comment', args.confirmationToken as string)
+          : await bulkOperations.planComment(bulkSelection(args), args.comment as string);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
 
-  if (!args) {
-    return {
-      content: [
-        {
-          type: 'text',
-          text: 'Error: Missing arguments',
-        },
-      ],
-      isError: true,
-    };
-  }
+      case 'get_transitions': {
+        const result = await jiraClient.getTransitions(args.issueKey as string);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
 
-  try {
-    switch (name) {
-      case 'get_issue': {
-        const result = await jiraClient.getIssue(
+      case 'transition_issue': {
+        const result = await jiraClient.transitionIssue(
           args.issueKey as string,
-          args.fields as string[] | undefined
+          {
+            transition: args.transition as string,
+            resolution: args.resolution as string | undefined,
+            fields: args.fields as { [fieldId: string]: any } | undefined,
+            comment: args.comment as string | undefined,
+          }
         );
         return {
           content: [
@@ -426,13 +2137,12 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
-      case 'search_issues': {
-        // Expand pod aliases in the JQL query
-        const expandedJql = expandPodAliases(args.jql as string);
-        
-        const result = await jiraClient.searchIssues(
-          expandedJql,
-          args.maxResults as number | undefined
+      case 'link_issues': {
+        const result = await jiraClient.linkIssues(
+          args.issueKey as string,
+          args.linkType as string,
+          args.targetIssueKey as string,
+          args.comment as string | undefined
         );
         return {
           content: [
@@ -444,12 +2154,12 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
-      case 'create_issue': {
-        const result = await jiraClient.createIssue({
-          project: args.project as string,
-          summary: args.summary as string,
-          description: args.description as string,
-          issueType: args.issueType as string,
+      case 'unlink_issues': {
+        const result = await jiraClient.unlinkIssues({
+          linkId: args.linkId as string | undefined,
+          issueKey: args.issueKey as string | undefined,
+          targetIssueKey: args.targetIssueKey as string | undefined,
+          linkType: args.linkType as string | undefined,
         });
         return {
           content: [
@@ -461,19 +2171,36 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
-      case 'update_issue': {
-        const result = await jiraClient.updateIssue(
-          args.issueKey as string,
-          {
-            summary: args.summary as string | undefined,
-            description: args.description as string | undefined,
-          }
-        );
+      case 'get_dependency_graph': {
+        const graph = await buildDependencyGraph(jiraClient, args.issueKey as string, {
+          depth: args.depth as number | undefined,
+          linkTypes: args.linkTypes as string[] | undefined,
+          includeSubtasks: args.includeSubtasks as boolean | undefined,
+          includeChildren: args.includeChildren as boolean | undefined,
+        });
+
+        if (args.format === 'mermaid' || args.format === 'dot') {
+          const diagram = args.format === 'mermaid' ? toMermaid(graph) : toDot(graph);
+          const { nodes, edges, ...summary } = graph;
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `\`\`\`${args.format}\n${diagram}\n\`\`\``,
+              },
+              {
+                type: 'text',
+                text: JSON.stringify({ ...summary, nodeCount: nodes.length, edgeCount: edges.length }, null, 2),
+              },
+            ],
+          };
+        }
+
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify(result, null, 2),
+              text: JSON.stringify(graph, null, 2),
             },
           ],
         };
@@ -510,6 +2237,88 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case 'get_worklogs': {
+        const result = await jiraClient.getWorklogs(args.issueKey as string);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'add_worklog': {
+        const result = await jiraClient.addWorklog(args.issueKey as string, {
+          timeSpent: args.timeSpent as string,
+          started: args.started as string | undefined,
+          comment: args.comment as string | undefined,
+          adjustEstimate: args.adjustEstimate as WorklogInput['adjustEstimate'],
+          newEstimate: args.newEstimate as string | undefined,
+          reduceBy: args.reduceBy as string | undefined,
+        });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'update_worklog': {
+        const result = await jiraClient.updateWorklog(args.issueKey as string, args.worklogId as string, {
+          timeSpent: args.timeSpent as string | undefined,
+          started: args.started as string | undefined,
+          comment: args.comment as string | undefined,
+          adjustEstimate: args.adjustEstimate as WorklogInput['adjustEstimate'],
+          newEstimate: args.newEstimate as string | undefined,
+          reduceBy: args.reduceBy as string | undefined,
+        });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'delete_worklog': {
+        const result = await jiraClient.deleteWorklog(args.issueKey as string, args.worklogId as string, {
+          adjustEstimate: args.adjustEstimate as WorklogInput['adjustEstimate'],
+          newEstimate: args.newEstimate as string | undefined,
+          reduceBy: args.reduceBy as string | undefined,
+        });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'timesheet': {
+        const result = await buildTimesheetReport(args.from as string, args.to as string, {
+          jql: args.jql as string | undefined,
+          users: args.users as string[] | undefined,
+          podField: args.podField as string | undefined,
+        });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
       case 'get_attachments': {
         const result = await jiraClient.getAttachments(args.issueKey as string);
         return {
@@ -552,8 +2361,133 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case 'list_boards': {
+        const result = await agileClient.listBoards({
+          projectKeyOrId: args.projectKey as string | undefined,
+          name: args.name as string | undefined,
+          type: args.type as string | undefined,
+        });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'list_sprints': {
+        const result = await agileClient.listSprints(
+          args.boardId as number,
+          args.states as SprintState[] | undefined
+        );
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'get_sprint_issues': {
+        const sprintId = await resolveSprintId(args.sprintId as number | undefined, args.boardId as number | undefined);
+        const result = await agileClient.getSprintIssues(sprintId, {
+          jql: args.jql ? expandPodAliases(args.jql as string) : undefined,
+          onlyOpen: args.onlyOpen as boolean | undefined,
+        });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'move_issues_to_sprint': {
+        const result = await agileClient.moveIssuesToSprint(
+          args.sprintId as number,
+          args.issueKeys as string[]
+        );
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'get_sprint_report': {
+        const sprintId = await resolveSprintId(args.sprintId as number | undefined, args.boardId as number | undefined);
+        const result = await agileClient.getSprintReport(sprintId);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
       case 'get_comprehensive_issue': {
-        const result = await jiraClient.getComprehensiveIssue(args.issueKey as string);
+        const result = await getIssueData(args.issueKey as string, {
+          maxAgeMinutes: args.maxCacheAgeMinutes as number | undefined,
+        });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'sync_project': {
+        const result = await syncProject(args.projectKey as string, args.full as boolean | undefined);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'analyze_issues': {
+        const result = await analyzeIssues(args.jql as string, {
+          maxResults: args.maxResults as number | undefined,
+          template: args.template as string | undefined,
+          groupBy: args.groupBy as string[] | undefined,
+          includeTickets: args.includeTickets as boolean | undefined,
+          maxCacheAgeMinutes: args.maxCacheAgeMinutes as number | undefined,
+        });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'find_similar_issues': {
+        const result = await findSimilarIssues({
+          issueKey: args.issueKey as string | undefined,
+          text: args.text as string | undefined,
+          jql: args.jql as string | undefined,
+          maxCandidates: args.maxCandidates as number | undefined,
+          top: args.top as number | undefined,
+        });
         return {
           content: [
             {
@@ -564,11 +2498,53 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case 'list_analysis_templates': {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(analysisTemplates.describe(), null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'list_comment_rules': {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(commentClassifier.describe(), null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'get_issue_timeline': {
+        const ticketData = await getIssueData(args.issueKey as string, {
+          maxAgeMinutes: args.maxCacheAgeMinutes as number | undefined,
+        });
+        const timeline = buildIssueTimeline(
+          timelineInputFromIssue(ticketData, isHumanComment),
+          businessHours
+        );
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ issueKey: ticketData.issueKey, ...timeline }, null, 2),
+            },
+          ],
+        };
+      }
+
       case 'analyze_ticket': {
-        const ticketData = await jiraClient.getComprehensiveIssue(args.issueKey as string);
+        const ticketData = await getIssueData(args.issueKey as string, {
+          maxAgeMinutes: args.maxCacheAgeMinutes as number | undefined,
+        });
         
         // Generate structured ticket analysis
-        const analysis = generateTicketAnalysis(ticketData);
+        const analysis = generateTicketAnalysis(ticketData, args.template as string | undefined);
         
         return {
           content: [
@@ -596,15 +2572,50 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       content: [
         {
           type: 'text',
-          text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          text: formatToolError(error),
+        },
+      ],
+      isError: true,
+    };
+  }
+}
+
+server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  const { name } = request.params;
+  const args = request.params.arguments ?? (NO_ARGUMENT_TOOLS.has(name) ? {} : undefined);
+
+  if (!args) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: 'Error: Missing arguments',
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  try {
+    await enforceAccessPolicy(name, args);
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: formatToolError(error),
         },
       ],
       isError: true,
     };
   }
+
+  return isAuditedCall(name, args) ? auditedCall(name, args) : callTool(name, args);
 });
 
 async function main() {
+  await aliasRegistry.discover(jiraClient);
+
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error('Jira MCP Server running on stdio');
@@ -0,0 +1,136 @@
+/**
+ * Aggregates per-ticket analysis over a set of issues
+ * Counts by field, resolution-time percentiles, top reporters/organizations and outliers.
+ */
+
+export interface AggregateInput {
+  ticketData: any; // getComprehensiveIssue result
+  timeline: any; // buildIssueTimeline result
+}
+
+export interface AggregateOptions {
+  groupBy?: string[]; // Custom field display names to count by
+  organizationField?: string; // Custom field holding the customer organization
+  top?: number; // Number of entries in top lists and outlier lists
+}
+
+export const DEFAULT_GROUP_BY = ['Pod', 'Root Cause', 'Resolution Type', 'Regression?', 'Customer Tier'];
+
+const NOT_SET = '(not set)';
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Nearest-rank percentile of a sorted list
+ */
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return round(sorted[Math.min(Math.max(rank - 1, 0), sorted.length - 1)]);
+}
+
+function distribution(values: number[]): any {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    mean: sorted.length ? round(sorted.reduce((sum, v) => sum + v, 0) / sorted.length) : null,
+    p50: percentile(sorted, 50),
+    p75: percentile(sorted, 75),
+    p90: percentile(sorted, 90),
+    p95: percentile(sorted, 95),
+    max: sorted.length ? round(sorted[sorted.length - 1]) : null,
+  };
+}
+
+function valuesOf(value: any): string[] {
+  if (value === null || value === undefined || value === '') return [NOT_SET];
+  if (Array.isArray(value)) return value.length ? value.map(v => String(v).trim()) : [NOT_SET];
+  // Long free-text values (e.g. root cause write-ups) are grouped by their first line
+  return [String(value).split('\n')[0].trim().substring(0, 120) || NOT_SET];
+}
+
+function countBy(items: any[], getValues: (item: any) => string[]): { [value: string]: number } {
+  const counts: { [value: string]: number } = {};
+  for (const item of items) {
+    for (const value of getValues(item)) {
+      counts[value] = (counts[value] || 0) + 1;
+    }
+  }
+  // Most frequent first
+  return Object.fromEntries(Object.entries(counts).sort((a, b) => b[1] - a[1]));
+}
+
+function topEntries(counts: { [value: string]: number }, top: number): { name: string; count: number }[] {
+  return Object.entries(counts)
+    .filter(([name]) => name !== NOT_SET)
+    .slice(0, top)
+    .map(([name, count]) => ({ name, count }));
+}
+
+export function aggregateIssues(inputs: AggregateInput[], options: AggregateOptions = {}): any {
+  const groupBy = options.groupBy?.length ? options.groupBy : DEFAULT_GROUP_BY;
+  const organizationField = options.organizationField || 'Org Name';
+  const top = options.top ?? 10;
+
+  const counts: { [field: string]: { [value: string]: number } } = {};
+  for (const field of groupBy) {
+    counts[field] = countBy(inputs, input => valuesOf(input.ticketData.customFields?.[field]));
+  }
+
+  const resolved = inputs.filter(input => input.timeline?.resolution);
+  const unresolved = inputs.filter(input => !input.timeline?.resolution);
+
+  const summary = (input: AggregateInput) => ({
+    issueKey: input.ticketData.issueKey,
+    summary: input.ticketData.summary,
+    status: input.ticketData.status,
+    pod: input.ticketData.customFields?.['Pod'] ?? null,
+  });
+
+  return {
+    totals: {
+      issues: inputs.length,
+      resolved: resolved.length,
+      unresolved: unresolved.length,
+      reopened: inputs.filter(input => input.timeline?.reopenCount > 0).length,
+    },
+    counts,
+    resolutionTime: {
+      calendarHours: distribution(resolved.map(input => input.timeline.resolution.calendarHours)),
+      businessHours: distribution(resolved.map(input => input.timeline.resolution.businessHours)),
+    },
+    firstResponseTime: {
+      businessHours: distribution(
+        inputs.filter(input => input.timeline?.firstResponse).map(input => input.timeline.firstResponse.businessHours)
+      ),
+    },
+    topReporters: topEntries(countBy(inputs, input => valuesOf(input.ticketData.reporter?.name)), top),
+    topOrganizations: topEntries(countBy(inputs, input => valuesOf(input.ticketData.customFields?.[organizationField])), top),
+    outliers: {
+      slowestResolution: [...resolved]
+        .sort((a, b) => b.timeline.resolution.calendarHours - a.timeline.resolution.calendarHours)
+        .slice(0, top)
+        .map(input => ({
+          ...summary(input),
+          calendarHours: input.timeline.resolution.calendarHours,
+          businessHours: input.timeline.resolution.businessHours,
+        })),
+      oldestOpen: [...unresolved]
+        .sort((a, b) => new Date(a.ticketData.created).getTime() - new Date(b.ticketData.created).getTime())
+        .slice(0, top)
+        .map(input => ({ ...summary(input), created: input.ticketData.created })),
+      mostReopened: inputs
+        .filter(input => input.timeline?.reopenCount > 0)
+        .sort((a, b) => b.timeline.reopenCount - a.timeline.reopenCount)
+        .slice(0, top)
+        .map(input => ({ ...summary(input), reopenCount: input.timeline.reopenCount })),
+      mostHandoffs: inputs
+        .filter(input => input.timeline?.handoffCount > 1)
+        .sort((a, b) => b.timeline.handoffCount - a.timeline.handoffCount)
+        .slice(0, top)
+        .map(input => ({ ...summary(input), handoffCount: input.timeline.handoffCount })),
+    },
+  };
+}
@@ -0,0 +1,209 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { JiraClient } from './jira-client.js';
+import { quoteJqlValue } from './jql-parser.js';
+
+export interface CacheEntry {
+  issueKey: string;
+  updated: string; // Jira's updated timestamp of the cached data
+  cachedAt: string; // When the entry was fetched or last confirmed current
+  data: any; // getComprehensiveIssue result
+}
+
+export interface ProjectSyncState {
+  lastSync: string; // Start time of the last completed sync
+  lastFullSync?: string;
+  issues: number; // Issues seen by the last sync
+}
+
+/**
+ * On-disk cache of comprehensive issue data, one JSON file per issue
+ * Entries are keyed by issue key and carry Jira's `updated` timestamp so they can be revalidated cheaply.
+ */
+export class IssueCache {
+  private issuesDir: string;
+  private syncStatePath: string;
+
+  constructor(public directory: string, public maxAgeMinutes: number = 60) {
+    this.issuesDir = path.join(directory, 'issues');
+    this.syncStatePath = path.join(directory, 'sync-state.json');
+    fs.mkdirSync(this.issuesDir, { recursive: true });
+  }
+
+  private entryPath(issueKey: string): string {
+    return path.join(this.issuesDir, `${issueKey.toUpperCase().replace(/[^A-Z0-9_-]/g, '_')}.json`);
+  }
+
+  /**
+   * Keys of the cached issues, optionally only those of one project
+   */
+  keys(projectKey?: string): string[] {
+    const prefix = projectKey ? `${projectKey.toUpperCase()}-` : '';
+    return fs
+      .readdirSync(this.issuesDir)
+      .filter(file => file.endsWith('.json'))
+      .map(file => path.basename(file, '.json'))
+      .filter(key => key.startsWith(prefix));
+  }
+
+  /**
+   * Write through a temporary file so readers never see a partial entry
+   */
+  private writeJson(filePath: string, value: any): void {
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(value));
+    fs.renameSync(tempPath, filePath);
+  }
+
+  get(issueKey: string): CacheEntry | undefined {
+    try {
+      return JSON.parse(fs.readFileSync(this.entryPath(issueKey), 'utf-8'));
+    } catch {
+      // Missing or unreadable entries are cache misses
+      return undefined;
+    }
+  }
+
+  /**
+   * Whether the entry may be served without checking Jira
+   */
+  isFresh(entry: CacheEntry, maxAgeMinutes: number = this.maxAgeMinutes): boolean {
+    return Date.now() - new Date(entry.cachedAt).getTime() <= maxAgeMinutes * 60 * 1000;
+  }
+
+  put(data: any): CacheEntry {
+    const entry: CacheEntry = {
+      issueKey: data.issueKey,
+      updated: data.updated,
+      cachedAt: new Date().toISOString(),
+      data,
+    };
+    this.writeJson(this.entryPath(data.issueKey), entry);
+    return entry;
+  }
+
+  /**
+   * Drop an entry, e.g. after this server changed the issue
+   */
+  delete(issueKey: string): void {
+    fs.rmSync(this.entryPath(issueKey), { force: true });
+  }
+
+  /**
+   * Mark an entry as confirmed current, e.g. after Jira reported the same updated timestamp
+   */
+  touch(entry: CacheEntry): void {
+    entry.cachedAt = new Date().toISOString();
+    this.writeJson(this.entryPath(entry.issueKey), entry);
+  }
+
+  private readSyncState(): { [projectKey: string]: ProjectSyncState } {
+    try {
+      return JSON.parse(fs.readFileSync(this.syncStatePath, 'utf-8'));
+    } catch {
+      return {};
+    }
+  }
+
+  getSyncState(projectKey: string): ProjectSyncState | undefined {
+    return this.readSyncState()[projectKey.toUpperCase()];
+  }
+
+  setSyncState(projectKey: string, state: ProjectSyncState): void {
+    const all = this.readSyncState();
+    all[projectKey.toUpperCase()] = state;
+    this.writeJson(this.syncStatePath, all);
+  }
+
+  /**
+   * Describe the cache location, size and sync state
+   */
+  describe(): any {
+    return {
+      directory: this.directory,
+      maxAgeMinutes: this.maxAgeMinutes,
+      cachedIssues: fs.readdirSync(this.issuesDir).filter(file => file.endsWith('.json')).length,
+      projects: this.readSyncState(),
+    };
+  }
+}
+
+/**
+ * Pull a project's changed issues into the cache
+ * Incremental runs look back from the last sync (with a small overlap) and only refetch
+ * issues whose updated timestamp differs from the cached copy. Full runs also drop cached
+ * issues that are no longer in the project (deleted or moved).
+ */
+export async function syncProjectIssues(
+  cache: IssueCache,
+  jiraClient: JiraClient,
+  projectKey: string,
+  options: { full?: boolean; commentProperties?: boolean } = {}
+): Promise<any> {
+  const startedAt = new Date();
+  const state = cache.getSyncState(projectKey);
+  const incremental = !options.full && !!state;
+
+  // Relative dates avoid depending on the Jira user's time zone
+  let jql = `project = ${quoteJqlValue(projectKey)}`;
+  if (incremental) {
+    const minutesSince = Math.ceil((startedAt.getTime() - new Date(state!.lastSync).getTime()) / 60000) + 5;
+    jql += ` AND updated >= -${minutesSince}m`;
+  }
+  jql += ' ORDER BY updated ASC';
+
+  let scanned = 0;
+  let fetched = 0;
+  const seen = new Set<string>();
+  const failures: { issueKey: string; error: string }[] = [];
+  let nextPageToken: string | undefined;
+
+  do {
+    const page = await jiraClient.searchIssues(jql, 1000, { fields: ['updated'], nextPageToken });
+    scanned += page.issues.length;
+    page.issues.forEach((issue: any) => seen.add(issue.key.toUpperCase()));
+
+    const changed = page.issues.filter((issue: any) => cache.get(issue.key)?.updated !== issue.fields.updated);
+
+    // Fetch in batches to keep memory flat; the request layer bounds concurrency
+    for (let i = 0; i < changed.length; i += 50) {
+      await Promise.all(
+        changed.slice(i, i + 50).map(async (issue: any) => {
+          try {
+            cache.put(await jiraClient.getComprehensiveIssue(issue.key, { commentProperties: options.commentProperties }));
+            fetched++;
+          } catch (error) {
+            failures.push({ issueKey: issue.key, error: error instanceof Error ? error.message : String(error) });
+          }
+        })
+      );
+    }
+
+    nextPageToken = page.nextPageToken;
+  } while (nextPageToken);
+
+  // Only a full run sees every issue of the project
+  const removed = incremental ? [] : cache.keys(projectKey).filter(key => !seen.has(key));
+  removed.forEach(key => cache.delete(key));
+
+  // A failed issue keeps the previous sync point so the next run retries it
+  if (failures.length === 0) {
+    cache.setSyncState(projectKey, {
+      lastSync: startedAt.toISOString(),
+      lastFullSync: incremental ? state!.lastFullSync : startedAt.toISOString(),
+      issues: incremental ? Math.max(state!.issues, scanned) : scanned,
+    });
+  }
+
+  return {
+    projectKey,
+    mode: incremental ? 'incremental' : 'full',
+    jql,
+    scanned,
+    fetched,
+    unchanged: scanned - fetched - failures.length,
+    ...(removed.length > 0 ? { removed } : {}),
+    ...(failures.length > 0 ? { failures } : {}),
+    cache: cache.describe(),
+  };
+}
@@ -0,0 +1,240 @@
+/**
+ * Builds an issue's workflow timeline from its changelog
+ * Status segments, time in status (calendar and business hours), assignee hand-offs,
+ * reopens, first response time and priority changes.
+ */
+
+export interface BusinessHours {
+  startMinute: number; // Minutes after midnight, e.g. 540 for 09:00
+  endMinute: number; // Minutes after midnight, e.g. 1020 for 17:00; before startMinute for overnight shifts
+  workDays: number[]; // 0 = Sunday ... 6 = Saturday
+  utcOffsetMinutes: number; // Offset of the team's local time from UTC
+}
+
+export const DEFAULT_BUSINESS_HOURS: BusinessHours = {
+  startMinute: 9 * 60,
+  endMinute: 17 * 60,
+  workDays: [1, 2, 3, 4, 5],
+  utcOffsetMinutes: 0,
+};
+
+export interface TimelineInput {
+  created: string;
+  reporter?: string; // Reporter display name
+  status?: string; // Current status
+  statusCategory?: string; // Category key of the current status, 'done' once closed
+  resolutionDate?: string;
+  histories: any[]; // Changelog histories
+  comments?: { author?: string; created: string }[]; // Human comments only
+}
+
+const MS_PER_HOUR = 1000 * 60 * 60;
+const MS_PER_DAY = MS_PER_HOUR * 24;
+
+function round(hours: number): number {
+  return Math.round(hours * 100) / 100;
+}
+
+/**
+ * Parse business hour settings, e.g. hours "09:00-17:00", days "1-5" or "1,2,3,4,5", offset "+05:30".
+ * Hours may cross midnight, e.g. "22:00-06:00" for a night shift that starts on a work day.
+ */
+export function parseBusinessHours(hours?: string, days?: string, utcOffset?: string): BusinessHours {
+  const result: BusinessHours = { ...DEFAULT_BUSINESS_HOURS };
+
+  if (hours) {
+    const match = /^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})$/.exec(hours.trim());
+    if (!match) {
+      throw new Error(`Invalid business hours "${hours}". Expected e.g. "09:00-17:00"`);
+    }
+    result.startMinute = Number(match[1]) * 60 + Number(match[2]);
+    result.endMinute = Number(match[3]) * 60 + Number(match[4]);
+    if (
+      [match[2], match[4]].some(minutes => Number(minutes) > 59) ||
+      [result.startMinute, result.endMinute].some(minute => minute > 24 * 60) ||
+      result.startMinute === result.endMinute
+    ) {
+      throw new Error(`Invalid business hours "${hours}". Expected e.g. "09:00-17:00" with different start and end times`);
+    }
+  }
+
+  if (days) {
+    const range = /^(\d)\s*-\s*(\d)$/.exec(days.trim());
+    result.workDays = range
+      ? Array.from({ length: Number(range[2]) - Number(range[1]) + 1 }, (_, i) => Number(range[1]) + i)
+      : days.split(',').map(d => Number(d.trim()));
+    if (result.workDays.some(d => isNaN(d) || d < 0 || d > 6)) {
+      throw new Error(`Invalid business days "${days}". Expected e.g. "1-5" (0 = Sunday)`);
+    }
+  }
+
+  if (utcOffset) {
+    const match = /^([+-])(\d{2}):?(\d{2})$/.exec(utcOffset.trim());
+    if (!match) {
+      throw new Error(`Invalid UTC offset "${utcOffset}". Expected e.g. "+05:30"`);
+    }
+    result.utcOffsetMinutes = (match[1] === '-' ? -1 : 1) * (Number(match[2]) * 60 + Number(match[3]));
+  }
+
+  return result;
+}
+
+/**
+ * Business hours between two instants. A window that crosses midnight counts on the day it starts.
+ */
+export function businessHoursBetween(start: Date, end: Date, businessHours: BusinessHours): number {
+  const offset = businessHours.utcOffsetMinutes * 60 * 1000;
+  // Shift to the team's local time and work in UTC from there
+  const localStart = start.getTime() + offset;
+  const localEnd = end.getTime() + offset;
+  if (localEnd <= localStart) return 0;
+
+  const overnight = businessHours.endMinute < businessHours.startMinute;
+
+  let total = 0;
+  // Start a day early so the previous day's overnight window is counted
+  for (let day = Math.floor(localStart / MS_PER_DAY) * MS_PER_DAY - MS_PER_DAY; day < localEnd; day += MS_PER_DAY) {
+    if (!businessHours.workDays.includes(new Date(day).getUTCDay())) continue;
+
+    const windowStart = Math.max(localStart, day + businessHours.startMinute * 60 * 1000);
+    const windowEnd = Math.min(localEnd, day + (overnight ? MS_PER_DAY : 0) + businessHours.endMinute * 60 * 1000);
+    if (windowEnd > windowStart) {
+      total += windowEnd - windowStart;
+    }
+  }
+
+  return round(total / MS_PER_HOUR);
+}
+
+function duration(start: Date, end: Date, businessHours: BusinessHours) {
+  return {
+    calendarHours: round(Math.max(0, end.getTime() - start.getTime()) / MS_PER_HOUR),
+    businessHours: businessHoursBetween(start, end, businessHours),
+  };
+}
+
+interface FieldChange {
+  at: string;
+  by?: string;
+  from: string | null;
+  to: string | null;
+}
+
+function fieldChanges(histories: any[], fieldName: string): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const history of histories) {
+    for (const item of history.items || []) {
+      if (String(item.field).toLowerCase() === fieldName) {
+        changes.push({
+          at: history.created,
+          by: history.author?.displayName,
+          from: item.fromString ?? null,
+          to: item.toString ?? null,
+        });
+      }
+    }
+  }
+  return changes;
+}
+
+/**
+ * Build timeline input from getComprehensiveIssue data.
+ * Comments rejected by the filter (e.g. bots) do not count as a first response.
+ */
+export function timelineInputFromIssue(ticketData: any, isHumanComment: (comment: any) => boolean = () => true): TimelineInput {
+  return {
+    created: ticketData.created,
+    reporter: ticketData.reporter?.name,
+    status: ticketData.status,
+    statusCategory: ticketData.statusCategory,
+    resolutionDate: ticketData.resolutionDate,
+    histories: ticketData.changelog?.histories || [],
+    comments: (ticketData.comments || []).filter((c: any) => c && isHumanComment(c)),
+  };
+}
+
+export function buildIssueTimeline(
+  input: TimelineInput,
+  businessHours: BusinessHours = DEFAULT_BUSINESS_HOURS,
+  now: Date = new Date()
+): any {
+  const histories = [...(input.histories || [])].sort(
+    (a, b) => new Date(a.created).getTime() - new Date(b.created).getTime()
+  );
+  const created = new Date(input.created);
+
+  // Status segments
+  const statusChanges = fieldChanges(histories, 'status');
+  const segments: any[] = [];
+  let currentStatus = statusChanges[0]?.from ?? input.status ?? 'Unknown';
+  let segmentStart = created;
+  for (const change of statusChanges) {
+    const at = new Date(change.at);
+    segments.push({ status: currentStatus, from: segmentStart.toISOString(), to: at.toISOString(), ...duration(segmentStart, at, businessHours) });
+    currentStatus = change.to ?? 'Unknown';
+    segmentStart = at;
+  }
+  // A resolved or closed issue stops accruing time in its last status when it was resolved,
+  // or at the last transition if that came later (e.g. resolved, then moved to Closed)
+  const closed = !!input.resolutionDate || input.statusCategory === 'done';
+  const resolved = input.resolutionDate ? new Date(input.resolutionDate) : segmentStart;
+  const segmentEnd = closed ? new Date(Math.max(segmentStart.getTime(), resolved.getTime())) : now;
+  segments.push({
+    status: currentStatus,
+    from: segmentStart.toISOString(),
+    to: closed ? segmentEnd.toISOString() : null,
+    ...duration(segmentStart, segmentEnd, businessHours),
+  });
+
+  const timeInStatus: { [status: string]: { calendarHours: number; businessHours: number; visits: number } } = {};
+  for (const segment of segments) {
+    const entry = (timeInStatus[segment.status] ??= { calendarHours: 0, businessHours: 0, visits: 0 });
+    entry.calendarHours = round(entry.calendarHours + segment.calendarHours);
+    entry.businessHours = round(entry.businessHours + segment.businessHours);
+    entry.visits++;
+  }
+
+  // Assignee hand-offs
+  const assigneeHandoffs = fieldChanges(histories, 'assignee').map(change => ({
+    at: change.at,
+    from: change.from,
+    to: change.to,
+    by: change.by,
+  }));
+
+  // A reopen clears a previously set resolution
+  const reopens = fieldChanges(histories, 'resolution').filter(change => change.from && !change.to);
+
+  const priorityChanges = fieldChanges(histories, 'priority').map(change => ({
+    at: change.at,
+    from: change.from,
+    to: change.to,
+    by: change.by,
+  }));
+
+  // First response: earliest comment by someone other than the reporter
+  const firstResponse = (input.comments || [])
+    .filter(c => c.author && c.author !== input.reporter && new Date(c.created) >= created)
+    .sort((a, b) => new Date(a.created).getTime() - new Date(b.created).getTime())[0];
+
+  return {
+    statusTimeline: segments,
+    timeInStatus,
+    assigneeHandoffs,
+    handoffCount: assigneeHandoffs.length,
+    reopenCount: reopens.length,
+    reopens: reopens.map(change => ({ at: change.at, by: change.by, previousResolution: change.from })),
+    firstResponse: firstResponse
+      ? {
+          at: firstResponse.created,
+          by: firstResponse.author,
+          ...duration(created, new Date(firstResponse.created), businessHours),
+        }
+      : null,
+    priorityChanges,
+    resolution: input.resolutionDate
+      ? { resolved: input.resolutionDate, ...duration(created, new Date(input.resolutionDate), businessHours) }
+      : null,
+    changelogEntries: histories.length,
+  };
+}
@@ -2,279 +2,14 @@ import axios, { AxiosInstance } from 'axios';
 import * as fs from 'fs';
 import * as path from 'path';
 import FormData from 'form-data';
-
-/**
- * Parses inline formatting (bold, italic, strikethrough, code, links) in a text string
- * Returns an array of ADF text nodes with appropriate marks
- */
-function parseInlineFormatting(text: string): any[] {
-  const result: any[] = [];
-  let currentPos = 0;
-
-  // Combined regex that captures all inline formatting
-  // Order matters: links, code, bold, italic, strikethrough
-  const regex = /(\[([^\]]+)\]\(([^)]+)\)|`([^`]*)`|\*\*([^*]+)\*\*|__([^_]+)__|~~([^~]+)~~|\*([^*]+)\*|_([^_]+)_)/g;
-
-  let match;
-  while ((match = regex.exec(text)) !== null) {
-    // Add any plain text before this match
-    if (match.index > currentPos) {
-      const plainText = text.substring(currentPos, match.index);
-      if (plainText) {
-        result.push({
-          type: 'text',
-          text: plainText,
-        });
-      }
-    }
-
-    // Determine what type of formatting was matched
-    if (match[1] && match[2] && match[3]) {
-      // Link: [text](url)
-      result.push({
-        type: 'text',
-        text: match[2],
-        marks: [
-          {
-            type: 'link',
-            attrs: {
-              href: match[3],
-            },
-          },
-        ],
-      });
-    } else if (match[4] !== undefined) {
-      // Inline code: `text`
-      result.push({
-        type: 'text',
-        text: match[4],
-        marks: [{ type: 'code' }],
-      });
-    } else if (match[5]) {
-      // Bold: **text**
-      result.push({
-        type: 'text',
-        text: match[5],
-        marks: [{ type: 'strong' }],
-      });
-    } else if (match[6]) {
-      // Bold: __text__
-      result.push({
-        type: 'text',
-        text: match[6],
-        marks: [{ type: 'strong' }],
-      });
-    } else if (match[7]) {
-      // Strikethrough: ~~text~~
-      result.push({
-        type: 'text',
-        text: match[7],
-        marks: [{ type: 'strike' }],
-      });
-    } else if (match[8]) {
-      // Italic: *text*
-      result.push({
-        type: 'text',
-        text: match[8],
-        marks: [{ type: 'em' }],
-      });
-    } else if (match[9]) {
-      // Italic: _text_
-      result.push({
-        type: 'text',
-        text: match[9],
-        marks: [{ type: 'em' }],
-      });
-    }
-
-    currentPos = match.index + match[0].length;
-  }
-
-  // Add any remaining plain text
-  if (currentPos < text.length) {
-    const plainText = text.substring(currentPos);
-    if (plainText) {
-      result.push({
-        type: 'text',
-        text: plainText,
-      });
-    }
-  }
-
-  // If no formatting was found, return the original text
-  if (result.length === 0) {
-    result.push({
-      type: 'text',
-      text: text,
-    });
-  }
-
-  return result;
-}
-
-/**
- * Converts plain text to Atlassian Document Format (ADF)
- * Preserves line breaks, code blocks, and basic formatting including:
- * - Bold (**text** or __text__)
- * - Italic (*text* or _text_)
- * - Strikethrough (~~text~~)
- * - Inline code (`code`)
- * - Links ([text](url))
- * - Headings (# H1, ## H2, etc.)
- */
-function textToADF(text: string): any {
-  const lines = text.split('\n');
-  const content: any[] = [];
-  let inCodeBlock = false;
-  let codeBlockLines: string[] = [];
-  let codeLanguage = '';
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-
-    // Handle code blocks (```language or ```)
-    if (line.trim().startsWith('```')) {
-      if (!inCodeBlock) {
-        // Starting a code block
-        inCodeBlock = true;
-        codeLanguage = line.trim().substring(3).trim();
-        codeBlockLines = [];
-      } else {
-        // Ending a code block
-        inCodeBlock = false;
-        content.push({
-          type: 'codeBlock',
-          attrs: codeLanguage ? { language: codeLanguage } : {},
-          content: [
-            {
-              type: 'text',
-              text: codeBlockLines.join('\n'),
-            },
-          ],
-        });
-        codeBlockLines = [];
-        codeLanguage = '';
-      }
-      continue;
-    }
-
-    // Collect lines inside code block
-    if (inCodeBlock) {
-      codeBlockLines.push(line);
-      continue;
-    }
-
-    // Skip empty lines - JIRA will handle spacing between elements automatically
-    if (line.trim() === '') {
-      continue;
-    }
-
-    // Handle headings (# H1, ## H2, etc.)
-    const headingMatch = line.match(/^(#{1,6})\s+(.+)$/);
-    if (headingMatch) {
-      const level = headingMatch[1].length;
-      const headingText = headingMatch[2];
-      content.push({
-        type: 'heading',
-        attrs: { level },
-        content: parseInlineFormatting(headingText),
-      });
-      continue;
-    }
-
-    // Handle bullet lists (lines starting with -, *, or •)
-    if (line.trim().match(/^[-*•]\s/)) {
-      const listItem = line.trim().substring(2);
-      // Check if we need to create a new list or add to existing
-      if (content.length > 0 && content[content.length - 1].type === 'bulletList') {
-        content[content.length - 1].content.push({
-          type: 'listItem',
-          content: [
-            {
-              type: 'paragraph',
-              content: parseInlineFormatting(listItem),
-            },
-          ],
-        });
-      } else {
-        content.push({
-          type: 'bulletList',
-          content: [
-            {
-              type: 'listItem',
-              content: [
-                {
-                  type: 'paragraph',
-                  content: parseInlineFormatting(listItem),
-                },
-              ],
-            },
-          ],
-        });
-      }
-      continue;
-    }
-
-    // Handle numbered lists (lines starting with 1., 2., etc.)
-    if (line.trim().match(/^\d+\.\s/)) {
-      const listItem = line.trim().replace(/^\d+\.\s/, '');
-      // Check if we need to create a new list or add to existing
-      if (content.length > 0 && content[content.length - 1].type === 'orderedList') {
-        content[content.length - 1].content.push({
-          type: 'listItem',
-          content: [
-            {
-              type: 'paragraph',
-              content: parseInlineFormatting(listItem),
-            },
-          ],
-        });
-      } else {
-        content.push({
-          type: 'orderedList',
-          content: [
-            {
-              type: 'listItem',
-              content: [
-                {
-                  type: 'paragraph',
-                  content: parseInlineFormatting(listItem),
-                },
-              ],
-            },
-          ],
-        });
-      }
-      continue;
-    }
-
-    // Handle regular paragraphs with inline formatting
-    content.push({
-      type: 'paragraph',
-      content: parseInlineFormatting(line),
-    });
-  }
-
-  // Handle unclosed code block
-  if (inCodeBlock && codeBlockLines.length > 0) {
-    content.push({
-      type: 'codeBlock',
-      attrs: codeLanguage ? { language: codeLanguage } : {},
-      content: [
-        {
-          type: 'text',
-          text: codeBlockLines.join('\n'),
-        },
-      ],
-    });
-  }
-
-  return {
-    type: 'doc',
-    version: 1,
-    content: content.length > 0 ? content : [{ type: 'paragraph', content: [] }],
-  };
-}
+import { applyRequestLayer, RequestLayer, RequestLayerOptions } from './request-layer.js';
+import { applyAuth, AuthProvider } from './auth.js';
+import { adfToMarkdown, AdfRenderOptions, findMentionIds } from './adf-to-markdown.js';
+import { findMentionEmails, MarkdownToAdfOptions, textToADF } from './markdown-to-adf.js';
+import { markdownToWiki, MarkdownToWikiOptions, wikiToMarkdown } from './wiki-markup.js';
+import { Deployment } from './deployment.js';
+import { FieldInfo, FieldMetadata, FieldRegistry, fieldType, formatFieldValue, ScreenField } from './field-registry.js';
+import { formatDuration, parseDuration } from './worklogs.js';
 
 export interface JiraIssue {
   key: string;
@@ -325,25 +60,246 @@ export interface AttachmentUpload {
   content: string; // URL to download the attachment
 }
 
+export interface SearchOptions {
+  fields?: string[]; // Field ids or display names, e.g. ["priority", "labels", "Pod"]
+  expand?: string; // e.g. "changelog,renderedFields"
+  compact?: boolean; // Return flattened rows keyed by field display name
+  nextPageToken?: string; // Cursor from a previous search to continue from
+}
+
+/**
+ * Hard ceiling on the number of issues returned by a single search call
+ */
+const MAX_SEARCH_RESULTS = 1000;
+
+const DEFAULT_SEARCH_FIELDS = ['summary', 'status', 'assignee', 'reporter', 'created', 'updated', 'issuetype'];
+
+export interface JiraTransition {
+  id: string;
+  name: string;
+  toStatus: string;
+  toStatusCategory?: string;
+  requiredFields: {
+    id: string;
+    name: string;
+    allowedValues?: string[];
+  }[];
+}
+
+export interface WorklogInput {
+  timeSpent?: string; // Human duration, e.g. "1h 30m"
+  started?: string; // When the work started (ISO date or date-time); defaults to now
+  comment?: string; // Markdown
+  adjustEstimate?: 'auto' | 'leave' | 'new' | 'manual';
+  newEstimate?: string; // With adjustEstimate "new"
+  reduceBy?: string; // With adjustEstimate "manual"
+}
+
+export interface JiraIssueLink {
+  id: string;
+  type: string; // Link type name, e.g. "Blocks"
+  relation: string; // Relation as seen from this issue, e.g. "blocks" or "is blocked by"
+  direction: 'outward' | 'inward';
+  issueKey: string; // The linked issue
+  summary?: string;
+  status?: string;
+  statusCategory?: string;
+}
+
+/**
+ * Find a transition by id, transition name or target status name
+ */
+export function matchTransition(transitions: JiraTransition[], wanted: string): JiraTransition | undefined {
+  const name = wanted.toLowerCase().trim();
+  return (
+    transitions.find(t => t.id === wanted) ||
+    transitions.find(t => t.name.toLowerCase() === name) ||
+    transitions.find(t => t.toStatus?.toLowerCase() === name)
+  );
+}
+
+/**
+ * The Cloud bulk edit input for a field value already coerced into Jira's shape, as
+ * [input type, entry], or undefined when the bulk edit endpoint cannot set it
+ */
+function bulkEditInput(
+  fieldId: string,
+  schema: any,
+  value: any,
+  optionIds: { [label: string]: string }
+): [string, any] | undefined {
+  if (value === null || value === undefined || !schema) return undefined;
+  const optionId = (option: any) => optionIds[option?.value ?? option?.name];
+
+  if (fieldId === 'priority') {
+    return optionId(value) ? ['priority', { priorityId: optionId(value) }] : undefined;
+  }
+  if (fieldId === 'labels') {
+    const labels = value.map((name: string) => ({ name }));
+    return ['labelsFields', { fieldId, labels, bulkEditMultiSelectFieldOption: 'REPLACE' }];
+  }
+  if (!schema.custom) {
+    return value.type === 'doc' ? ['richTextFields', { fieldId, richText: { adfValue: value } }] : undefined;
+  }
+
+  switch (fieldType(schema)) {
+    case 'option':
+      return optionId(value) ? ['singleSelectFields', { fieldId, option: { optionId: optionId(value) } }] : undefined;
+    case 'array<option>':
+      return value.every(optionId)
+        ? ['multipleSelectFields', { fieldId, options: value.map((option: any) => ({ optionId: optionId(option) })) }]
+        : undefined;
+    case 'number':
+      return ['clearableNumberFields', { fieldId, value }];
+    case 'date':
+      return ['datePickerFields', { fieldId, date: { formattedDate: value } }];
+    case 'datetime':
+      return ['dateTimePickerFields', { fieldId, dateTime: { formattedDateTime: value } }];
+    case 'user':
+      return ['singleSelectClearableUserPickerFields', { fieldId, user: value }];
+    case 'array<user>':
+      return ['multipleSelectClearableUserPickerFields', { fieldId, users: value, bulkEditMultiSelectFieldOption: 'REPLACE' }];
+    case 'string':
+      if (value.type === 'doc') return ['richTextFields', { fieldId, richText: { adfValue: value } }];
+      if (schema.custom.endsWith(':url')) return ['urlFields', { fieldId, url: value }];
+      return schema.custom.endsWith(':textfield') ? ['singleLineTextFields', { fieldId, text: value }] : undefined;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Error raised for failed Jira API requests
+ * Carries Jira's errorMessages and field-level errors so callers can correct the request
+ */
+export class JiraApiError extends Error {
+  public context?: string; // What was being attempted, e.g. 'transition "Done"'
+
+  constructor(
+    public status: number | undefined,
+    public errorMessages: string[],
+    public fieldErrors: { [fieldId: string]: string },
+    public request: { method: string; url: string },
+    public fieldNames: { [fieldId: string]: string } = {},
+    private detail?: string
+  ) {
+    super('');
+    this.name = 'JiraApiError';
+    this.message = this.describe();
+  }
+
+  /**
+   * Rebuild the message, e.g. after field names or context have been added
+   */
+  describe(): string {
+    const parts: string[] = [...this.errorMessages];
+
+    for (const [fieldId, message] of Object.entries(this.fieldErrors)) {
+      const fieldName = this.fieldNames[fieldId];
+      const label = fieldName && fieldName !== fieldId ? `field ${fieldId} '${fieldName}'` : `field ${fieldId}`;
+      parts.push(`${label}: ${message}`);
+    }
+
+    if (parts.length === 0) {
+      parts.push(this.detail || 'Request failed');
+    }
+
+    const statusText = this.status ? `Jira returned ${this.status}` : 'Jira request failed';
+    const contextText = this.context ? ` for ${this.context}` : '';
+    return `${statusText} on ${this.request.method} ${this.request.url}${contextText}: ${parts.join('; ')}`;
+  }
+
+  withContext(context: string): this {
+    this.context = context;
+    this.message = this.describe();
+    return this;
+  }
+
+  toJSON(): any {
+    return {
+      status: this.status,
+      errorMessages: this.errorMessages,
+      fieldErrors: Object.entries(this.fieldErrors).map(([fieldId, message]) => ({
+        fieldId,
+        fieldName: this.fieldNames[fieldId],
+        message,
+      })),
+      request: this.request,
+      context: this.context,
+    };
+  }
+}
+
+/**
+ * Convert an axios error into a JiraApiError with Jira's error body and field names
+ * Field names are looked up only when Jira reported field-level errors.
+ */
+export async function toJiraApiError(
+  error: any,
+  getFieldNames: () => Promise<{ [fieldId: string]: string }> = async () => ({})
+): Promise<never> {
+  if (error instanceof JiraApiError || !axios.isAxiosError(error)) {
+    throw error;
+  }
+
+  let data: any = error.response?.data;
+  if (data instanceof ArrayBuffer || Buffer.isBuffer(data)) {
+    try {
+      data = JSON.parse(Buffer.from(data as ArrayBuffer).toString('utf-8'));
+    } catch {
+      data = undefined;
+    }
+  }
+
+  const errorMessages: string[] = Array.isArray(data?.errorMessages) ? data.errorMessages : [];
+  if (typeof data?.message === 'string') {
+    errorMessages.push(data.message);
+  }
+  const fieldErrors: { [fieldId: string]: string } = data?.errors && typeof data.errors === 'object' ? data.errors : {};
+
+  const config = error.config;
+  const request = {
+    method: (config?.method || 'get').toUpperCase(),
+    url: config?.url || '',
+  };
+
+  const fieldNames = Object.keys(fieldErrors).length > 0 ? await getFieldNames() : {};
+  throw new JiraApiError(error.response?.status, errorMessages, fieldErrors, request, fieldNames, error.message);
+}
+
 export class JiraClient {
   private client: AxiosInstance;
+  private fieldRegistry: FieldRegistry;
+  private userNames = new Map<string, string>(); // Display names by account id, for mentions without text
+  private projectKeysPromise: Promise<string[]> | undefined;
 
   constructor(
-    private jiraUrl: string,
-    private email: string,
-    private apiToken: string
+    private auth: AuthProvider,
+    requestLayer: RequestLayer | RequestLayerOptions = {},
+    private deployment: Deployment = new Deployment(auth)
   ) {
     this.client = axios.create({
-      baseURL: `${jiraUrl}/rest/api/3`,
-      auth: {
-        username: email,
-        password: apiToken,
-      },
       headers: {
         'Accept': 'application/json',
         'Content-Type': 'application/json',
       },
     });
+
+    applyRequestLayer(this.client, requestLayer);
+    applyAuth(this.client, auth, () => this.deployment.restApiPath());
+    this.client.interceptors.response.use(undefined, error => toJiraApiError(error, () => this.getFieldNames()));
+    this.fieldRegistry = new FieldRegistry(this.client);
+  }
+
+  /**
+   * Field id to display name map, loaded once. Best effort: returns an empty map on failure.
+   */
+  private async getFieldNames(): Promise<{ [fieldId: string]: string }> {
+    try {
+      return await this.fieldRegistry.names();
+    } catch {
+      return {};
+    }
   }
 
   async getIssue(issueKey: string, fields?: string[]): Promise<JiraIssue> {
@@ -354,9 +310,10 @@ export class JiraClient {
 
   /**
    * Get comprehensive issue details including ALL fields, comments, attachments, custom fields, etc.
-   * Returns structured data ready for analysis
+   * Returns structured data ready for analysis. With commentProperties, comments are fetched
+   * separately with their entity properties (for property-based comment rules).
    */
-  async getComprehensiveIssue(issueKey: string): Promise<any> {
+  async getComprehensiveIssue(issueKey: string, options: { commentProperties?: boolean } = {}): Promise<any> {
     // Fetch the issue with all fields
     const response = await this.client.get(`/issue/${issueKey}`, {
       params: {
@@ -365,6 +322,25 @@ export class JiraClient {
     });
 
     const issue = response.data;
+
+    // The expanded changelog is truncated (100 entries); page through the rest
+    if (issue.changelog && issue.changelog.total > (issue.changelog.histories || []).length) {
+      const histories = await this.getChangelog(issueKey);
+      issue.changelog = { ...issue.changelog, startAt: 0, maxResults: histories.length, histories };
+    }
+
+    if (options.commentProperties) {
+      issue.fields.comment = { comments: await this.fetchComments(issueKey, true) };
+    }
+
+    // Lets media nodes in descriptions and comments link to their attachments
+    const renderOptions: AdfRenderOptions = {
+      attachments: issue.fields.attachment || [],
+      mentionNames: await this.mentionNames(
+        issue.fields.description,
+        ...(issue.fields.comment?.comments || []).map((comment: any) => comment.body)
+      ),
+    };
     
     // Extract and structure all the important information
     const comprehensiveData = {
@@ -372,10 +348,11 @@ export class JiraClient {
       summary: issue.fields.summary,
       issueType: issue.fields.issuetype?.name,
       status: issue.fields.status?.name,
+      statusCategory: issue.fields.status?.statusCategory?.key,
       priority: issue.fields.priority?.name,
       
       // Description
-      description: this.extractDescription(issue.fields.description),
+      description: this.extractDescription(issue.fields.description, renderOptions),
       
       // People
       reporter: {
@@ -394,13 +371,16 @@ export class JiraClient {
       resolutionDate: issue.fields.resolutiondate,
       
       // Comments
-      comments: this.extractComments(issue.fields.comment),
+      comments: this.extractComments(issue.fields.comment, renderOptions),
       
       // Attachments
       attachments: this.extractAttachments(issue.fields.attachment),
+
+      // Issue links
+      issueLinks: this.extractIssueLinks(issue.fields.issuelinks),
       
       // Custom fields (including RCA and other templates)
-      customFields: this.extractCustomFields(issue.fields, issue.names),
+      customFields: this.extractCustomFields(issue.fields, issue.names, issue.schema),
       
       // All other fields
       allFields: issue.fields,
@@ -416,70 +396,126 @@ export class JiraClient {
   }
 
   /**
-   * Extract description in readable format
+   * Get the complete changelog of an issue, paging through /issue/{key}/changelog.
+   * Data Center has no changelog endpoint but returns the whole changelog with the issue.
    */
-  private extractDescription(description: any): string {
-    if (!description) return '';
-    
-    // If it's ADF format, convert to plain text
-    if (description.type === 'doc' && description.content) {
-      return this.adfToPlainText(description);
+  async getChangelog(issueKey: string): Promise<any[]> {
+    if (!(await this.deployment.isCloud())) {
+      const response = await this.client.get(`/issue/${issueKey}`, {
+        params: { fields: 'key', expand: 'changelog' },
+      });
+      return response.data.changelog?.histories || [];
     }
-    
-    return String(description);
+
+    const histories: any[] = [];
+    let startAt = 0;
+    let isLast = false;
+
+    while (!isLast) {
+      const response = await this.client.get(`/issue/${issueKey}/changelog`, {
+        params: { startAt, maxResults: 100 },
+      });
+      const page = response.data.values || [];
+      histories.push(...page);
+      startAt += page.length;
+      isLast = response.data.isLast !== false || page.length === 0;
+    }
+
+    return histories;
   }
 
   /**
-   * Convert ADF to plain text for easier reading
+   * Extract description in readable format
    */
-  private adfToPlainText(adf: any): string {
-    if (!adf || !adf.content) return '';
-    
-    const lines: string[] = [];
+  private extractDescription(description: any, renderOptions: AdfRenderOptions = {}): string {
+    if (!description) return '';
     
-    for (const node of adf.content) {
-      if (node.type === 'paragraph' && node.content) {
-        const text = node.content.map((c: any) => c.text || '').join('');
-        lines.push(text);
-      } else if (node.type === 'codeBlock' && node.content) {
-        const code = node.content.map((c: any) => c.text || '').join('');
-        lines.push('```\n' + code + '\n```');
-      } else if (node.type === 'heading' && node.content) {
-        const text = node.content.map((c: any) => c.text || '').join('');
-        const level = '#'.repeat(node.attrs?.level || 1);
-        lines.push(level + ' ' + text);
-      } else if (node.type === 'bulletList' && node.content) {
-        for (const item of node.content) {
-          if (item.type === 'listItem' && item.content) {
-            for (const para of item.content) {
-              if (para.content) {
-                const text = para.content.map((c: any) => c.text || '').join('');
-                lines.push('- ' + text);
-              }
-            }
-          }
-        }
-      }
+    // If it's ADF format, convert to markdown
+    if (description.type === 'doc' && description.content) {
+      return adfToMarkdown(description, renderOptions);
+    }
+
+    // Data Center returns rich text as wiki markup
+    if (typeof description === 'string' && this.deployment.current === 'datacenter') {
+      return wikiToMarkdown(description);
     }
     
-    return lines.join('\n');
+    return String(description);
   }
 
   /**
    * Extract and format comments
    */
-  private extractComments(commentData: any): any[] {
+  private extractComments(commentData: any, renderOptions: AdfRenderOptions = {}): any[] {
     if (!commentData || !commentData.comments) return [];
     
     return commentData.comments.map((comment: any) => ({
       id: comment.id,
       author: comment.author?.displayName,
+      authorAccountId: comment.author?.accountId,
+      authorAccountType: comment.author?.accountType,
       created: comment.created,
       updated: comment.updated,
-      body: this.extractDescription(comment.body),
+      body: this.extractDescription(comment.body, renderOptions),
+      ...(comment.properties
+        ? {
+            properties: Object.fromEntries(comment.properties.map((p: any) => [p.key, p.value])),
+          }
+        : {}),
     }));
   }
 
+  /**
+   * Get all comments of an issue, optionally including comment properties
+   */
+  async getComments(issueKey: string, includeProperties: boolean = false): Promise<any[]> {
+    const comments = await this.fetchComments(issueKey, includeProperties);
+    return this.extractComments({ comments }, { mentionNames: await this.mentionNames(...comments.map(c => c.body)) });
+  }
+
+  /**
+   * Page through an issue's raw comments
+   */
+  private async fetchComments(issueKey: string, includeProperties: boolean): Promise<any[]> {
+    const comments: any[] = [];
+    let startAt = 0;
+    let total = Infinity;
+
+    while (comments.length < total) {
+      const response = await this.client.get(`/issue/${issueKey}/comment`, {
+        params: {
+          startAt,
+          maxResults: 100,
+          ...(includeProperties ? { expand: 'properties' } : {}),
+        },
+      });
+      const page = response.data.comments || [];
+      comments.push(...page);
+      total = response.data.total ?? comments.length;
+      startAt += page.length;
+      if (page.length === 0) break;
+    }
+
+    return comments;
+  }
+
+  /**
+   * Display names for the mentions in ADF documents that carry no text. Names are looked up
+   * once per account and cached; mentions that cannot be resolved keep their account id.
+   */
+  private async mentionNames(...adfs: any[]): Promise<{ [accountId: string]: string }> {
+    for (const accountId of findMentionIds(...adfs)) {
+      if (this.userNames.has(accountId)) continue;
+      try {
+        const response = await this.client.get('/user', { params: { accountId } });
+        this.userNames.set(accountId, response.data.displayName || accountId);
+      } catch {
+        this.userNames.set(accountId, accountId);
+      }
+    }
+    return Object.fromEntries(this.userNames);
+  }
+
   /**
    * Extract attachment metadata
    */
@@ -496,10 +532,32 @@ export class JiraClient {
     }));
   }
 
+  /**
+   * Extract issue links as seen from the issue
+   */
+  private extractIssueLinks(issueLinks: any[]): JiraIssueLink[] {
+    if (!issueLinks) return [];
+
+    return issueLinks.map((link: any) => {
+      const direction = link.outwardIssue ? 'outward' : 'inward';
+      const linked = link.outwardIssue || link.inwardIssue;
+      return {
+        id: link.id,
+        type: link.type?.name,
+        relation: direction === 'outward' ? link.type?.outward : link.type?.inward,
+        direction,
+        issueKey: linked?.key,
+        summary: linked?.fields?.summary,
+        status: linked?.fields?.status?.name,
+        statusCategory: linked?.fields?.status?.statusCategory?.key,
+      };
+    });
+  }
+
   /**
    * Extract custom fields with their names
    */
-  private extractCustomFields(fields: any, names: any): any {
+  private extractCustomFields(fields: any, names: any, schema: any = {}): any {
     const customFields: any = {};
     
     // Iterate through all fields and identify custom fields
@@ -507,137 +565,908 @@ export class JiraClient {
       // Custom fields typically start with 'customfield_'
       if (fieldId.startsWith('customfield_')) {
         const fieldName = names?.[fieldId] || fieldId;
-        customFields[fieldName] = this.formatCustomFieldValue(value);
+        customFields[fieldName] =
+          typeof value === 'string' && schema?.[fieldId]?.custom?.endsWith(':textarea')
+            ? this.extractDescription(value)
+            : formatFieldValue(value, schema?.[fieldId]);
       }
     }
     
     return customFields;
   }
 
-  /**
-   * Format custom field values for better readability
-   */
-  private formatCustomFieldValue(value: any): any {
-    if (!value) return null;
-    
-    // Handle different custom field types
-    if (typeof value === 'object') {
-      // If it's ADF format (like description fields)
-      if (value.type === 'doc') {
-        return this.adfToPlainText(value);
-      }
-      
-      // If it has a value property
-      if (value.value) {
-        return value.value;
-      }
-      
-      // If it has a name property
-      if (value.name) {
-        return value.name;
-      }
-      
-      // If it's an array
-      if (Array.isArray(value)) {
-        return value.map(v => this.formatCustomFieldValue(v));
-      }
-    }
-    
-    return value;
-  }
-
-  async searchIssues(jql: string, maxResults: number = 50): Promise<any> {
+  async searchIssues(jql: string, maxResults: number = 50, options: SearchOptions = {}): Promise<any> {
     let allIssues: any[] = [];
-    let nextPageToken: string | undefined = undefined;
+    let nextPageToken: string | undefined = options.nextPageToken;
     let isLast = false;
+
+    // Never pull more than the safety ceiling in one call; the caller can resume with the cursor
+    const limit = Math.min(maxResults, MAX_SEARCH_RESULTS);
+
+    // Resolve friendly field names (e.g. "Pod", "Customer Tier") to field ids
+    const metadata = options.fields?.length || options.compact ? await this.getFieldMetadata() : undefined;
+    const fieldIds = options.fields?.length
+      ? options.fields.map(f => (f.startsWith('*') || f.startsWith('-') ? f : this.resolveFieldId(f, metadata!)))
+      : DEFAULT_SEARCH_FIELDS;
     
-    // Keep fetching until we get all results or hit maxResults
-    while (!isLast && allIssues.length < maxResults) {
-      const params: any = {
+    // Keep fetching until we get all results or hit the limit
+    while (allIssues.length < limit) {
+      const page = await this.searchPage(
         jql,
-        maxResults: Math.min(100, maxResults - allIssues.length), // Fetch up to 100 per page
-        fields: 'summary,status,assignee,reporter,created,updated,issuetype',
-      };
-      
-      if (nextPageToken) {
-        params.nextPageToken = nextPageToken;
-      }
-      
-      const response = await this.client.get('/search/jql', { params });
-      const data = response.data;
+        Math.min(100, limit - allIssues.length), // Fetch up to 100 per page
+        fieldIds,
+        options.expand,
+        nextPageToken
+      );
       
-      allIssues = allIssues.concat(data.issues || []);
-      isLast = data.isLast !== false; // If isLast is missing or true, stop
-      nextPageToken = data.nextPageToken;
+      allIssues = allIssues.concat(page.issues);
+      isLast = page.isLast;
+      nextPageToken = page.nextPageToken;
       
-      // Break if no more issues or no next page token
-      if (!data.issues || data.issues.length === 0 || (!nextPageToken && !isLast)) {
+      // Stop on the last page or an empty page
+      if (isLast || page.issues.length === 0) {
         break;
       }
     }
     
     return {
-      issues: allIssues,
+      issues: options.compact ? allIssues.map(issue => this.projectIssue(issue, metadata!)) : allIssues,
       total: allIssues.length,
-      isLast: true,
+      isLast,
+      // Pass back as nextPageToken to continue where this call stopped
+      nextPageToken: isLast ? undefined : nextPageToken,
+      ...(maxResults > MAX_SEARCH_RESULTS ? { limitedTo: MAX_SEARCH_RESULTS } : {}),
     };
   }
 
-  async createIssue(params: {
-    project: string;
-    summary: string;
-    description?: string;
-    issueType: string;
-  }): Promise<any> {
-    const response = await this.client.post('/issue', {
-      fields: {
-        project: {
-          key: params.project,
-        },
-        summary: params.summary,
-        description: params.description ? textToADF(params.description) : undefined,
-        issuetype: {
-          name: params.issueType,
-        },
-      },
-    });
-    return response.data;
-  }
-
-  async updateIssue(
-    issueKey: string,
-    params: {
-      summary?: string;
-      description?: string;
-    }
-  ): Promise<any> {
-    const fields: any = {};
+  /**
+   * Fetch one page of search results. Cloud pages with cursors from /search/jql; Data Center
+   * pages with startAt offsets from /search, handed out as the same string nextPageToken.
+   */
+  private async searchPage(
+    jql: string,
+    maxResults: number,
+    fields: string[],
+    expand: string | undefined,
+    pageToken: string | undefined
+  ): Promise<{ issues: any[]; isLast: boolean; nextPageToken?: string }> {
+    if (await this.deployment.isCloud()) {
+      const params: any = { jql, maxResults, fields: fields.join(',') };
+      if (expand) {
+        params.expand = expand;
+      }
+      if (pageToken) {
+        params.nextPageToken = pageToken;
+      }
 
-    if (params.summary) {
-      fields.summary = params.summary;
+      const { data } = await this.client.get('/search/jql', { params });
+      return {
+        issues: data.issues || [],
+        isLast: data.isLast !== false || !data.nextPageToken, // If isLast is missing or true, stop
+        nextPageToken: data.nextPageToken,
+      };
     }
 
-    if (params.description) {
-      fields.description = textToADF(params.description);
+    const startAt = pageToken ? Number(pageToken) : 0;
+    if (!Number.isInteger(startAt) || startAt < 0) {
+      throw new Error(`Invalid nextPageToken "${pageToken}": Jira Data Center searches continue from a result offset`);
     }
 
-    await this.client.put(`/issue/${issueKey}`, { fields });
-    return { success: true, message: `Issue ${issueKey} updated successfully` };
+    const { data } = await this.client.post('/search', {
+      jql,
+      startAt,
+      maxResults,
+      fields,
+      ...(expand ? { expand: expand.split(',').map(item => item.trim()) } : {}),
+    });
+    const issues = data.issues || [];
+    const nextStartAt = startAt + issues.length;
+    return {
+      issues,
+      isLast: issues.length === 0 || nextStartAt >= (data.total ?? nextStartAt),
+      nextPageToken: String(nextStartAt),
+    };
   }
 
-  async addComment(issueKey: string, comment: string, attachments?: string[]): Promise<any> {
-    // First, add the comment
-    const response = await this.client.post(`/issue/${issueKey}/comment`, {
-      body: textToADF(comment),
+  /**
+   * Search issues and return their text as Markdown: summary, description and comments.
+   * Used for local text analysis such as similar-issue ranking.
+   */
+  async searchIssueTexts(jql: string, maxResults: number = 100): Promise<any[]> {
+    const result = await this.searchIssues(jql, maxResults, {
+      fields: ['summary', 'description', 'comment', 'status', 'resolution', 'issuetype', 'created'],
     });
 
-    // If attachments are provided, upload them
-    if (attachments && attachments.length > 0) {
-      const uploadedAttachments: AttachmentUpload[] = [];
+    const renderOptions: AdfRenderOptions = {
+      mentionNames: await this.mentionNames(
+        ...result.issues.flatMap((issue: any) => [
+          issue.fields.description,
+          ...(issue.fields.comment?.comments || []).map((comment: any) => comment.body),
+        ])
+      ),
+    };
 
-      for (const filePath of attachments) {
-        try {
-          const uploaded = await this.uploadAttachment(issueKey, filePath);
+    return result.issues.map((issue: any) => ({
+      issueKey: issue.key,
+      summary: issue.fields.summary,
+      issueType: issue.fields.issuetype?.name,
+      status: issue.fields.status?.name,
+      resolution: issue.fields.resolution?.name,
+      created: issue.fields.created,
+      description: this.extractDescription(issue.fields.description, renderOptions),
+      comments: this.extractComments(issue.fields.comment, renderOptions),
+    }));
+  }
+
+  /**
+   * Get an approximate count of issues matching a JQL query without fetching them.
+   * Data Center reports the exact total of an empty search page instead.
+   */
+  async countIssues(jql: string): Promise<any> {
+    if (!(await this.deployment.isCloud())) {
+      const response = await this.client.post('/search', { jql, maxResults: 0, fields: ['key'] });
+      return {
+        jql,
+        count: response.data.total,
+      };
+    }
+
+    const response = await this.client.post('/search/approximate-count', { jql });
+    return {
+      jql,
+      approximateCount: response.data.count,
+    };
+  }
+
+  /**
+   * Children of parent issues such as epics, each with its parent's key in fields.parent.key.
+   * Cloud links children through the parent field; Data Center links epic children
+   * through the "Epic Link" custom field instead.
+   */
+  async searchChildIssues(parentKeys: string[], maxResults: number, fields: string[]): Promise<any[]> {
+    const keys = parentKeys.join(', ');
+    if (await this.deployment.isCloud()) {
+      const result = await this.searchIssues(`parent in (${keys}) ORDER BY key`, maxResults, { fields: [...fields, 'parent'] });
+      return result.issues;
+    }
+
+    // Without Jira Software there are no epics to expand
+    const epicLink = [...(await this.fieldRegistry.fields()).values()].find(field => field.name === 'Epic Link');
+    if (!epicLink) return [];
+
+    const result = await this.searchIssues(`"Epic Link" in (${keys}) ORDER BY key`, maxResults, {
+      fields: [...fields, epicLink.id],
+    });
+    // Children with no Epic Link value are left without a parent rather than given an empty one
+    return result.issues.map((issue: any) => {
+      const epicKey = issue.fields?.[epicLink.id];
+      return epicKey ? { ...issue, fields: { ...issue.fields, parent: { key: epicKey } } } : issue;
+    });
+  }
+
+  /**
+   * Flatten an issue into a single row keyed by field display name
+   */
+  private projectIssue(issue: any, metadata: FieldMetadata): any {
+    const row: any = { key: issue.key };
+
+    for (const [fieldId, value] of Object.entries(issue.fields || {})) {
+      const fieldName = metadata.names[fieldId] || fieldId;
+      row[fieldName] = formatFieldValue(value, metadata.schema[fieldId]);
+    }
+
+    if (issue.changelog) {
+      row.changelog = issue.changelog;
+    }
+
+    return row;
+  }
+
+  async createIssue(params: {
+    project: string;
+    summary: string;
+    description?: string;
+    issueType: string;
+    fields?: { [field: string]: any };
+  }): Promise<any> {
+    const extraFields = params.fields
+      ? await this.buildFieldsPayload(
+          params.fields,
+          await this.getFieldMetadata(() => this.fieldRegistry.createFields(params.project, params.issueType))
+        )
+      : {};
+
+    const response = await this.client.post('/issue', {
+      fields: {
+        ...extraFields,
+        project: {
+          key: params.project,
+        },
+        summary: params.summary,
+        description: params.description ? await this.toRichText(params.description) : undefined,
+        issuetype: {
+          name: params.issueType,
+        },
+      },
+    });
+    return response.data;
+  }
+
+  async updateIssue(
+    issueKey: string,
+    params: {
+      summary?: string;
+      description?: string;
+      fields?: { [field: string]: any };
+      rawFields?: { [fieldId: string]: any }; // Already in Jira's shape (e.g. recorded values), sent unchanged
+    }
+  ): Promise<any> {
+    const fields: any = params.fields
+      ? await this.buildFieldsPayload(params.fields, await this.getFieldMetadata(() => this.fieldRegistry.editFields(issueKey)))
+      : {};
+    Object.assign(fields, params.rawFields);
+
+    if (params.summary) {
+      fields.summary = params.summary;
+    }
+
+    if (params.description) {
+      fields.description = await this.toRichText(params.description);
+    }
+
+    await this.client.put(`/issue/${issueKey}`, { fields });
+    return {
+      success: true,
+      message: `Issue ${issueKey} updated successfully`,
+      updatedFields: Object.keys(fields),
+    };
+  }
+
+  /**
+   * Load field names and schemas from the field registry. When a create or edit
+   * screen is given, its fields take precedence for display names shared by
+   * several fields; the screen is best effort and skipped if it cannot be loaded.
+   */
+  private async getFieldMetadata(loadScreen?: () => Promise<ScreenField[]>): Promise<FieldMetadata> {
+    let screenFields: ScreenField[] = [];
+    if (loadScreen) {
+      try {
+        screenFields = await loadScreen();
+      } catch {
+        // Fall back to the global field list
+      }
+    }
+    return this.fieldRegistry.metadata(screenFields);
+  }
+
+  /**
+   * Get all system and custom fields (id, name, type, JQL clause names, schema)
+   */
+  async getFields(): Promise<FieldInfo[]> {
+    return [...(await this.fieldRegistry.fields()).values()];
+  }
+
+  /**
+   * Find fields by name, id or JQL clause name, optionally only those on a project's create screens
+   */
+  async listFields(options: { query?: string; projectKey?: string; issueType?: string; customOnly?: boolean } = {}): Promise<any[]> {
+    return this.fieldRegistry.list(options);
+  }
+
+  /**
+   * Parse and validate a JQL query with Jira's /jql/parse endpoint.
+   * Data Center has no parse endpoint; an empty strict search reports the same errors.
+   */
+  async parseJqlQuery(jql: string): Promise<any> {
+    if (!(await this.deployment.isCloud())) {
+      try {
+        await this.client.post('/search', { jql, maxResults: 0, fields: ['key'], validateQuery: 'strict' });
+        return { query: jql, errors: [] };
+      } catch (error) {
+        if (error instanceof JiraApiError && error.status === 400) {
+          return { query: jql, errors: error.errorMessages };
+        }
+        throw error;
+      }
+    }
+
+    const response = await this.client.post(
+      '/jql/parse',
+      { queries: [jql] },
+      { params: { validation: 'strict' } }
+    );
+    return response.data.queries?.[0];
+  }
+
+  /**
+   * Get the allowed option values of a select-style field, given by id or display name
+   */
+  async getFieldOptions(field: string): Promise<string[]> {
+    if (!(await this.deployment.isCloud())) {
+      throw new Error('Listing field options needs the field context API, which Jira Data Center does not provide');
+    }
+
+    const metadata = await this.getFieldMetadata();
+    const fieldId = this.resolveFieldId(field, metadata);
+
+    const contextsResponse = await this.client.get(`/field/${fieldId}/context`);
+    const values = new Set<string>();
+
+    for (const context of contextsResponse.data.values || []) {
+      let startAt = 0;
+      let isLast = false;
+      while (!isLast) {
+        const response = await this.client.get(`/field/${fieldId}/context/${context.id}/option`, {
+          params: { startAt, maxResults: 100 },
+        });
+        const options = response.data.values || [];
+        for (const option of options) {
+          if (!option.disabled) {
+            values.add(option.value);
+          }
+        }
+        startAt += options.length;
+        isLast = response.data.isLast !== false || options.length === 0;
+      }
+    }
+
+    return Array.from(values);
+  }
+
+  /**
+   * Resolve a field given by id or display name (case-insensitive) to its field id
+   */
+  private resolveFieldId(field: string, metadata: FieldMetadata): string {
+    if (metadata.names[field] || metadata.schema[field]) {
+      return field;
+    }
+
+    const wanted = field.toLowerCase().trim();
+    for (const [fieldId, name] of Object.entries(metadata.names)) {
+      if (name.toLowerCase() === wanted || fieldId.toLowerCase() === wanted) {
+        return fieldId;
+      }
+    }
+
+    throw new Error(`Unknown field "${field}". Use a field id (e.g., customfield_10010) or its display name.`);
+  }
+
+  /**
+   * Build a Jira fields payload from a map keyed by field id or display name
+   */
+  private async buildFieldsPayload(
+    input: { [field: string]: any },
+    metadata: FieldMetadata
+  ): Promise<{ [fieldId: string]: any }> {
+    const fields: { [fieldId: string]: any } = {};
+
+    for (const [field, value] of Object.entries(input)) {
+      const fieldId = this.resolveFieldId(field, metadata);
+      const fieldName = metadata.names[fieldId];
+      const label = fieldName && fieldName !== fieldId ? `${fieldId} '${fieldName}'` : fieldId;
+      fields[fieldId] = await this.coerceFieldValue(value, metadata.schema[fieldId], fieldId, label);
+    }
+
+    return fields;
+  }
+
+  /**
+   * Coerce a plain value into the shape Jira expects for the field's schema
+   * (options, arrays, users, dates, rich text, etc.). Values that are already
+   * objects are passed through once their shape fits the field.
+   */
+  private async coerceFieldValue(value: any, schema: any, fieldId: string, label: string = fieldId): Promise<any> {
+    if (value === null || value === undefined) return null;
+
+    if (typeof value === 'object' && !Array.isArray(value)) {
+      this.checkObjectValue(value, schema, label);
+      return value;
+    }
+
+    // Parent issue (subtask parent or epic) is referenced by key
+    if (fieldId === 'parent') {
+      return { key: String(value) };
+    }
+
+    if (!schema) return value;
+
+    switch (schema.type) {
+      case 'array': {
+        const items = Array.isArray(value)
+          ? value
+          : String(value).split(',').map(v => v.trim()).filter(v => v);
+        return Promise.all(
+          items.map(item => this.coerceFieldValue(item, { type: schema.items }, fieldId, label))
+        );
+      }
+      case 'option':
+        return { value: String(value) };
+      case 'option-with-child': {
+        // Cascading select: "Parent > Child"
+        const [parent, child] = String(value).split('>').map(v => v.trim());
+        return child ? { value: parent, child: { value: child } } : { value: parent };
+      }
+      case 'user':
+        return (await this.deployment.isCloud())
+          ? { accountId: await this.resolveAccountId(String(value)) }
+          : { name: await this.resolveUsername(String(value)) };
+      case 'priority':
+      case 'resolution':
+      case 'component':
+      case 'version':
+      case 'issuetype':
+        return { name: String(value) };
+      case 'project':
+        return { key: String(value) };
+      case 'issuelink':
+        return { key: String(value) };
+      case 'number': {
+        const number = typeof value === 'number' ? value : Number(String(value).trim() || NaN);
+        if (!Number.isFinite(number)) {
+          throw new Error(`Invalid value "${value}" for field ${label}: expected a number`);
+        }
+        return number;
+      }
+      case 'date':
+        this.parseDate(value, label, 'a date such as 2024-05-31');
+        // Keep the calendar day as written; converting to UTC could move it
+        return String(value).trim().substring(0, 10);
+      case 'datetime':
+        return this.parseDate(value, label, 'a date-time such as 2024-05-31T14:30:00Z')
+          .toISOString()
+          .replace('Z', '+0000');
+      case 'string':
+        if (schema.custom?.endsWith(':textarea') || fieldId === 'description' || fieldId === 'environment') {
+          return this.toRichText(String(value));
+        }
+        return String(value);
+      default:
+        return value;
+    }
+  }
+
+  /**
+   * Parse a date or date-time value that starts with a valid YYYY-MM-DD calendar day,
+   * failing with the field and the expected format
+   */
+  private parseDate(value: any, label: string, expected: string): Date {
+    const text = String(value).trim();
+    const day = /^(\d{4})-(\d{2})-(\d{2})/.exec(text);
+    const date = new Date(text);
+    // Rejects days that do not exist, e.g. 2024-02-30, which Date would roll over
+    const validDay =
+      !!day && new Date(Date.UTC(+day[1], +day[2] - 1, +day[3])).toISOString().substring(0, 10) === day[0];
+    if (!validDay || isNaN(date.getTime())) {
+      throw new Error(`Invalid value "${value}" for field ${label}: expected ${expected}`);
+    }
+    return date;
+  }
+
+  /**
+   * Check that a value given as an object has the shape the field takes,
+   * e.g. { value } for options or { accountId } for users on Cloud
+   */
+  private checkObjectValue(value: any, schema: any, label: string): void {
+    const keysByType: { [type: string]: string[] } = {
+      option: ['value', 'id'],
+      'option-with-child': ['value', 'id'],
+      user: ['accountId', 'name', 'key'],
+      priority: ['name', 'id'],
+      resolution: ['name', 'id'],
+      component: ['name', 'id'],
+      version: ['name', 'id'],
+      issuetype: ['name', 'id'],
+      project: ['key', 'id'],
+      issuelink: ['key', 'id'],
+    };
+
+    const type = schema?.type;
+    const keys = keysByType[type];
+    if (keys && !keys.some(key => value[key] !== undefined && value[key] !== null)) {
+      throw new Error(`Invalid value ${JSON.stringify(value)} for field ${label}: expected an object with ${keys.join(' or ')}`);
+    }
+    if (['number', 'date', 'datetime'].includes(type)) {
+      throw new Error(`Invalid value ${JSON.stringify(value)} for field ${label}: expected a ${type === 'number' ? 'number' : type}, not an object`);
+    }
+    if (type === 'string' && value.type !== 'doc') {
+      throw new Error(`Invalid value ${JSON.stringify(value)} for field ${label}: expected text or an ADF document`);
+    }
+  }
+
+  /**
+   * Convert markdown to the deployment's rich-text format: ADF on Cloud, wiki markup on Data Center
+   */
+  private async toRichText(text: string): Promise<any> {
+    return (await this.deployment.isCloud()) ? this.toADF(text) : this.toWikiMarkup(text);
+  }
+
+  /**
+   * Convert markdown to ADF, resolving @email mentions to account ids and
+   * linking issue keys to this Jira site
+   */
+  private async toADF(text: string): Promise<any> {
+    const mentions: MarkdownToAdfOptions['mentions'] = {};
+
+    for (const email of findMentionEmails(text)) {
+      try {
+        const response = await this.client.get('/user/search', { params: { query: email } });
+        const user = (response.data || [])[0];
+        if (user) {
+          mentions[email] = { accountId: user.accountId, displayName: user.displayName };
+        }
+      } catch {
+        // Unresolved mentions are kept as plain text
+      }
+    }
+
+    return textToADF(text, { baseUrl: await this.auth.siteUrl(), projectKeys: await this.getProjectKeys(), mentions });
+  }
+
+  /**
+   * Keys of the projects visible to this user, loaded once. Only their issue keys are linked,
+   * so words such as UTF-8 or SHA-256 stay text. Best effort: an empty list links nothing.
+   */
+  private getProjectKeys(): Promise<string[]> {
+    if (!this.projectKeysPromise) {
+      this.projectKeysPromise = this.client
+        .get('/project')
+        .then(response => (response.data || []).map((project: any) => project.key))
+        .catch(() => {
+          this.projectKeysPromise = undefined;
+          return [];
+        });
+    }
+    return this.projectKeysPromise;
+  }
+
+  /**
+   * Convert markdown to wiki markup, resolving @email mentions to usernames
+   */
+  private async toWikiMarkup(text: string): Promise<string> {
+    const mentions: MarkdownToWikiOptions['mentions'] = {};
+
+    for (const email of findMentionEmails(text)) {
+      try {
+        mentions[email] = await this.resolveUsername(email);
+      } catch {
+        // Unresolved mentions are kept as plain text
+      }
+    }
+
+    return markdownToWiki(text, { mentions });
+  }
+
+  /**
+   * Resolve an email address or display name to an Atlassian account id.
+   * Values that do not look like an email are assumed to already be account ids.
+   */
+  private async resolveAccountId(user: string): Promise<string> {
+    if (!user.includes('@')) {
+      return user;
+    }
+
+    const response = await this.client.get('/user/search', { params: { query: user } });
+    const match = (response.data || [])[0];
+    if (!match) {
+      throw new Error(`No Jira user found for "${user}"`);
+    }
+    return match.accountId;
+  }
+
+  /**
+   * Resolve an email address to a Jira Data Center username.
+   * Values that do not look like an email are assumed to already be usernames.
+   */
+  private async resolveUsername(user: string): Promise<string> {
+    if (!user.includes('@')) {
+      return user;
+    }
+
+    const response = await this.client.get('/user/search', { params: { username: user } });
+    const match = (response.data || [])[0];
+    if (!match) {
+      throw new Error(`No Jira user found for "${user}"`);
+    }
+    return match.name;
+  }
+
+  /**
+   * Get the workflow transitions currently available for an issue,
+   * including the fields each transition screen requires
+   */
+  async getTransitions(issueKey: string): Promise<JiraTransition[]> {
+    const response = await this.client.get(`/issue/${issueKey}/transitions`, {
+      params: { expand: 'transitions.fields' },
+    });
+
+    return (response.data.transitions || []).map((transition: any) => ({
+      id: transition.id,
+      name: transition.name,
+      toStatus: transition.to?.name,
+      toStatusCategory: transition.to?.statusCategory?.name,
+      requiredFields: Object.entries(transition.fields || {})
+        .filter(([, field]: [string, any]) => field.required && !field.hasDefaultValue)
+        .map(([fieldId, field]: [string, any]) => ({
+          id: fieldId,
+          name: field.name,
+          allowedValues: field.allowedValues
+            ? field.allowedValues.map((v: any) => v.name || v.value || v.id)
+            : undefined,
+        })),
+    }));
+  }
+
+  /**
+   * Move an issue through its workflow. The transition can be given by id,
+   * transition name or target status name. Required screen fields such as
+   * resolution can be supplied by id or display name, and a comment can be posted in the same call.
+   */
+  async transitionIssue(
+    issueKey: string,
+    params: {
+      transition: string;
+      resolution?: string;
+      fields?: { [field: string]: any };
+      comment?: string;
+    }
+  ): Promise<any> {
+    const transitions = await this.getTransitions(issueKey);
+    const transition = matchTransition(transitions, params.transition);
+
+    if (!transition) {
+      const available = transitions.map(t => `"${t.name}" -> "${t.toStatus}" (id ${t.id})`).join(', ');
+      throw new Error(
+        `No transition matching "${params.transition}" is available for ${issueKey}. Available: ${available || 'none'}`
+      );
+    }
+
+    const fields: any =
+      params.fields && Object.keys(params.fields).length > 0
+        ? await this.buildFieldsPayload(params.fields, await this.getFieldMetadata(() => this.fieldRegistry.editFields(issueKey)))
+        : {};
+    if (params.resolution) {
+      fields.resolution = { name: params.resolution };
+    }
+
+    const missing = transition.requiredFields.filter(f => fields[f.id] === undefined);
+    if (missing.length > 0) {
+      const details = missing
+        .map(f => `${f.id} '${f.name}'${f.allowedValues ? ` (one of: ${f.allowedValues.join(', ')})` : ''}`)
+        .join('; ');
+      throw new Error(`Transition "${transition.name}" on ${issueKey} requires: ${details}`);
+    }
+
+    const body: any = {
+      transition: { id: transition.id },
+    };
+
+    if (Object.keys(fields).length > 0) {
+      body.fields = fields;
+    }
+
+    if (params.comment) {
+      body.update = {
+        comment: [{ add: { body: await this.toRichText(params.comment) } }],
+      };
+    }
+
+    try {
+      await this.client.post(`/issue/${issueKey}/transitions`, body);
+    } catch (error) {
+      if (error instanceof JiraApiError) {
+        throw error.withContext(`transition "${transition.name}" on ${issueKey}`);
+      }
+      throw error;
+    }
+    return {
+      success: true,
+      message: `Issue ${issueKey} transitioned via "${transition.name}" to "${transition.toStatus}"`,
+    };
+  }
+
+  async getIssueLinks(issueKey: string): Promise<JiraIssueLink[]> {
+    const issue = await this.getIssue(issueKey, ['issuelinks']);
+    return this.extractIssueLinks(issue.fields.issuelinks);
+  }
+
+  /**
+   * A single link by id, with the keys of both linked issues
+   */
+  async getIssueLink(linkId: string): Promise<{ id: string; type: string; inwardIssue: string; outwardIssue: string }> {
+    const response = await this.client.get(`/issueLink/${linkId}`);
+    return {
+      id: response.data.id,
+      type: response.data.type?.name,
+      inwardIssue: response.data.inwardIssue?.key,
+      outwardIssue: response.data.outwardIssue?.key,
+    };
+  }
+
+  async getIssueLinkTypes(): Promise<any[]> {
+    const response = await this.client.get('/issueLinkType');
+    return (response.data.issueLinkTypes || []).map((type: any) => ({
+      id: type.id,
+      name: type.name,
+      outward: type.outward,
+      inward: type.inward,
+    }));
+  }
+
+  /**
+   * Link two issues so that "issueKey <relation> targetIssueKey" holds.
+   * The link type can be given by name ("Blocks") or by either relation ("blocks", "is blocked by").
+   */
+  async linkIssues(issueKey: string, linkType: string, targetIssueKey: string, comment?: string): Promise<any> {
+    const types = await this.getIssueLinkTypes();
+    const wanted = linkType.toLowerCase().trim();
+    const byOutward = types.find(t => t.name.toLowerCase() === wanted || t.outward?.toLowerCase() === wanted);
+    const byInward = byOutward ? undefined : types.find(t => t.inward?.toLowerCase() === wanted);
+    const type = byOutward || byInward;
+
+    if (!type) {
+      const available = types.map(t => `"${t.name}" (${t.outward} / ${t.inward})`).join(', ');
+      throw new Error(`Unknown link type "${linkType}". Available: ${available || 'none'}`);
+    }
+
+    // Jira reads the payload as "inwardIssue <outward relation> outwardIssue"
+    const [source, target] = byInward ? [targetIssueKey, issueKey] : [issueKey, targetIssueKey];
+    const body: any = {
+      type: { name: type.name },
+      inwardIssue: { key: source },
+      outwardIssue: { key: target },
+    };
+
+    if (comment) {
+      body.comment = { body: await this.toRichText(comment) };
+    }
+
+    try {
+      await this.client.post('/issueLink', body);
+    } catch (error) {
+      if (error instanceof JiraApiError) {
+        throw error.withContext(`link ${source} ${type.outward} ${target}`);
+      }
+      throw error;
+    }
+    return {
+      success: true,
+      message: `Linked ${source} ${type.outward} ${target}`,
+    };
+  }
+
+  /**
+   * Remove a link by id, or every link between two issues (optionally only of one type)
+   */
+  async unlinkIssues(params: { linkId?: string; issueKey?: string; targetIssueKey?: string; linkType?: string }): Promise<any> {
+    let linkIds: string[];
+
+    if (params.linkId) {
+      linkIds = [params.linkId];
+    } else if (params.issueKey && params.targetIssueKey) {
+      const wanted = params.linkType?.toLowerCase().trim();
+      const links = (await this.getIssueLinks(params.issueKey)).filter(
+        link =>
+          link.issueKey === params.targetIssueKey &&
+          (!wanted || link.type.toLowerCase() === wanted || link.relation?.toLowerCase() === wanted)
+      );
+      if (links.length === 0) {
+        throw new Error(
+          `No ${params.linkType ? `"${params.linkType}" ` : ''}link found between ${params.issueKey} and ${params.targetIssueKey}`
+        );
+      }
+      linkIds = links.map(link => link.id);
+    } else {
+      throw new Error('Provide either linkId, or issueKey and targetIssueKey');
+    }
+
+    for (const linkId of linkIds) {
+      await this.client.delete(`/issueLink/${linkId}`);
+    }
+    return {
+      success: true,
+      removed: linkIds,
+      message: `Removed ${linkIds.length} link(s)`,
+    };
+  }
+
+  /**
+   * Start a bulk transition. Each group moves its issues through one transition id,
+   * since ids differ between workflows. Returns the id of Jira's background task.
+   */
+  async startBulkTransition(groups: { transitionId: string; issueKeys: string[] }[]): Promise<string> {
+    const response = await this.client.post('/bulk/issues/transition', {
+      bulkTransitionInputs: groups.map(group => ({
+        selectedIssueIdsOrKeys: group.issueKeys,
+        transitionId: group.transitionId,
+      })),
+      sendBulkNotification: true,
+    });
+    return response.data.taskId;
+  }
+
+  /**
+   * Start a bulk edit that sets the same field values on every issue (Cloud only). Issues are
+   * grouped by field context (project and issue type); values are coerced as in updateIssue, with
+   * option ids read from the edit screen of each group's first issue.
+   * Returns the id of Jira's background task, or undefined when the edit cannot run in bulk
+   * (Data Center, a field the bulk edit endpoint cannot set, or option ids that differ between
+   * groups); update the issues one by one then.
+   */
+  async startBulkEdit(issueKeysByContext: string[][], input: { [field: string]: any }): Promise<string | undefined> {
+    if (!(await this.deployment.isCloud())) return undefined;
+
+    const inputs = await Promise.all(issueKeysByContext.map(issueKeys => this.bulkEditFieldsInput(issueKeys[0], input)));
+    const [first] = inputs;
+    // One task sends one input to every issue
+    if (!first || inputs.some(other => JSON.stringify(other) !== JSON.stringify(first))) return undefined;
+
+    const response = await this.client.post('/bulk/issues/fields', {
+      selectedIssueIdsOrKeys: issueKeysByContext.flat(),
+      selectedActions: first.selectedActions,
+      editedFieldsInput: first.editedFieldsInput,
+      sendBulkNotification: true,
+    });
+    return response.data.taskId;
+  }
+
+  /**
+   * The bulk edit input for the fields, coerced against an issue's edit screen, or undefined
+   * when a field cannot be set through the bulk edit endpoint
+   */
+  private async bulkEditFieldsInput(
+    issueKey: string,
+    input: { [field: string]: any }
+  ): Promise<{ selectedActions: string[]; editedFieldsInput: { [inputType: string]: any } } | undefined> {
+    const screenFields = await this.fieldRegistry.editFields(issueKey);
+    const metadata = await this.fieldRegistry.metadata(screenFields);
+    const fields = await this.buildFieldsPayload(input, metadata);
+
+    const editedFieldsInput: { [inputType: string]: any } = {};
+    for (const [fieldId, value] of Object.entries(fields)) {
+      const optionIds = screenFields.find(field => field.id === fieldId)?.allowedValueIds || {};
+      const entry = bulkEditInput(fieldId, metadata.schema[fieldId], value, optionIds);
+      if (!entry) return undefined;
+
+      const [inputType, fieldInput] = entry;
+      // Priority takes a single input; the other input types are lists of fields
+      editedFieldsInput[inputType] = inputType === 'priority' ? fieldInput : [...(editedFieldsInput[inputType] || []), fieldInput];
+    }
+    return { selectedActions: Object.keys(fields), editedFieldsInput };
+  }
+
+  /**
+   * Coerce field values given by id or display name into the shape updateIssue sends, keyed by
+   * field id. With an issue key, names and values resolve against that issue's edit screen,
+   * exactly as updateIssue does. Lets callers compare wanted values with an issue's raw values.
+   */
+  async coerceFields(input: { [field: string]: any }, issueKey?: string): Promise<{ [fieldId: string]: any }> {
+    return this.buildFieldsPayload(
+      input,
+      await this.getFieldMetadata(issueKey ? () => this.fieldRegistry.editFields(issueKey) : undefined)
+    );
+  }
+
+  /**
+   * Progress and result of a bulk operation task
+   */
+  async getBulkTask(taskId: string): Promise<any> {
+    const response = await this.client.get(`/bulk/queue/${taskId}`);
+    return response.data;
+  }
+
+  async addComment(issueKey: string, comment: string, attachments?: string[]): Promise<any> {
+    // First, add the comment
+    const response = await this.client.post(`/issue/${issueKey}/comment`, {
+      body: await this.toRichText(comment),
+    });
+
+    // If attachments are provided, upload them
+    if (attachments && attachments.length > 0) {
+      const uploadedAttachments: AttachmentUpload[] = [];
+
+      for (const filePath of attachments) {
+        try {
+          const uploaded = await this.uploadAttachment(issueKey, filePath);
           uploadedAttachments.push(...uploaded);
         } catch (error) {
           console.error(`Failed to upload attachment ${filePath}:`, error);
@@ -659,6 +1488,128 @@ export class JiraClient {
     return { success: true, message: `Comment ${commentId} deleted successfully from issue ${issueKey}` };
   }
 
+  /**
+   * Get an issue's worklogs, optionally only those started within a time range
+   */
+  async getWorklogs(issueKey: string, range: { startedAfter?: Date; startedBefore?: Date } = {}): Promise<any[]> {
+    const worklogs: any[] = [];
+    let startAt = 0;
+    let total = Infinity;
+
+    while (startAt < total) {
+      const response = await this.client.get(`/issue/${issueKey}/worklog`, {
+        params: {
+          startAt,
+          maxResults: 1000,
+          startedAfter: range.startedAfter?.getTime(),
+          startedBefore: range.startedBefore?.getTime(),
+        },
+      });
+      const page = response.data.worklogs || [];
+      worklogs.push(...page);
+      startAt += page.length;
+      total = page.length === 0 ? startAt : response.data.total ?? startAt;
+    }
+
+    const renderOptions: AdfRenderOptions = { mentionNames: await this.mentionNames(...worklogs.map(w => w.comment)) };
+
+    return worklogs.map((worklog: any) => ({
+      id: worklog.id,
+      issueKey,
+      author: worklog.author?.displayName,
+      authorAccountId: worklog.author?.accountId,
+      authorName: worklog.author?.name, // Data Center username
+      started: worklog.started,
+      timeSpent: formatDuration(worklog.timeSpentSeconds),
+      timeSpentSeconds: worklog.timeSpentSeconds,
+      comment: this.extractDescription(worklog.comment, renderOptions),
+      created: worklog.created,
+      updated: worklog.updated,
+    }));
+  }
+
+  /**
+   * Build the worklog body and estimate adjustment parameters
+   */
+  private async buildWorklogRequest(input: WorklogInput): Promise<{ body: any; params: any }> {
+    const body: any = {};
+    if (input.timeSpent !== undefined) {
+      body.timeSpentSeconds = parseDuration(input.timeSpent);
+    }
+    if (input.started !== undefined) {
+      const started = new Date(input.started);
+      if (isNaN(started.getTime())) {
+        throw new Error(`Invalid start time "${input.started}". Use an ISO date or date-time`);
+      }
+      body.started = started.toISOString().replace('Z', '+0000');
+    }
+    if (input.comment !== undefined) {
+      body.comment = await this.toRichText(input.comment);
+    }
+
+    const params: any = {};
+    if (input.adjustEstimate) {
+      params.adjustEstimate = input.adjustEstimate;
+      if (input.adjustEstimate === 'new') {
+        if (!input.newEstimate) throw new Error('adjustEstimate "new" requires newEstimate');
+        params.newEstimate = formatDuration(parseDuration(input.newEstimate));
+      }
+      if (input.adjustEstimate === 'manual') {
+        if (!input.reduceBy) throw new Error('adjustEstimate "manual" requires reduceBy');
+        params.reduceBy = formatDuration(parseDuration(input.reduceBy));
+      }
+    }
+
+    return { body, params };
+  }
+
+  async addWorklog(issueKey: string, input: WorklogInput): Promise<any> {
+    if (!input.timeSpent) {
+      throw new Error('timeSpent is required, e.g. "1h 30m"');
+    }
+    const { body, params } = await this.buildWorklogRequest({
+      ...input,
+      started: input.started ?? new Date().toISOString(),
+    });
+
+    const response = await this.client.post(`/issue/${issueKey}/worklog`, body, { params });
+    return {
+      success: true,
+      worklogId: response.data.id,
+      message: `Logged ${formatDuration(body.timeSpentSeconds)} on ${issueKey}`,
+    };
+  }
+
+  async updateWorklog(issueKey: string, worklogId: string, input: WorklogInput): Promise<any> {
+    const { body, params } = await this.buildWorklogRequest(input);
+    if (Object.keys(body).length === 0) {
+      throw new Error('Nothing to update. Provide timeSpent, started or comment');
+    }
+
+    await this.client.put(`/issue/${issueKey}/worklog/${worklogId}`, body, { params });
+    return {
+      success: true,
+      message: `Worklog ${worklogId} on ${issueKey} updated successfully`,
+      updatedFields: Object.keys(body),
+    };
+  }
+
+  async deleteWorklog(
+    issueKey: string,
+    worklogId: string,
+    adjust: Pick<WorklogInput, 'adjustEstimate' | 'newEstimate' | 'reduceBy'> = {}
+  ): Promise<any> {
+    const { params } = await this.buildWorklogRequest(adjust);
+    if (params.reduceBy) {
+      // Deleting a worklog adds time back to the remaining estimate
+      params.increaseBy = params.reduceBy;
+      delete params.reduceBy;
+    }
+
+    await this.client.delete(`/issue/${issueKey}/worklog/${worklogId}`, { params });
+    return { success: true, message: `Worklog ${worklogId} deleted successfully from issue ${issueKey}` };
+  }
+
   async getAttachments(issueKey: string): Promise<JiraAttachment[]> {
     const issue = await this.getIssue(issueKey, ['attachment']);
     const attachments = issue.fields.attachment || [];
@@ -682,11 +1633,12 @@ export class JiraClient {
     const metadataResponse = await this.client.get(`/attachment/${attachmentId}`);
     const metadata = metadataResponse.data;
 
-    // Download the attachment content
-    const contentResponse = await this.client.get(metadata.content, {
+    // Download the attachment content. On Cloud the relative path also works for OAuth, whose
+    // requests go through api.atlassian.com rather than the site URL in metadata.content;
+    // Data Center only serves content from that URL.
+    const contentUrl = (await this.deployment.isCloud()) ? `/attachment/content/${attachmentId}` : metadata.content;
+    const contentResponse = await this.client.get(contentUrl, {
       responseType: 'arraybuffer',
-      // Use the full URL from metadata.content which is absolute
-      baseURL: undefined,
     });
 
     // Determine output directory
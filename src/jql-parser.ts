@@ -0,0 +1,458 @@
+/**
+ * Small JQL lexer and parser
+ * Understands fields, operators, quoted strings, functions, lists, history predicates and ORDER BY.
+ * Used for alias expansion and local query validation.
+ */
+
+export type JqlTokenType =
+  | 'string'
+  | 'word'
+  | 'operator'
+  | 'lparen'
+  | 'rparen'
+  | 'comma'
+  | 'eof';
+
+export interface JqlToken {
+  type: JqlTokenType;
+  value: string; // Unquoted/unescaped value
+  text: string; // Raw text as it appears in the query
+  start: number;
+  end: number;
+}
+
+export interface JqlValue {
+  kind: 'value' | 'function' | 'list' | 'empty';
+  value?: string;
+  token?: JqlToken; // Token for plain values
+  name?: string; // Function name
+  args?: string[];
+  items?: JqlValue[];
+}
+
+export interface JqlClause {
+  field: string;
+  fieldToken: JqlToken;
+  operator: string;
+  operand?: JqlValue;
+  predicates: { name: string; operand: JqlValue }[];
+}
+
+export interface JqlSort {
+  field: string;
+  fieldToken: JqlToken;
+  direction?: 'ASC' | 'DESC';
+}
+
+export interface JqlParseError {
+  message: string;
+  position: number;
+}
+
+export interface JqlParseResult {
+  clauses: JqlClause[];
+  orderBy: JqlSort[];
+  errors: JqlParseError[];
+}
+
+export class JqlSyntaxError extends Error {
+  constructor(message: string, public position: number) {
+    super(`${message} (at position ${position})`);
+    this.name = 'JqlSyntaxError';
+  }
+}
+
+const KEYWORDS = new Set([
+  'and', 'or', 'not', 'in', 'is', 'was', 'changed', 'empty', 'null', 'order', 'by', 'asc', 'desc',
+]);
+
+const HISTORY_PREDICATES = new Set(['after', 'before', 'during', 'on', 'by', 'from', 'to']);
+
+const COMPARISON_OPERATORS = ['!=', '>=', '<=', '!~', '=', '>', '<', '~'];
+
+/**
+ * Fields that JQL accepts but /field does not list, e.g. "text" and the worklog clauses
+ */
+export const JQL_ONLY_FIELDS = new Set([
+  'text',
+  'worklogDate',
+  'worklogAuthor',
+  'worklogComment',
+  'issueLinkType',
+  'watcher',
+  'statusCategory',
+  'category',
+  'issue',
+  'issueKey',
+  'key',
+  'id',
+  'parentProject',
+  'filter',
+  'request',
+  'savedFilter',
+  'searchRequest',
+  'voter',
+  'attachments',
+  'level',
+  'createdDate',
+  'updatedDate',
+  'resolutionDate',
+  'lastViewed',
+  'hierarchyLevel',
+].map(field => field.toLowerCase()));
+
+/**
+ * Split a JQL query into tokens. Throws JqlSyntaxError on unterminated strings.
+ */
+export function tokenizeJql(jql: string): JqlToken[] {
+  const tokens: JqlToken[] = [];
+  let pos = 0;
+
+  while (pos < jql.length) {
+    const ch = jql[pos];
+
+    if (/\s/.test(ch)) {
+      pos++;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      const start = pos;
+      let value = '';
+      pos++;
+      while (pos < jql.length && jql[pos] !== ch) {
+        if (jql[pos] === '\\' && pos + 1 < jql.length) {
+          value += jql[pos + 1];
+          pos += 2;
+        } else {
+          value += jql[pos++];
+        }
+      }
+      if (pos >= jql.length) {
+        throw new JqlSyntaxError('Unterminated quoted string', start);
+      }
+      pos++;
+      tokens.push({ type: 'string', value, text: jql.substring(start, pos), start, end: pos });
+      continue;
+    }
+
+    if (ch === '(' || ch === ')' || ch === ',') {
+      const type = ch === '(' ? 'lparen' : ch === ')' ? 'rparen' : 'comma';
+      tokens.push({ type, value: ch, text: ch, start: pos, end: pos + 1 });
+      pos++;
+      continue;
+    }
+
+    const operator = COMPARISON_OPERATORS.find(op => jql.startsWith(op, pos));
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator, text: operator, start: pos, end: pos + operator.length });
+      pos += operator.length;
+      continue;
+    }
+
+    // Unquoted word: field names, values, functions, dates, cf[12345], etc.
+    const start = pos;
+    while (pos < jql.length && !/[\s"'(),=!<>~]/.test(jql[pos])) {
+      if (jql[pos] === '\\' && pos + 1 < jql.length) {
+        pos += 2;
+      } else {
+        pos++;
+      }
+    }
+    if (pos === start) {
+      throw new JqlSyntaxError(`Unexpected character "${ch}"`, pos);
+    }
+    const text = jql.substring(start, pos);
+    tokens.push({ type: 'word', value: text.replace(/\\(.)/g, '$1'), text, start, end: pos });
+  }
+
+  tokens.push({ type: 'eof', value: '', text: '', start: jql.length, end: jql.length });
+  return tokens;
+}
+
+class JqlParser {
+  private pos = 0;
+  private clauses: JqlClause[] = [];
+  private orderBy: JqlSort[] = [];
+
+  constructor(private tokens: JqlToken[]) {}
+
+  parse(): { clauses: JqlClause[]; orderBy: JqlSort[] } {
+    if (!this.isKeyword('order') && this.peek().type !== 'eof') {
+      this.parseOr();
+    }
+
+    if (this.isKeyword('order')) {
+      this.next();
+      this.expectKeyword('by');
+      this.parseOrderBy();
+    }
+
+    if (this.peek().type !== 'eof') {
+      this.fail(`Unexpected "${this.peek().text}"`);
+    }
+
+    return { clauses: this.clauses, orderBy: this.orderBy };
+  }
+
+  private parseOr(): void {
+    this.parseAnd();
+    while (this.isKeyword('or')) {
+      this.next();
+      this.parseAnd();
+    }
+  }
+
+  private parseAnd(): void {
+    this.parseNot();
+    while (this.isKeyword('and')) {
+      this.next();
+      this.parseNot();
+    }
+  }
+
+  private parseNot(): void {
+    if (this.isKeyword('not')) {
+      this.next();
+      this.parseNot();
+      return;
+    }
+
+    if (this.peek().type === 'lparen') {
+      this.next();
+      this.parseOr();
+      this.expect('rparen', '")"');
+      return;
+    }
+
+    this.parseClause();
+  }
+
+  private parseClause(): void {
+    const fieldToken = this.peek();
+    if ((fieldToken.type !== 'word' && fieldToken.type !== 'string') || this.isReservedWord(fieldToken)) {
+      this.fail(fieldToken.type === 'eof' ? 'Expected a field name' : `Expected a field name but found "${fieldToken.text}"`);
+    }
+    this.next();
+
+    const operator = this.parseOperator();
+    const clause: JqlClause = {
+      field: fieldToken.value,
+      fieldToken,
+      operator,
+      predicates: [],
+    };
+
+    if (operator !== 'CHANGED') {
+      clause.operand = this.parseOperand(operator);
+    }
+
+    // History predicates for WAS and CHANGED
+    if (operator.startsWith('WAS') || operator === 'CHANGED') {
+      while (this.peek().type === 'word' && HISTORY_PREDICATES.has(this.peek().value.toLowerCase())) {
+        const name = this.next().value.toUpperCase();
+        clause.predicates.push({ name, operand: this.parseOperand(name) });
+      }
+    }
+
+    this.clauses.push(clause);
+  }
+
+  private parseOperator(): string {
+    const token = this.peek();
+
+    if (token.type === 'operator') {
+      this.next();
+      return token.value;
+    }
+
+    if (this.isKeyword('in')) {
+      this.next();
+      return 'IN';
+    }
+
+    if (this.isKeyword('not')) {
+      this.next();
+      this.expectKeyword('in');
+      return 'NOT IN';
+    }
+
+    if (this.isKeyword('is')) {
+      this.next();
+      if (this.isKeyword('not')) {
+        this.next();
+        return 'IS NOT';
+      }
+      return 'IS';
+    }
+
+    if (this.isKeyword('was')) {
+      this.next();
+      let operator = 'WAS';
+      if (this.isKeyword('not')) {
+        this.next();
+        operator += ' NOT';
+      }
+      if (this.isKeyword('in')) {
+        this.next();
+        operator += ' IN';
+      }
+      return operator;
+    }
+
+    if (this.isKeyword('changed')) {
+      this.next();
+      return 'CHANGED';
+    }
+
+    this.fail(token.type === 'eof' ? 'Expected an operator' : `Expected an operator but found "${token.text}"`);
+  }
+
+  private parseOperand(operator: string, inList: boolean = false): JqlValue {
+    const token = this.peek();
+
+    if (token.type === 'lparen' && !inList) {
+      this.next();
+      const items: JqlValue[] = [this.parseOperand(operator, true)];
+      while (this.peek().type === 'comma') {
+        this.next();
+        items.push(this.parseOperand(operator, true));
+      }
+      this.expect('rparen', '")"');
+      return { kind: 'list', items };
+    }
+
+    // IN operators take a list or a function returning a list
+    if (operator.endsWith('IN') && !inList && !(token.type === 'word' && this.peekAt(1).type === 'lparen')) {
+      this.fail(`Expected "(" after ${operator}`);
+    }
+
+    if (token.type === 'word' && (this.isKeyword('empty') || this.isKeyword('null'))) {
+      this.next();
+      return { kind: 'empty', value: token.value.toUpperCase() };
+    }
+
+    if (token.type === 'word' && this.peekAt(1).type === 'lparen') {
+      this.next();
+      this.next();
+      const args: string[] = [];
+      while (this.peek().type !== 'rparen') {
+        const arg = this.peek();
+        if (arg.type !== 'word' && arg.type !== 'string') {
+          this.fail(`Unexpected "${arg.text || 'end of query'}" in arguments of ${token.value}()`);
+        }
+        args.push(this.next().value);
+        if (this.peek().type === 'comma') {
+          this.next();
+        }
+      }
+      this.next();
+      return { kind: 'function', name: token.value, args };
+    }
+
+    if ((token.type === 'word' && !this.isReservedWord(token)) || token.type === 'string') {
+      this.next();
+      return { kind: 'value', value: token.value, token };
+    }
+
+    this.fail(token.type === 'eof' ? `Expected a value after ${operator}` : `Expected a value but found "${token.text}"`);
+  }
+
+  private parseOrderBy(): void {
+    do {
+      if (this.peek().type === 'comma') {
+        this.next();
+      }
+      const fieldToken = this.peek();
+      if (fieldToken.type !== 'word' && fieldToken.type !== 'string') {
+        this.fail('Expected a field name after ORDER BY');
+      }
+      this.next();
+
+      const sort: JqlSort = { field: fieldToken.value, fieldToken };
+      if (this.isKeyword('asc') || this.isKeyword('desc')) {
+        sort.direction = this.next().value.toUpperCase() as 'ASC' | 'DESC';
+      }
+      this.orderBy.push(sort);
+    } while (this.peek().type === 'comma');
+  }
+
+  private isReservedWord(token: JqlToken): boolean {
+    return token.type === 'word' && KEYWORDS.has(token.value.toLowerCase());
+  }
+
+  private isKeyword(keyword: string): boolean {
+    const token = this.peek();
+    return token.type === 'word' && token.value.toLowerCase() === keyword;
+  }
+
+  private expectKeyword(keyword: string): void {
+    if (!this.isKeyword(keyword)) {
+      this.fail(`Expected ${keyword.toUpperCase()}`);
+    }
+    this.next();
+  }
+
+  private expect(type: JqlTokenType, description: string): JqlToken {
+    if (this.peek().type !== type) {
+      this.fail(`Expected ${description}`);
+    }
+    return this.next();
+  }
+
+  private peek(): JqlToken {
+    return this.tokens[this.pos];
+  }
+
+  private peekAt(offset: number): JqlToken {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  private next(): JqlToken {
+    const token = this.tokens[this.pos];
+    if (token.type !== 'eof') {
+      this.pos++;
+    }
+    return token;
+  }
+
+  private fail(message: string): never {
+    throw new JqlSyntaxError(message, this.peek().start);
+  }
+}
+
+/**
+ * Parse a JQL query. Syntax errors are reported in the result rather than thrown.
+ */
+export function parseJql(jql: string): JqlParseResult {
+  try {
+    const { clauses, orderBy } = new JqlParser(tokenizeJql(jql)).parse();
+    return { clauses, orderBy, errors: [] };
+  } catch (error) {
+    if (error instanceof JqlSyntaxError) {
+      return {
+        clauses: [],
+        orderBy: [],
+        errors: [{ message: error.message, position: error.position }],
+      };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Collect the plain (non-function) value tokens of an operand, including list items
+ */
+export function operandValueTokens(operand: JqlValue | undefined): JqlToken[] {
+  if (!operand) return [];
+  if (operand.kind === 'value' && operand.token) return [operand.token];
+  if (operand.kind === 'list') return (operand.items || []).flatMap(operandValueTokens);
+  return [];
+}
+
+/**
+ * Quote a value for use in JQL
+ */
+export function quoteJqlValue(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
@@ -0,0 +1,482 @@
+import { Marked, Token, Tokens, TokenizerAndRendererExtension } from 'marked';
+
+/**
+ * Converts GitHub-flavored Markdown to Atlassian Document Format (ADF)
+ * Supports:
+ * - Headings, paragraphs and hard line breaks
+ * - Bold, italic, strikethrough, inline code and links
+ * - Nested bullet/numbered lists and task lists (- [ ] / - [x])
+ * - Code blocks with language, blockquotes, horizontal rules and tables
+ * - Panels via GitHub alerts (> [!NOTE], > [!TIP], > [!IMPORTANT], > [!WARNING], > [!CAUTION])
+ * - Mentions (@user@example.com, @accountid:<id> or [~accountid:<id>])
+ * - Issue keys (PROJ-123) of known projects as smart links when a Jira base URL is given
+ * Blocks that ADF does not allow inside quotes, panels or list items are rewritten into allowed nodes.
+ */
+
+export interface MarkdownToAdfOptions {
+  baseUrl?: string; // Jira site URL; enables issue-key smart links
+  projectKeys?: string[]; // Projects whose issue keys become smart links; words like UTF-8 are left alone
+  // Resolved mentions keyed by email or account id
+  mentions?: { [emailOrAccountId: string]: { accountId: string; displayName?: string } };
+}
+
+// ADF panel types for GitHub alert labels
+const ALERT_PANELS: { [alert: string]: string } = {
+  NOTE: 'info',
+  TIP: 'success',
+  IMPORTANT: 'note',
+  WARNING: 'warning',
+  CAUTION: 'error',
+};
+
+const EMAIL_MENTION = /(?<![\w@])@([\w.+-]+@[\w-]+(?:\.[\w-]+)+)/g;
+
+let localIdCounter = 0;
+
+function nextLocalId(): string {
+  localIdCounter = (localIdCounter + 1) % Number.MAX_SAFE_INTEGER;
+  return `${Date.now().toString(36)}-${localIdCounter}`;
+}
+
+export const mentionExtension: TokenizerAndRendererExtension = {
+  name: 'mention',
+  level: 'inline',
+  start(src: string) {
+    const index = src.search(/(?<![\w@])@|\[~accountid:/);
+    return index < 0 ? undefined : index;
+  },
+  tokenizer(src: string) {
+    const match =
+      /^@([\w.+-]+@[\w-]+(?:\.[\w-]+)+)/.exec(src) ||
+      /^@accountid:([\w:-]+)/.exec(src) ||
+      /^\[~accountid:([^\]]+)\]/.exec(src);
+    if (match) {
+      return { type: 'mention', raw: match[0], target: match[1] };
+    }
+    return undefined;
+  },
+};
+
+// Block nodes ADF allows inside each container; other blocks are rewritten by fitContent
+const BLOCKQUOTE_CONTENT = new Set(['paragraph', 'bulletList', 'orderedList', 'codeBlock', 'mediaSingle', 'mediaGroup']);
+const PANEL_CONTENT = new Set([
+  'paragraph', 'heading', 'bulletList', 'orderedList', 'codeBlock', 'taskList', 'rule', 'mediaSingle', 'mediaGroup',
+]);
+const LIST_ITEM_CONTENT = new Set(['paragraph', 'bulletList', 'orderedList', 'codeBlock', 'mediaSingle', 'taskList']);
+const INLINE_NODES = new Set(['text', 'hardBreak', 'mention', 'emoji', 'inlineCard', 'date', 'status']);
+
+/**
+ * Issue keys of the given projects, e.g. PROJ-123
+ */
+function issueKeyExtension(projectKeys: Set<string>): TokenizerAndRendererExtension {
+  return {
+    name: 'issueKey',
+    level: 'inline',
+    start(src: string) {
+      for (const match of src.matchAll(/(?<![\w-])([A-Z][A-Z0-9_]+)-\d+(?![\w-])/g)) {
+        if (projectKeys.has(match[1])) return match.index;
+      }
+      return undefined;
+    },
+    tokenizer(src: string) {
+      const match = /^([A-Z][A-Z0-9_]+)-\d+(?![\w-])/.exec(src);
+      if (match && projectKeys.has(match[1])) {
+        return { type: 'issueKey', raw: match[0], key: match[0] };
+      }
+      return undefined;
+    },
+  };
+}
+
+/**
+ * Find the email addresses mentioned as @user@example.com, so they can be resolved to account ids
+ */
+export function findMentionEmails(text: string): string[] {
+  return Array.from(new Set(Array.from(text.matchAll(EMAIL_MENTION), match => match[1])));
+}
+
+/**
+ * Converts markdown text to Atlassian Document Format (ADF)
+ */
+export function textToADF(text: string, options: MarkdownToAdfOptions = {}): any {
+  const projectKeys = new Set((options.projectKeys || []).map(key => key.toUpperCase()));
+  const marked = new Marked({
+    gfm: true,
+    breaks: true, // Keep single line breaks as hard breaks
+    extensions:
+      options.baseUrl && projectKeys.size > 0 ? [mentionExtension, issueKeyExtension(projectKeys)] : [mentionExtension],
+  });
+
+  // Treat "•" bullets as markdown list items
+  const normalized = text.replace(/^(\s*)•\s/gm, '$1- ');
+  const content = convertBlocks(marked.lexer(normalized), options);
+
+  return {
+    type: 'doc',
+    version: 1,
+    content: content.length > 0 ? content : [{ type: 'paragraph', content: [] }],
+  };
+}
+
+function convertBlocks(tokens: Token[], options: MarkdownToAdfOptions): any[] {
+  const content: any[] = [];
+
+  for (const token of tokens) {
+    const node = convertBlock(token, options);
+    if (Array.isArray(node)) {
+      content.push(...node);
+    } else if (node) {
+      content.push(node);
+    }
+  }
+
+  return content;
+}
+
+function convertBlock(token: Token, options: MarkdownToAdfOptions): any {
+  switch (token.type) {
+    case 'space':
+      return undefined;
+
+    case 'heading':
+      return {
+        type: 'heading',
+        attrs: { level: token.depth },
+        content: convertInline(token.tokens || [], options),
+      };
+
+    case 'paragraph':
+      return paragraph(convertInline(token.tokens || [], options));
+
+    case 'text':
+      // Text blocks appear in tight list items
+      return paragraph(token.tokens ? convertInline(token.tokens, options) : [{ type: 'text', text: token.text }]);
+
+    case 'code':
+      return {
+        type: 'codeBlock',
+        attrs: token.lang ? { language: token.lang } : {},
+        content: token.text ? [{ type: 'text', text: token.text }] : [],
+      };
+
+    case 'hr':
+      return { type: 'rule' };
+
+    case 'blockquote':
+      return convertBlockquote(token as Tokens.Blockquote, options);
+
+    case 'list':
+      return convertList(token as Tokens.List, options);
+
+    case 'table':
+      return convertTable(token as Tokens.Table, options);
+
+    case 'html':
+      return token.text.trim() ? paragraph([{ type: 'text', text: token.text.trim() }]) : undefined;
+
+    default:
+      if ('tokens' in token && token.tokens) {
+        return paragraph(convertInline(token.tokens, options));
+      }
+      return token.raw?.trim() ? paragraph([{ type: 'text', text: token.raw.trim() }]) : undefined;
+  }
+}
+
+function paragraph(content: any[]): any {
+  return { type: 'paragraph', content };
+}
+
+function convertBlockquote(token: Tokens.Blockquote, options: MarkdownToAdfOptions): any {
+  const tokens = [...token.tokens];
+  const first = tokens[0] as Tokens.Paragraph | undefined;
+  const alertMatch = first?.type === 'paragraph' ? /^\[!(\w+)\]/.exec(first.text) : null;
+  const panelType = alertMatch ? ALERT_PANELS[alertMatch[1].toUpperCase()] : undefined;
+
+  if (!panelType || !first) {
+    const content = fitContent(convertBlocks(tokens, options), BLOCKQUOTE_CONTENT);
+    return { type: 'blockquote', content: content.length > 0 ? content : [paragraph([])] };
+  }
+
+  // Drop the [!TYPE] marker (and the line break after it) from the first paragraph
+  const inlineTokens = [...first.tokens];
+  inlineTokens.shift();
+  if (inlineTokens[0]?.type === 'br') {
+    inlineTokens.shift();
+  }
+  const content = fitContent(convertBlocks(tokens.slice(1), options), PANEL_CONTENT);
+  if (inlineTokens.length > 0) {
+    content.unshift(paragraph(convertInline(inlineTokens, options)));
+  }
+
+  return {
+    type: 'panel',
+    attrs: { panelType },
+    content: content.length > 0 ? content : [paragraph([])],
+  };
+}
+
+function convertList(token: Tokens.List, options: MarkdownToAdfOptions): any {
+  if (token.items.length > 0 && token.items.every(item => item.task)) {
+    return convertTaskList(token, options);
+  }
+
+  const list: any = {
+    type: token.ordered ? 'orderedList' : 'bulletList',
+    content: token.items.map(item => ({
+      type: 'listItem',
+      content: listItemContent(item, options),
+    })),
+  };
+
+  if (token.ordered && typeof token.start === 'number' && token.start !== 1) {
+    list.attrs = { order: token.start };
+  }
+
+  return list;
+}
+
+function listItemContent(item: Tokens.ListItem, options: MarkdownToAdfOptions): any[] {
+  const content = fitContent(convertBlocks(item.tokens, options), LIST_ITEM_CONTENT);
+  return content.length > 0 ? content : [paragraph([])];
+}
+
+/**
+ * Rewrite blocks that the container does not allow, keeping their text and inline nodes:
+ * headings become bold paragraphs, nested quotes and panels are unwrapped, table rows become
+ * paragraphs, task lists become bullet lists and rules are dropped
+ */
+function fitContent(nodes: any[], allowed: Set<string>): any[] {
+  const content: any[] = [];
+
+  for (const node of nodes) {
+    if (allowed.has(node.type)) {
+      content.push(node);
+      continue;
+    }
+
+    switch (node.type) {
+      case 'heading':
+        content.push(paragraph((node.content || []).map((child: any) => withMark(child, { type: 'strong' }))));
+        break;
+      case 'blockquote':
+      case 'panel':
+        content.push(...fitContent(node.content || [], allowed));
+        break;
+      case 'table':
+        for (const row of node.content || []) {
+          const inline: any[] = [];
+          for (const cell of row.content || []) {
+            if (inline.length > 0) inline.push({ type: 'text', text: ' | ' });
+            inline.push(...(cell.content || []).flatMap((block: any) => block.content || []));
+          }
+          content.push(paragraph(inline));
+        }
+        break;
+      case 'taskList':
+        content.push(...fitContent([taskListToBulletList(node)], allowed));
+        break;
+      case 'rule':
+        break;
+      default:
+        content.push(paragraph((node.content || []).filter((child: any) => INLINE_NODES.has(child.type))));
+    }
+  }
+
+  return content;
+}
+
+/**
+ * Add a mark to a text node; other inline nodes (mentions, cards) are kept as they are
+ */
+function withMark(node: any, mark: any): any {
+  if (node.type !== 'text' || node.marks?.some((m: any) => m.type === mark.type || m.type === 'code')) return node;
+  return { ...node, marks: [...(node.marks || []), mark] };
+}
+
+/**
+ * A task list as a bullet list with [x] / [ ] markers, for containers that do not allow tasks
+ */
+function taskListToBulletList(list: any): any {
+  const items: any[] = [];
+  for (const child of list.content || []) {
+    if (child.type === 'taskItem') {
+      const marker = { type: 'text', text: child.attrs?.state === 'DONE' ? '[x] ' : '[ ] ' };
+      items.push({ type: 'listItem', content: [paragraph([marker, ...(child.content || [])])] });
+    } else if (child.type === 'taskList' && items.length > 0) {
+      items[items.length - 1].content.push(taskListToBulletList(child));
+    }
+  }
+  return { type: 'bulletList', content: items };
+}
+
+function convertTaskList(token: Tokens.List, options: MarkdownToAdfOptions): any {
+  const content: any[] = [];
+
+  for (const item of token.items) {
+    const inline: any[] = [];
+    const nested: any[] = [];
+
+    for (const child of item.tokens) {
+      if (child.type === 'list') {
+        const nestedList = convertList(child as Tokens.List, options);
+        nested.push(nestedList.type === 'taskList' ? nestedList : toTaskList(nestedList));
+      } else if (child.type !== 'space') {
+        if (inline.length > 0) inline.push({ type: 'hardBreak' });
+        inline.push(...convertInline((child as any).tokens || [], options));
+      }
+    }
+
+    content.push({
+      type: 'taskItem',
+      attrs: { localId: nextLocalId(), state: item.checked ? 'DONE' : 'TODO' },
+      content: inline,
+    });
+    content.push(...nested);
+  }
+
+  return { type: 'taskList', attrs: { localId: nextLocalId() }, content };
+}
+
+/**
+ * Turn a plain nested list under a task item into open tasks
+ */
+function toTaskList(list: any): any {
+  return {
+    type: 'taskList',
+    attrs: { localId: nextLocalId() },
+    content: list.content.map((item: any) => ({
+      type: 'taskItem',
+      attrs: { localId: nextLocalId(), state: 'TODO' },
+      content: item.content.find((c: any) => c.type === 'paragraph')?.content || [],
+    })),
+  };
+}
+
+function convertTable(token: Tokens.Table, options: MarkdownToAdfOptions): any {
+  const cell = (type: string, tableCell: Tokens.TableCell) => ({
+    type,
+    attrs: {},
+    content: [paragraph(convertInline(tableCell.tokens, options))],
+  });
+
+  return {
+    type: 'table',
+    attrs: { isNumberColumnEnabled: false, layout: 'default' },
+    content: [
+      { type: 'tableRow', content: token.header.map(c => cell('tableHeader', c)) },
+      ...token.rows.map(row => ({ type: 'tableRow', content: row.map(c => cell('tableCell', c)) })),
+    ],
+  };
+}
+
+function convertInline(tokens: Token[], options: MarkdownToAdfOptions, marks: any[] = []): any[] {
+  const content: any[] = [];
+
+  for (const token of tokens) {
+    switch (token.type) {
+      case 'text':
+      case 'escape':
+        if ('tokens' in token && token.tokens && token.tokens.length > 0) {
+          content.push(...convertInline(token.tokens, options, marks));
+        } else {
+          pushText(content, decodeEntities(token.text), marks);
+        }
+        break;
+
+      case 'strong':
+        content.push(...convertInline(token.tokens || [], options, addMark(marks, { type: 'strong' })));
+        break;
+
+      case 'em':
+        content.push(...convertInline(token.tokens || [], options, addMark(marks, { type: 'em' })));
+        break;
+
+      case 'del':
+        content.push(...convertInline(token.tokens || [], options, addMark(marks, { type: 'strike' })));
+        break;
+
+      case 'codespan': {
+        // The code mark may only be combined with links
+        const link = marks.find(m => m.type === 'link');
+        pushText(content, decodeEntities(token.text), link ? [link, { type: 'code' }] : [{ type: 'code' }]);
+        break;
+      }
+
+      case 'link':
+        content.push(
+          ...convertInline(token.tokens || [], options, addMark(marks, { type: 'link', attrs: { href: token.href } }))
+        );
+        break;
+
+      case 'image':
+        pushText(content, token.text || token.href, addMark(marks, { type: 'link', attrs: { href: token.href } }));
+        break;
+
+      case 'br':
+        content.push({ type: 'hardBreak' });
+        break;
+
+      case 'mention': {
+        const resolved = options.mentions?.[token.target];
+        if (resolved || !String(token.target).includes('@')) {
+          content.push({
+            type: 'mention',
+            attrs: {
+              id: resolved?.accountId || token.target,
+              text: resolved?.displayName ? `@${resolved.displayName}` : undefined,
+            },
+          });
+        } else {
+          pushText(content, token.raw, marks);
+        }
+        break;
+      }
+
+      case 'issueKey':
+        if (marks.some(m => m.type === 'link' || m.type === 'code')) {
+          pushText(content, token.key, marks);
+        } else {
+          content.push({
+            type: 'inlineCard',
+            attrs: { url: `${options.baseUrl!.replace(/\/$/, '')}/browse/${token.key}` },
+          });
+        }
+        break;
+
+      case 'html':
+        pushText(content, token.text, marks);
+        break;
+
+      default:
+        if ('tokens' in token && token.tokens) {
+          content.push(...convertInline(token.tokens, options, marks));
+        } else if (token.raw) {
+          pushText(content, token.raw, marks);
+        }
+    }
+  }
+
+  return content;
+}
+
+function addMark(marks: any[], mark: any): any[] {
+  return marks.some(m => m.type === mark.type) ? marks : [...marks, mark];
+}
+
+function pushText(content: any[], text: string, marks: any[]): void {
+  if (!text) return;
+  const node: any = { type: 'text', text };
+  if (marks.length > 0) {
+    node.marks = marks;
+  }
+  content.push(node);
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,167 @@
+import { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+
+export interface RequestLayerOptions {
+  maxConcurrency?: number; // Maximum in-flight requests (default: 5)
+  maxRetries?: number; // Retries after the first attempt (default: 3)
+  baseDelayMs?: number; // Initial backoff delay (default: 500)
+  maxDelayMs?: number; // Upper bound for a single backoff delay (default: 30000)
+  timeoutMs?: number; // Per-request timeout (default: 30000)
+}
+
+interface LayeredRequestConfig extends InternalAxiosRequestConfig {
+  retryCount?: number;
+  holdsSlot?: boolean;
+}
+
+const IDEMPOTENT_METHODS = new Set(['get', 'head', 'options', 'put', 'delete']);
+
+/**
+ * Simple counting semaphore used to bound concurrent requests
+ */
+class Semaphore {
+  private active = 0;
+  private waiting: (() => void)[] = [];
+
+  constructor(private limit: number) {}
+
+  async acquire(): Promise<void> {
+    if (this.active < this.limit) {
+      this.active++;
+      return;
+    }
+    await new Promise<void>(resolve => this.waiting.push(resolve));
+  }
+
+  release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      // Hand the slot straight to the next waiter
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(header: string | undefined): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * Decide whether a failed request may be retried.
+ * 429s are always safe to retry since Jira rejected the request before processing it;
+ * 5xx and network errors are only retried for idempotent methods.
+ */
+function isRetryable(error: AxiosError, config: LayeredRequestConfig): boolean {
+  // Streamed bodies (multipart uploads) cannot be replayed
+  if (config.data && typeof (config.data as any).pipe === 'function') {
+    return false;
+  }
+
+  const status = error.response?.status;
+  if (status === 429) {
+    return true;
+  }
+
+  const method = (config.method || 'get').toLowerCase();
+  if (!IDEMPOTENT_METHODS.has(method)) {
+    return false;
+  }
+
+  // Network errors and timeouts have no response
+  return status === undefined || status >= 500;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Concurrency limiting, retry with exponential backoff (honoring Retry-After) and a per-request
+ * timeout. One layer can be applied to several axios instances, which then share its concurrency
+ * limit, so JIRA_MAX_CONCURRENCY bounds the whole process.
+ */
+export class RequestLayer {
+  readonly maxConcurrency: number;
+  private maxRetries: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private timeoutMs: number;
+  private semaphore: Semaphore;
+
+  constructor(options: RequestLayerOptions = {}) {
+    this.maxConcurrency = Math.max(1, options.maxConcurrency ?? 5);
+    this.maxRetries = options.maxRetries ?? 3;
+    this.baseDelayMs = options.baseDelayMs ?? 500;
+    this.maxDelayMs = options.maxDelayMs ?? 30000;
+    this.timeoutMs = options.timeoutMs ?? 30000;
+    this.semaphore = new Semaphore(this.maxConcurrency);
+  }
+
+  apply(client: AxiosInstance): void {
+    const semaphore = this.semaphore;
+    client.defaults.timeout = this.timeoutMs;
+
+    const releaseSlot = (config: LayeredRequestConfig | undefined) => {
+      if (config?.holdsSlot) {
+        config.holdsSlot = false;
+        semaphore.release();
+      }
+    };
+
+    client.interceptors.request.use(async (config: LayeredRequestConfig) => {
+      await semaphore.acquire();
+      config.holdsSlot = true;
+      return config;
+    });
+
+    client.interceptors.response.use(
+      response => {
+        releaseSlot(response.config as LayeredRequestConfig);
+        return response;
+      },
+      async (error: AxiosError) => {
+        const config = error.config as LayeredRequestConfig | undefined;
+        releaseSlot(config);
+
+        if (!config || !isRetryable(error, config)) {
+          throw error;
+        }
+
+        const attempt = config.retryCount ?? 0;
+        if (attempt >= this.maxRetries) {
+          throw error;
+        }
+        config.retryCount = attempt + 1;
+
+        const retryAfter = parseRetryAfter(error.response?.headers?.['retry-after'] as string | undefined);
+        const backoff = this.baseDelayMs * Math.pow(2, attempt) * (0.5 + Math.random() / 2); // Jittered exponential backoff
+        await sleep(Math.min(retryAfter ?? backoff, this.maxDelayMs));
+
+        return client.request(config);
+      }
+    );
+  }
+}
+
+/**
+ * Apply a shared request layer to an axios instance, or a new one built from options
+ */
+export function applyRequestLayer(client: AxiosInstance, layer: RequestLayer | RequestLayerOptions = {}): void {
+  (layer instanceof RequestLayer ? layer : new RequestLayer(layer)).apply(client);
+}
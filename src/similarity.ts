@@ -0,0 +1,182 @@
+/**
+ * Local text similarity for duplicate detection
+ * Key-term extraction for candidate JQL and BM25 ranking over weighted fields
+ * (summary, description, comments). Runs entirely on the fetched issue text.
+ */
+
+export interface SimilarityDocument {
+  key: string;
+  fields: { [field: string]: string }; // e.g. summary, description, comments
+}
+
+export interface SimilarityMatch {
+  key: string;
+  score: number; // BM25 score
+  similarity: number; // Score relative to the query matched against itself (0-1)
+  matchedTerms: string[];
+  snippets: { field: string; text: string }[];
+}
+
+export const DEFAULT_FIELD_WEIGHTS: { [field: string]: number } = {
+  summary: 3,
+  text: 3,
+  description: 1,
+  comments: 0.5,
+};
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const SNIPPET_LENGTH = 200;
+
+const STOPWORDS = new Set([
+  'a', 'about', 'after', 'again', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been',
+  'before', 'being', 'but', 'by', 'can', 'could', 'did', 'do', 'does', 'doing', 'for', 'from', 'get', 'got',
+  'had', 'has', 'have', 'having', 'he', 'her', 'here', 'him', 'his', 'how', 'i', 'if', 'in', 'into', 'is', 'it',
+  'its', 'just', 'me', 'more', 'my', 'no', 'not', 'now', 'of', 'on', 'once', 'only', 'or', 'other', 'our', 'out',
+  'over', 'same', 'she', 'should', 'so', 'some', 'such', 'than', 'that', 'the', 'their', 'them', 'then', 'there',
+  'these', 'they', 'this', 'those', 'through', 'to', 'too', 'under', 'until', 'up', 'us', 'very', 'was', 'we',
+  'were', 'what', 'when', 'where', 'which', 'while', 'who', 'why', 'will', 'with', 'would', 'you', 'your',
+  // Bug report boilerplate
+  'actual', 'attachment', 'behavior', 'behaviour', 'expected', 'hi', 'issue', 'please', 'reproduce', 'result',
+  'step', 'steps', 'thank', 'thanks', 'ticket',
+]);
+
+/**
+ * Very light stemming so that plurals match their singular
+ */
+function stem(token: string): string {
+  if (token.length > 4 && token.endsWith('ies')) return `${token.slice(0, -3)}y`;
+  if (token.length > 4 && /(ss|x|z|ch|sh)es$/.test(token)) return token.slice(0, -2);
+  if (token.length > 3 && token.endsWith('s') && !/(ss|us|is)$/.test(token)) return token.slice(0, -1);
+  return token;
+}
+
+export function tokenize(text: string): string[] {
+  return (text || '')
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, ' ') // URLs add noise, not meaning
+    .split(/[^a-z0-9_]+/)
+    .filter(token => token.length > 1 && !STOPWORDS.has(token) && !/^\d+$/.test(token))
+    .map(stem);
+}
+
+function weightedTermFrequencies(
+  document: SimilarityDocument,
+  weights: { [field: string]: number }
+): { frequencies: Map<string, number>; length: number } {
+  const frequencies = new Map<string, number>();
+  let length = 0;
+  for (const [field, text] of Object.entries(document.fields)) {
+    const weight = weights[field] ?? 1;
+    for (const token of tokenize(text)) {
+      frequencies.set(token, (frequencies.get(token) || 0) + weight);
+      length += weight;
+    }
+  }
+  return { frequencies, length };
+}
+
+/**
+ * The most characteristic terms of a document, for building candidate search JQL.
+ * Terms are ranked by weighted frequency; only alphabetic terms of three or more letters qualify.
+ */
+export function keyTerms(
+  document: SimilarityDocument,
+  limit: number = 8,
+  weights: { [field: string]: number } = DEFAULT_FIELD_WEIGHTS
+): string[] {
+  const { frequencies } = weightedTermFrequencies(document, weights);
+  return [...frequencies.entries()]
+    .filter(([term]) => term.length >= 3 && /^[a-z]+$/.test(term))
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([term]) => term);
+}
+
+/**
+ * Passages containing the most query terms, taken from sentences and lines of each field
+ */
+function findSnippets(document: SimilarityDocument, queryTerms: Set<string>, limit: number): { field: string; text: string }[] {
+  const passages: { field: string; text: string; hits: number }[] = [];
+
+  for (const [field, text] of Object.entries(document.fields)) {
+    for (const passage of (text || '').split(/\n+|(?<=[.!?])\s+/)) {
+      const hits = new Set(tokenize(passage).filter(token => queryTerms.has(token))).size;
+      if (hits > 0) {
+        const trimmed = passage.trim();
+        passages.push({
+          field,
+          text: trimmed.length > SNIPPET_LENGTH ? `${trimmed.substring(0, SNIPPET_LENGTH - 3)}...` : trimmed,
+          hits,
+        });
+      }
+    }
+  }
+
+  return passages
+    .sort((a, b) => b.hits - a.hits)
+    .slice(0, limit)
+    .map(({ field, text }) => ({ field, text }));
+}
+
+/**
+ * Rank candidates against the query with BM25, using the candidates themselves as the corpus
+ */
+export function rankSimilar(
+  query: SimilarityDocument,
+  candidates: SimilarityDocument[],
+  options: { top?: number; weights?: { [field: string]: number }; snippets?: number } = {}
+): SimilarityMatch[] {
+  const weights = options.weights || DEFAULT_FIELD_WEIGHTS;
+  const queryTerms = new Set(tokenize(Object.values(query.fields).join('\n')));
+  if (candidates.length === 0 || queryTerms.size === 0) return [];
+
+  const documents = candidates.map(candidate => ({ candidate, ...weightedTermFrequencies(candidate, weights) }));
+  const averageLength = documents.reduce((sum, d) => sum + d.length, 0) / documents.length || 1;
+
+  const documentFrequency = new Map<string, number>();
+  for (const { frequencies } of documents) {
+    for (const term of frequencies.keys()) {
+      if (queryTerms.has(term)) {
+        documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+      }
+    }
+  }
+
+  const idf = (term: string) => {
+    const df = documentFrequency.get(term) || 0;
+    return Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+  };
+
+  const bm25 = (frequencies: Map<string, number>, length: number) => {
+    let score = 0;
+    const matchedTerms: string[] = [];
+    for (const term of queryTerms) {
+      const tf = frequencies.get(term);
+      if (!tf) continue;
+      matchedTerms.push(term);
+      score += idf(term) * ((tf * (K1 + 1)) / (tf + K1 * (1 - B + (B * length) / averageLength)));
+    }
+    return { score, matchedTerms };
+  };
+
+  // A candidate identical to the query scores about as high as the query against itself
+  const self = weightedTermFrequencies(query, weights);
+  const selfScore = bm25(self.frequencies, self.length).score || 1;
+
+  // The sort is stable, so equal scores keep the candidates' order (e.g. newest first)
+  const ranked = documents
+    .map(({ candidate, frequencies, length }) => ({ candidate, ...bm25(frequencies, length) }))
+    .filter(s => s.score > 0)
+    .sort((a, b) => b.score - a.score);
+
+  return ranked.slice(0, options.top ?? 10).map(({ candidate, score, matchedTerms }) => ({
+    key: candidate.key,
+    score: Math.round(score * 100) / 100,
+    similarity: Math.round(Math.min(score / selfScore, 1) * 100) / 100,
+    matchedTerms,
+    snippets: findSnippets(candidate, new Set(matchedTerms), options.snippets ?? 3),
+  }));
+}
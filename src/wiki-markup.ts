@@ -0,0 +1,407 @@
+import { Marked, Token, Tokens } from 'marked';
+import { mentionExtension } from './markdown-to-adf.js';
+
+/**
+ * Converts between GitHub-flavored Markdown and Jira wiki markup, the rich-text format of
+ * Jira Data Center / Server (REST v2). Covers the same constructs as the ADF converters:
+ * headings, emphasis, code, links, nested lists and task lists, tables, quotes, panels
+ * (as GitHub alerts), rules, mentions and images.
+ */
+
+export interface MarkdownToWikiOptions {
+  // Resolved mentions: username keyed by email
+  mentions?: { [email: string]: string };
+}
+
+// Wiki macros for GitHub alert labels, and back
+const ALERT_MACROS: { [alert: string]: string } = {
+  NOTE: 'info',
+  TIP: 'tip',
+  IMPORTANT: 'note',
+  WARNING: 'warning',
+  CAUTION: 'warning',
+};
+
+const MACRO_ALERTS: { [macro: string]: string } = {
+  info: 'NOTE',
+  tip: 'TIP',
+  note: 'IMPORTANT',
+  warning: 'WARNING',
+};
+
+const EMOTICONS: { [emoticon: string]: string } = {
+  '(/)': '✅',
+  '(x)': '❌',
+  '(!)': '⚠️',
+  '(i)': 'ℹ️',
+  '(?)': '❓',
+  '(y)': '👍',
+  '(n)': '👎',
+  '(on)': '💡',
+  '(*)': '⭐',
+};
+
+// Task states in wiki lists, which have no checkboxes. Open items use a neutral marker,
+// since (x) is Jira's error icon.
+const TASK_DONE = '(/)';
+const TASK_OPEN = '(-)';
+
+/**
+ * Converts markdown text to Jira wiki markup
+ */
+export function markdownToWiki(text: string, options: MarkdownToWikiOptions = {}): string {
+  const marked = new Marked({
+    gfm: true,
+    breaks: true, // Keep single line breaks as line breaks
+    extensions: [mentionExtension],
+  });
+
+  // Treat "•" bullets as markdown list items
+  const normalized = text.replace(/^(\s*)•\s/gm, '$1- ');
+  return renderBlocks(marked.lexer(normalized), options);
+}
+
+function renderBlocks(tokens: Token[], options: MarkdownToWikiOptions): string {
+  return tokens
+    .map(token => renderBlock(token, options))
+    .filter(block => block)
+    .join('\n\n');
+}
+
+function renderBlock(token: Token, options: MarkdownToWikiOptions): string {
+  switch (token.type) {
+    case 'space':
+      return '';
+
+    case 'heading':
+      return `h${token.depth}. ${renderInline(token.tokens || [], options)}`;
+
+    case 'paragraph':
+      return renderInline(token.tokens || [], options);
+
+    case 'text':
+      // Text blocks appear in tight list items
+      return token.tokens ? renderInline(token.tokens, options) : escapeText(token.text);
+
+    case 'code':
+      return `{code${token.lang ? `:${token.lang}` : ''}}\n${token.text}\n{code}`;
+
+    case 'hr':
+      return '----';
+
+    case 'blockquote':
+      return renderBlockquote(token as Tokens.Blockquote, options);
+
+    case 'list':
+      return renderList(token as Tokens.List, '', options);
+
+    case 'table':
+      return renderTable(token as Tokens.Table, options);
+
+    case 'html':
+      return token.text.trim();
+
+    default:
+      if ('tokens' in token && token.tokens) {
+        return renderInline(token.tokens, options);
+      }
+      return token.raw?.trim() || '';
+  }
+}
+
+function renderBlockquote(token: Tokens.Blockquote, options: MarkdownToWikiOptions): string {
+  const tokens = [...token.tokens];
+  const first = tokens[0] as Tokens.Paragraph | undefined;
+  const alertMatch = first?.type === 'paragraph' ? /^\[!(\w+)\]/.exec(first.text) : null;
+  const macro = alertMatch ? ALERT_MACROS[alertMatch[1].toUpperCase()] : undefined;
+
+  if (!macro || !first) {
+    return `{quote}\n${renderBlocks(tokens, options)}\n{quote}`;
+  }
+
+  // Drop the [!TYPE] marker (and the line break after it) from the first paragraph
+  const inlineTokens = [...first.tokens];
+  inlineTokens.shift();
+  if (inlineTokens[0]?.type === 'br') {
+    inlineTokens.shift();
+  }
+  const body = [renderInline(inlineTokens, options), renderBlocks(tokens.slice(1), options)].filter(Boolean).join('\n\n');
+  return `{${macro}}\n${body}\n{${macro}}`;
+}
+
+/**
+ * Render a list; nesting repeats the markers of the parent lists ("*", "*#", ...)
+ */
+function renderList(token: Tokens.List, parentMarkers: string, options: MarkdownToWikiOptions): string {
+  const markers = parentMarkers + (token.ordered ? '#' : '*');
+  const lines: string[] = [];
+
+  for (const item of token.items) {
+    const text: string[] = [];
+    const nested: string[] = [];
+
+    for (const child of item.tokens) {
+      if (child.type === 'list') {
+        nested.push(renderList(child as Tokens.List, markers, options));
+      } else if (child.type !== 'space' && child.type !== 'checkbox') {
+        text.push(renderBlock(child, options));
+      }
+    }
+
+    const task = item.task ? `${item.checked ? TASK_DONE : TASK_OPEN} ` : '';
+    // A line break would end the list item, so breaks become forced breaks
+    lines.push(`${markers} ${task}${text.join(' \\\\ ').replace(/\n/g, ' \\\\ ')}`, ...nested);
+  }
+
+  return lines.join('\n');
+}
+
+function renderTable(token: Tokens.Table, options: MarkdownToWikiOptions): string {
+  const cell = (tableCell: Tokens.TableCell) =>
+    renderInline(tableCell.tokens, options).replace(/\n/g, ' \\\\ ').replace(/\|/g, '\\|') || ' ';
+
+  return [
+    `||${token.header.map(cell).join('||')}||`,
+    ...token.rows.map(row => `|${row.map(cell).join('|')}|`),
+  ].join('\n');
+}
+
+function renderInline(tokens: Token[], options: MarkdownToWikiOptions): string {
+  return tokens.map(token => renderInlineToken(token, options)).join('');
+}
+
+function renderInlineToken(token: Token, options: MarkdownToWikiOptions): string {
+  switch (token.type) {
+    case 'text':
+    case 'escape':
+      if ('tokens' in token && token.tokens && token.tokens.length > 0) {
+        return renderInline(token.tokens, options);
+      }
+      return escapeText(decodeEntities(token.text));
+
+    case 'strong':
+      return `*${renderInline(token.tokens || [], options)}*`;
+
+    case 'em':
+      return `_${renderInline(token.tokens || [], options)}_`;
+
+    case 'del':
+      return `-${renderInline(token.tokens || [], options)}-`;
+
+    case 'codespan':
+      return `{{${decodeEntities(token.text)}}}`;
+
+    case 'link': {
+      const text = renderInline(token.tokens || [], options);
+      return text && text !== token.href ? `[${text}|${token.href}]` : `[${token.href}]`;
+    }
+
+    case 'image':
+      return `!${token.href}!`;
+
+    case 'br':
+      return '\n';
+
+    case 'mention': {
+      const target = String(token.target);
+      const username = options.mentions?.[target];
+      if (username) return `[~${username}]`;
+      return target.includes('@') ? token.raw : `[~accountid:${target}]`;
+    }
+
+    case 'html':
+      return token.text;
+
+    default:
+      if ('tokens' in token && token.tokens) {
+        return renderInline(token.tokens, options);
+      }
+      return token.raw || '';
+  }
+}
+
+/**
+ * Escape the characters that would open a macro or a link
+ */
+function escapeText(text: string): string {
+  return text.replace(/([{[])/g, '\\$1');
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Converts Jira wiki markup to Markdown
+ */
+export function wikiToMarkdown(wiki: string): string {
+  if (!wiki) return '';
+
+  const lines = wiki.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: string[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    // Code, noformat and panel-like macros span lines up to their closing tag
+    const macro = /^\s*\{(code|noformat|quote|panel|info|tip|note|warning)(?::([^}]*))?\}(.*)$/.exec(line);
+    if (macro) {
+      const [, name, params, rest] = macro;
+      const closing = `{${name}}`;
+      let text = rest;
+      index++;
+      while (!text.includes(closing) && index < lines.length) {
+        text += `\n${lines[index]}`;
+        index++;
+      }
+      const end = text.indexOf(closing);
+      const body = (end >= 0 ? text.substring(0, end) : text).replace(/^\n+|\n+$/g, '');
+      const after = end >= 0 ? text.substring(end + closing.length).trim() : '';
+
+      blocks.push(renderMacro(name, params, body));
+      if (after) blocks.push(convertInline(after));
+      continue;
+    }
+
+    // Tables: consecutive lines starting with "|"
+    if (/^\s*\|/.test(line)) {
+      const rows: string[] = [];
+      while (index < lines.length && /^\s*\|/.test(lines[index])) {
+        rows.push(lines[index].trim());
+        index++;
+      }
+      blocks.push(renderWikiTable(rows));
+      continue;
+    }
+
+    blocks.push(convertLine(line));
+    index++;
+  }
+
+  return blocks.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+function renderMacro(name: string, params: string | undefined, body: string): string {
+  const paramList = (params || '').split('|');
+
+  if (name === 'code' || name === 'noformat') {
+    const language = name === 'code' ? paramList.find(param => param && !param.includes('=')) || '' : '';
+    return `\n\`\`\`${language}\n${body}\n\`\`\`\n`;
+  }
+
+  const title = paramList.find(param => param.startsWith('title='))?.substring('title='.length);
+  const alert = MACRO_ALERTS[name];
+  const content = [title ? `**${title}**` : '', wikiToMarkdown(body)].filter(Boolean).join('\n\n');
+  const quoted = content
+    .split('\n')
+    .map(line => (line ? `> ${line}` : '>'))
+    .join('\n');
+  return `\n${alert ? `> [!${alert}]\n` : ''}${quoted}\n`;
+}
+
+function convertLine(line: string): string {
+  const heading = /^\s*h([1-6])\.\s+(.*)$/.exec(line);
+  if (heading) {
+    return `${'#'.repeat(Number(heading[1]))} ${convertInline(heading[2])}`;
+  }
+
+  const blockquote = /^\s*bq\.\s+(.*)$/.exec(line);
+  if (blockquote) {
+    return `> ${convertInline(blockquote[1])}`;
+  }
+
+  if (/^\s*-{4,}\s*$/.test(line)) {
+    return '---';
+  }
+
+  const listItem = /^\s*([*#]+|-)\s+(.*)$/.exec(line);
+  if (listItem) {
+    const markers = listItem[1] === '-' ? '*' : listItem[1];
+    // Nested items are indented under the text of their parent item
+    const indent = [...markers.slice(0, -1)].map(marker => (marker === '#' ? '   ' : '  ')).join('');
+    const bullet = markers.endsWith('#') ? '1.' : '-';
+    const text = listItem[2]
+      .replace(/^\(\/\)\s+/, '[x] ')
+      .replace(/^\(-\)\s+/, '[ ] ');
+    return `${indent}${bullet} ${convertInline(text)}`;
+  }
+
+  return convertInline(line);
+}
+
+function renderWikiTable(rows: string[]): string {
+  const table = rows.map(row =>
+    splitWikiCells(row).map(cell => convertInline(cell.trim()).replace(/\|/g, '\\|'))
+  );
+  const width = Math.max(...table.map(row => row.length));
+  const line = (row: string[]) => `| ${[...row, ...Array(width - row.length).fill('')].join(' | ')} |`;
+
+  return [`\n${line(table[0])}`, `| ${Array(width).fill('---').join(' | ')} |`, ...table.slice(1).map(line)].join('\n') + '\n';
+}
+
+/**
+ * Split a table row at its "|" and "||" separators, skipping escaped pipes and pipes inside [links]
+ */
+function splitWikiCells(row: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let depth = 0;
+
+  for (let i = 0; i < row.length; i++) {
+    const char = row[i];
+    if (char === '\\' && i + 1 < row.length) {
+      cell += char + row[++i];
+    } else if (char === '[') {
+      depth++;
+      cell += char;
+    } else if (char === ']') {
+      depth = Math.max(0, depth - 1);
+      cell += char;
+    } else if (char === '|' && depth === 0) {
+      cells.push(cell);
+      cell = '';
+      if (row[i + 1] === '|') i++;
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+
+  // Drop the empty pieces before the leading and after the trailing separator
+  return cells.slice(1, cell.trim() ? undefined : -1);
+}
+
+function convertInline(text: string): string {
+  // Keep monospace text away from the other replacements
+  const code: string[] = [];
+  let result = text.replace(/\{\{(.+?)\}\}/g, (_, content) => {
+    code.push(content);
+    return `\u0000${code.length - 1}\u0000`;
+  });
+
+  result = result
+    .replace(/\[~accountid:([^\]]+)\]/g, '@accountid:$1')
+    .replace(/\[~([^\]]+)\]/g, '@$1')
+    .replace(/\[\^([^\]]+)\]/g, '`$1`') // Attachment links
+    .replace(/\[([^\]|]+)\|([^\]|]+)(?:\|[^\]]*)?\]/g, '[$1]($2)')
+    .replace(/\[((?:https?|ftp|mailto|file):[^\]|\s]+)\]/g, '<$1>')
+    .replace(/!([^!\s|]+?)(?:\|[^!]*)?!/g, (_, source) => `![${source.split('/').pop()}](${source})`)
+    .replace(/(?<![\w*\\])\*(?=\S)([^*\n]*?\S)\*(?![\w*])/g, '**$1**')
+    .replace(/(?<![\w\\-])-(?=[^\s-])([^\n]*?[^\s-])-(?![\w-])/g, '~~$1~~')
+    .replace(/(?<![\w\\+])\+(?=\S)([^+\n]*?\S)\+(?![\w+])/g, '<u>$1</u>')
+    .replace(/(?<![\w\\^])\^(?=\S)([^^\n]*?\S)\^(?![\w^])/g, '<sup>$1</sup>')
+    .replace(/(?<![\w\\~])~(?=\S)([^~\n]*?\S)~(?![\w~])/g, '<sub>$1</sub>')
+    .replace(/(?<![\w?])\?\?(?=\S)(.*?\S)\?\?(?![\w?])/g, '*$1*')
+    .replace(/\{color(?::[^}]*)?\}|\{anchor(?::[^}]*)?\}/g, '')
+    .replace(/\\\\/g, '  \n')
+    .replace(/\((\/|x|!|i|\?|y|n|on|\*)\)/g, match => EMOTICONS[match] ?? match)
+    .replace(/\\([{}[\]*_+^~?!|#-])/g, '$1');
+
+  return result.replace(/\u0000(\d+)\u0000/g, (_, i) => `\`${code[Number(i)]}\``);
+}
@@ -0,0 +1,159 @@
+/**
+ * Worklog helpers: human durations ("1h 30m") and timesheet aggregation
+ * Durations follow Jira's default time tracking settings of 8 hours per day and 5 days per week.
+ */
+
+export interface DurationSettings {
+  hoursPerDay: number;
+  daysPerWeek: number;
+}
+
+export const DEFAULT_DURATION_SETTINGS: DurationSettings = {
+  hoursPerDay: 8,
+  daysPerWeek: 5,
+};
+
+export interface TimesheetWorklog {
+  issueKey: string;
+  authorId: string; // Account id on Cloud, username on Data Center
+  author: string; // Display name, shown as the label
+  started: string;
+  timeSpentSeconds: number;
+}
+
+export interface TimesheetIssue {
+  issueKey: string;
+  summary?: string;
+  pods?: string[]; // Values of the pod field; empty when not set
+  originalEstimateSeconds?: number | null;
+  timeSpentSeconds?: number | null; // All time, not only the timesheet range
+}
+
+function unitSeconds(settings: DurationSettings): { [unit: string]: number } {
+  return {
+    w: settings.daysPerWeek * settings.hoursPerDay * 3600,
+    d: settings.hoursPerDay * 3600,
+    h: 3600,
+    m: 60,
+  };
+}
+
+/**
+ * Parse a duration such as "1h 30m", "2d", "1.5h" or "45m" into seconds
+ */
+export function parseDuration(text: string, settings: DurationSettings = DEFAULT_DURATION_SETTINGS): number {
+  const units = unitSeconds(settings);
+  const normalized = String(text).trim().toLowerCase();
+  const pattern = /(\d+(?:\.\d+)?)\s*([wdhm])/g;
+
+  let seconds = 0;
+  let consumed = '';
+  for (const match of normalized.matchAll(pattern)) {
+    seconds += Number(match[1]) * units[match[2]];
+    consumed += match[0];
+  }
+
+  if (!consumed || consumed.replace(/\s/g, '') !== normalized.replace(/\s/g, '')) {
+    throw new Error(`Invalid duration "${text}". Use e.g. "1h 30m", "2d" or "45m" (w, d, h, m)`);
+  }
+  if (seconds < 60) {
+    throw new Error(`Duration "${text}" must be at least one minute`);
+  }
+
+  return Math.round(seconds);
+}
+
+/**
+ * Format seconds as a duration such as "1d 2h 30m"
+ */
+export function formatDuration(seconds: number, settings: DurationSettings = DEFAULT_DURATION_SETTINGS): string {
+  const units = unitSeconds(settings);
+  let remaining = Math.round(seconds / 60) * 60;
+  const parts: string[] = [];
+
+  for (const unit of ['w', 'd', 'h', 'm']) {
+    const count = Math.floor(remaining / units[unit]);
+    if (count > 0) {
+      parts.push(`${count}${unit}`);
+      remaining -= count * units[unit];
+    }
+  }
+
+  return parts.length ? parts.join(' ') : '0m';
+}
+
+function hours(seconds: number): number {
+  return Math.round((seconds / 3600) * 100) / 100;
+}
+
+function total(seconds: number) {
+  return { hours: hours(seconds), duration: formatDuration(seconds) };
+}
+
+/**
+ * Aggregate worklogs per user, per issue (with estimate vs actual) and per pod.
+ * Users are told apart by id, since display names need not be unique.
+ * Time on an issue in several pods is credited to each of them, so pod totals can exceed the total.
+ */
+export function buildTimesheet(worklogs: TimesheetWorklog[], issues: TimesheetIssue[]): any {
+  const issuesByKey = new Map(issues.map(issue => [issue.issueKey, issue]));
+
+  const byUser = new Map<string, { name: string; seconds: number; issues: Map<string, number> }>();
+  const byIssue = new Map<string, { seconds: number; users: Map<string, string> }>();
+  const byPod = new Map<string, number>();
+  let totalSeconds = 0;
+
+  for (const worklog of worklogs) {
+    totalSeconds += worklog.timeSpentSeconds;
+
+    const user = byUser.get(worklog.authorId) ?? { name: worklog.author, seconds: 0, issues: new Map<string, number>() };
+    user.seconds += worklog.timeSpentSeconds;
+    user.issues.set(worklog.issueKey, (user.issues.get(worklog.issueKey) || 0) + worklog.timeSpentSeconds);
+    byUser.set(worklog.authorId, user);
+
+    const issue = byIssue.get(worklog.issueKey) ?? { seconds: 0, users: new Map<string, string>() };
+    issue.seconds += worklog.timeSpentSeconds;
+    issue.users.set(worklog.authorId, worklog.author);
+    byIssue.set(worklog.issueKey, issue);
+
+    const pods = issuesByKey.get(worklog.issueKey)?.pods;
+    for (const pod of pods?.length ? pods : ['(not set)']) {
+      byPod.set(pod, (byPod.get(pod) || 0) + worklog.timeSpentSeconds);
+    }
+  }
+
+  return {
+    total: { ...total(totalSeconds), worklogs: worklogs.length },
+    byUser: [...byUser.entries()]
+      .sort((a, b) => b[1].seconds - a[1].seconds)
+      .map(([userId, entry]) => ({
+        user: entry.name,
+        userId,
+        ...total(entry.seconds),
+        issues: [...entry.issues.entries()]
+          .sort((a, b) => b[1] - a[1])
+          .map(([issueKey, seconds]) => ({ issueKey, summary: issuesByKey.get(issueKey)?.summary, ...total(seconds) })),
+      })),
+    byIssue: [...byIssue.entries()]
+      .sort((a, b) => b[1].seconds - a[1].seconds)
+      .map(([issueKey, entry]) => {
+        const issue = issuesByKey.get(issueKey);
+        const estimate = issue?.originalEstimateSeconds;
+        const spent = issue?.timeSpentSeconds;
+        return {
+          issueKey,
+          summary: issue?.summary,
+          pods: issue?.pods ?? [],
+          ...total(entry.seconds),
+          users: [...entry.users.values()],
+          // Estimate vs actual uses all time logged on the issue
+          originalEstimate: estimate ? formatDuration(estimate) : null,
+          totalLogged: spent ? formatDuration(spent) : null,
+          estimateUsedPercent: estimate && spent ? Math.round((spent / estimate) * 100) : null,
+        };
+      }),
+    byPod: [...byPod.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .map(([pod, seconds]) => ({ pod, ...total(seconds) })),
+  };
+}
@@ -0,0 +1,122 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, describe, expect, it } from 'vitest';
+import { AccessPolicy, WriteTargetSources, writeTargetKeys } from '../src/access-policy.js';
+
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'access-policy-test-'));
+
+afterAll(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+describe('AccessPolicy tools', () => {
+  it('allows every tool by default', () => {
+    const policy = new AccessPolicy({});
+    expect(policy.allowsTool('update_issue')).toBe(true);
+    expect(policy.scoped).toBe(false);
+  });
+
+  it('refuses write tools in read-only mode but keeps read tools', () => {
+    const policy = new AccessPolicy({ readOnly: true });
+    expect(policy.allowsTool('get_issue')).toBe(true);
+    expect(policy.allowsTool('undo_last_change')).toBe(false);
+    expect(() => policy.checkTool('add_comment')).toThrow('add_comment is not available: this server is running in read-only mode.');
+  });
+
+  it('matches tool patterns and reports patterns that match nothing', () => {
+    const policy = new AccessPolicy({ tools: ['get_*', 'search_issues', 'serch_*'] });
+    expect(policy.allowsTool('get_issue_timeline')).toBe(true);
+    expect(policy.allowsTool('search_issues')).toBe(true);
+    expect(policy.allowsTool('search_issues_by_text')).toBe(false);
+    expect(() => policy.checkTool('create_issue')).toThrow("it is not in this server's list of allowed tools");
+    expect(policy.unmatchedTools(['get_issue', 'search_issues'])).toEqual(['serch_*']);
+  });
+});
+
+describe('AccessPolicy targets', () => {
+  const policy = new AccessPolicy({ projects: ['abc'], issueTypes: ['Bug', 'Task'] });
+
+  it('allows targets in an allowed project and issue type, ignoring case', () => {
+    expect(() =>
+      policy.checkTargets('update_issue', [
+        { issueKey: 'ABC-1', project: 'ABC', issueType: 'bug' },
+        { project: 'abc', issueType: 'Task' },
+      ])
+    ).not.toThrow();
+  });
+
+  it('refuses every target outside the scope or not found, naming each', () => {
+    expect(() =>
+      policy.checkTargets('bulk_update', [
+        { issueKey: 'ABC-1', project: 'ABC', issueType: 'Bug' },
+        { issueKey: 'OPS-2', project: 'OPS', issueType: 'Bug' },
+        { issueKey: 'ABC-3', project: 'ABC', issueType: 'Epic' },
+        { issueKey: 'ABC-4' },
+      ])
+    ).toThrow(
+      "bulk_update would change issues outside this server's scope: OPS-2 is in project OPS; ABC-3 is a Epic; " +
+        'ABC-4 could not be found. Only projects abc and issue types Bug, Task may be changed.'
+    );
+  });
+});
+
+describe('AccessPolicy.load', () => {
+  it('reads a YAML file and lets overrides take precedence', () => {
+    const file = path.join(directory, 'policy.yaml');
+    fs.writeFileSync(file, 'readOnly: true\nprojects:\n  - ABC\n');
+
+    const policy = AccessPolicy.load(file, { readOnly: false, tools: undefined });
+    expect(policy.describe()).toEqual({
+      source: `${file} + environment`,
+      readOnly: false,
+      tools: 'all',
+      projects: ['ABC'],
+      issueTypes: 'all',
+    });
+  });
+
+  it('rejects lists given as plain values and missing files', () => {
+    const file = path.join(directory, 'policy.json');
+    fs.writeFileSync(file, JSON.stringify({ projects: 'ABC' }));
+
+    expect(() => AccessPolicy.load(file)).toThrow(`Access policy ${file}: "projects" must be a list`);
+    expect(() => AccessPolicy.load(path.join(directory, 'missing.json'))).toThrow('Access policy file not found');
+  });
+});
+
+describe('writeTargetKeys', () => {
+  const sources: WriteTargetSources = {
+    getIssueLink: async linkId => (linkId === '100' ? { inwardIssue: 'ABC-1', outwardIssue: 'OPS-2' } : {}),
+    pendingIssueKeys: token => (token === 'token-1' ? ['ABC-1', 'ABC-2'] : undefined),
+    lastUndoableIssueKeys: issueKey => (issueKey ? [issueKey] : ['ABC-7', 'OPS-8']),
+  };
+
+  it('targets both issues of a link', async () => {
+    expect(await writeTargetKeys('link_issues', { issueKey: 'abc-1', targetIssueKey: 'OPS-2' }, sources)).toEqual([
+      'ABC-1',
+      'OPS-2',
+    ]);
+  });
+
+  it('looks up the issues of a link removed by id', async () => {
+    expect(await writeTargetKeys('unlink_issues', { linkId: '100' }, sources)).toEqual(['ABC-1', 'OPS-2']);
+    expect(await writeTargetKeys('unlink_issues', { issueKey: 'ABC-1', targetIssueKey: 'ABC-1' }, sources)).toEqual([
+      'ABC-1',
+    ]);
+  });
+
+  it('targets the issues of a pending bulk plan, and none for a preview', async () => {
+    expect(await writeTargetKeys('bulk_update', { confirmationToken: 'token-1' }, sources)).toEqual(['ABC-1', 'ABC-2']);
+    expect(await writeTargetKeys('bulk_comment', { jql: 'project = ABC' }, sources)).toEqual([]);
+    expect(await writeTargetKeys('bulk_transition', { confirmationToken: 'expired' }, sources)).toEqual([]);
+  });
+
+  it('targets the issues the last undoable change would restore', async () => {
+    expect(await writeTargetKeys('undo_last_change', {}, sources)).toEqual(['ABC-7', 'OPS-8']);
+    expect(await writeTargetKeys('undo_last_change', { issueKey: 'ABC-9' }, sources)).toEqual(['ABC-9']);
+  });
+
+  it('targets the issue of other write tools', async () => {
+    expect(await writeTargetKeys('move_issues_to_sprint', { issueKeys: ['ABC-1', 'abc-1'] }, sources)).toEqual(['ABC-1']);
+    expect(await writeTargetKeys('add_comment', { issueKey: 'ABC-5' }, sources)).toEqual(['ABC-5']);
+  });
+});
@@ -0,0 +1,83 @@
+import fs from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { adfToMarkdown, findMentionIds } from '../src/adf-to-markdown.js';
+import { textToADF } from '../src/markdown-to-adf.js';
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'adf');
+
+/**
+ * Each fixture is a pair: <name>.json holds the ADF document (and render options),
+ * <name>.md the Markdown it must render to
+ */
+const fixtures = fs
+  .readdirSync(FIXTURES)
+  .filter(file => file.endsWith('.json'))
+  .map(file => path.basename(file, '.json'));
+
+describe('adfToMarkdown fixtures', () => {
+  it.each(fixtures)('%s', name => {
+    const { doc, options } = JSON.parse(fs.readFileSync(path.join(FIXTURES, `${name}.json`), 'utf-8'));
+    const expected = fs.readFileSync(path.join(FIXTURES, `${name}.md`), 'utf-8').replace(/\n$/, '');
+    expect(adfToMarkdown(doc, options)).toBe(expected);
+  });
+});
+
+describe('Markdown round trip', () => {
+  // Markdown that textToADF and adfToMarkdown turn back into itself
+  const samples = [
+    '## Summary\n\nThe **import** job failed with `ENOSPC` on *node-3*.',
+    '- Symptoms\n  - timeouts\n  - retries\n- Cause',
+    '1. Drain\n2. Restart\n3. Verify',
+    '- [x] Roll back\n- [ ] Write RCA',
+    '> [!WARNING]\n> Do not restart the primary.',
+    '> Quoted from the customer',
+    '| Service | Impact |\n| --- | --- |\n| api | errors |',
+    '```sql\nSELECT 1;\n```',
+    'See [the runbook](https://wiki.example.com/runbook) for ~~old~~ steps.',
+    '---',
+  ];
+
+  it.each(samples)('%s', markdown => {
+    expect(adfToMarkdown(textToADF(markdown))).toBe(markdown);
+  });
+});
+
+describe('applying marks', () => {
+  it('keeps code spans and links around whitespace-only text', () => {
+    const doc = {
+      type: 'doc',
+      content: [
+        {
+          type: 'paragraph',
+          content: [
+            { type: 'text', text: 'a' },
+            { type: 'text', text: ' ', marks: [{ type: 'strong' }] },
+            { type: 'text', text: '  ', marks: [{ type: 'code' }] },
+            { type: 'text', text: ' ', marks: [{ type: 'link', attrs: { href: 'https://example.com' } }] },
+          ],
+        },
+      ],
+    };
+    expect(adfToMarkdown(doc)).toBe('a `  `[ ](https://example.com)');
+  });
+});
+
+describe('findMentionIds', () => {
+  it('lists mentions without text once', () => {
+    const body = {
+      type: 'doc',
+      content: [
+        {
+          type: 'paragraph',
+          content: [
+            { type: 'mention', attrs: { id: 'a' } },
+            { type: 'mention', attrs: { id: 'b', text: '@Bo' } },
+            { type: 'mention', attrs: { id: 'a' } },
+          ],
+        },
+      ],
+    };
+    expect(findMentionIds(body, undefined, 'wiki text')).toEqual(['a']);
+  });
+});
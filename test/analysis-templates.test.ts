@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisTemplateRegistry } from '../src/analysis-templates.js';
+import { CommentClassifier } from '../src/comment-classifier.js';
+
+const context = { commentClassifier: CommentClassifier.load() };
+const ticketData = { issueKey: 'PROJ-1', summary: 'Broken', customFields: { Source: 'Email' } };
+
+describe('AnalysisTemplateRegistry', () => {
+  it('treats a section map with spec-like keys as a map', () => {
+    const registry = new AnalysisTemplateRegistry([
+      {
+        name: 'intake',
+        sections: {
+          origin: { source: { field: 'Source' }, default: { source: 'summary' } },
+          summary: { source: 'summary' },
+        },
+      },
+    ]);
+
+    const analysis = registry.render(registry.select(ticketData, 'intake'), ticketData, context);
+    expect(analysis).toEqual({ origin: { source: 'Email', default: 'Broken' }, summary: 'Broken' });
+  });
+
+  it('rejects map entries that are not value specs', () => {
+    expect(
+      () => new AnalysisTemplateRegistry([{ name: 'bad', sections: { info: { summary: { sorce: 'summary' } as any } } }])
+    ).toThrow('value "info.summary" is not a value spec');
+  });
+});
@@ -0,0 +1,67 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, afterEach, describe, expect, it } from 'vitest';
+import { AuditLog, restorableFields } from '../src/audit-log.js';
+import { startMockJira, stopMockJira } from './mock-jira.js';
+
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-log-test-'));
+
+afterEach(stopMockJira);
+afterAll(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+describe('AuditLog', () => {
+  it('redacts secrets in arguments and field snapshots, but keeps confirmation tokens', () => {
+    const log = new AuditLog(path.join(directory, 'audit.jsonl'), ['s3cr3t']);
+    const entry = log.append({
+      timestamp: '2024-05-01T09:00:00Z',
+      tool: 'bulk_update',
+      arguments: { confirmationToken: 'abc123', apiToken: 'x' },
+      issueKeys: ['A-1'],
+      before: { 'A-1': { description: 'token is s3cr3t' } },
+      after: { 'A-1': { description: 'rotated s3cr3t' } },
+      success: true,
+    });
+
+    expect(entry.arguments).toEqual({ confirmationToken: 'abc123', apiToken: '[REDACTED]' });
+    expect(entry.before).toEqual({ 'A-1': { description: 'token is [REDACTED]' } });
+    expect(entry.after).toEqual({ 'A-1': { description: 'rotated [REDACTED]' } });
+    expect(fs.readFileSync(log.filePath, 'utf-8')).not.toContain('s3cr3t');
+  });
+
+  it('keeps redacted snapshot fields out of undo', () => {
+    const log = new AuditLog(path.join(directory, 'undo.jsonl'), ['s3cr3t']);
+    log.append({
+      timestamp: '2024-05-01T09:00:00Z',
+      tool: 'update_issue',
+      arguments: { issueKey: 'A-1' },
+      issueKeys: ['A-1', 'A-2'],
+      before: {
+        'A-1': { summary: 'Old', description: 'password s3cr3t', customfield_1: { apiToken: 'x' } },
+        'A-2': { description: 'uses s3cr3t' },
+      },
+      after: { 'A-1': { summary: 'New', description: 'cleaned', customfield_1: null }, 'A-2': { description: 'gone' } },
+      success: true,
+    });
+
+    const undoable = log.lastUndoable()!;
+    expect(undoable.entry.redactedFields).toEqual({ 'A-1': ['description', 'customfield_1'], 'A-2': ['description'] });
+    // A-2 has nothing left that undo could write back
+    expect(undoable.issueKeys).toEqual(['A-1']);
+    expect(restorableFields(undoable.entry, 'A-1')).toEqual({ summary: 'Old' });
+  });
+});
+
+describe('JiraClient.updateIssue rawFields', () => {
+  it('sends recorded values unchanged, without rich-text conversion', async () => {
+    const puts: any[] = [];
+    const client = await startMockJira('datacenter', (method, _, body) => {
+      if (method === 'PUT') puts.push(body);
+      return {};
+    });
+
+    const description = 'h2. Steps\n* {{run}} it\n[docs|https://example.com]';
+    await client.updateIssue('A-1', { rawFields: { description, labels: ['x'] } });
+    expect(puts).toEqual([{ fields: { description, labels: ['x'] } }]);
+  });
+});
@@ -0,0 +1,123 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { BulkOperations } from '../src/bulk-operations.js';
+import { MockRoute, startMockJira, stopMockJira } from './mock-jira.js';
+
+afterEach(stopMockJira);
+
+const SEVERITY = { type: 'option', custom: 'com.atlassian.jira.plugin.system.customfieldtypes:select' };
+
+const TASK = { id: '3', name: 'Task' };
+
+/**
+ * Issues with a Severity select field. Each project has its own field context, so the same
+ * option has a different id in project B.
+ */
+const ISSUES = [
+  { id: '101', key: 'A-1', fields: { summary: 'One', project: { id: '10' }, issuetype: TASK, customfield_10020: { value: 'High' } } },
+  { id: '102', key: 'A-2', fields: { summary: 'Two', project: { id: '10' }, issuetype: TASK, customfield_10020: { value: 'Low' } } },
+  { id: '201', key: 'B-1', fields: { summary: 'Three', project: { id: '20' }, issuetype: TASK, customfield_10020: null } },
+];
+
+function severitySite(
+  api: string,
+  requests: { method: string; path: string; body: any }[],
+  issueKeys: string[] = ['A-1', 'A-2']
+): MockRoute {
+  return (method, path, body) => {
+    requests.push({ method, path, body });
+    if (path === `${api}/field`) {
+      return [
+        ...['summary', 'project', 'issuetype'].map(id => ({ id, name: id, custom: false, schema: { type: id, system: id } })),
+        { id: 'customfield_10020', name: 'Severity', custom: true, schema: SEVERITY },
+      ];
+    }
+    if (path === `${api}/search/jql` || path === `${api}/search`) {
+      return { total: issueKeys.length, isLast: true, issues: ISSUES.filter(issue => issueKeys.includes(issue.key)) };
+    }
+    if (path.endsWith('/editmeta')) {
+      const offset = path.includes('/issue/B-') ? 10 : 0;
+      return {
+        fields: {
+          customfield_10020: {
+            name: 'Severity',
+            schema: SEVERITY,
+            allowedValues: [
+              { id: String(1 + offset), value: 'High' },
+              { id: String(2 + offset), value: 'Low' },
+            ],
+          },
+        },
+      };
+    }
+    if (method === 'POST' && path === `${api}/bulk/issues/fields`) return { taskId: 'task-1' };
+    if (path === `${api}/bulk/queue/task-1`) return { status: 'COMPLETE', processedAccessibleIssues: [102] };
+    if (method === 'PUT' && path.startsWith(`${api}/issue/`)) return {};
+    return undefined;
+  };
+}
+
+describe('BulkOperations.planUpdate', () => {
+  it('compares raw values with the wanted value coerced against each field context', async () => {
+    const requests: { method: string; path: string; body: any }[] = [];
+    const client = await startMockJira('cloud', severitySite('/rest/api/3', requests, ['A-1', 'A-2', 'B-1']));
+    const preview = await new BulkOperations(client).planUpdate({ issueKeys: ['A-1', 'A-2', 'B-1'] }, { Severity: 'High' });
+
+    expect(preview.unchanged).toEqual(['A-1']);
+    expect(preview.changes).toEqual([
+      { issueKey: 'A-2', summary: 'Two', changes: [{ field: 'Severity', from: 'Low', to: 'High' }] },
+      { issueKey: 'B-1', summary: 'Three', changes: [{ field: 'Severity', from: null, to: 'High' }] },
+    ]);
+    // Coerced like applying does: against the edit screen, once per project and issue type
+    expect(requests.filter(request => request.path.endsWith('/editmeta')).map(request => request.path)).toEqual([
+      '/rest/api/3/issue/A-1/editmeta',
+      '/rest/api/3/issue/B-1/editmeta',
+    ]);
+  });
+});
+
+describe('BulkOperations.apply', () => {
+  it('sets fields with one bulk edit on Cloud', async () => {
+    const requests: { method: string; path: string; body: any }[] = [];
+    const client = await startMockJira('cloud', severitySite('/rest/api/3', requests));
+    const bulk = new BulkOperations(client);
+    const { confirmationToken } = await bulk.planUpdate({ issueKeys: ['A-1', 'A-2'] }, { Severity: 'High' });
+
+    const result = await bulk.apply('update', confirmationToken);
+    expect(result).toMatchObject({ succeeded: 1, failed: 0, task: { taskId: 'task-1', status: 'COMPLETE' } });
+    expect(requests.find(request => request.path.endsWith('/bulk/issues/fields'))?.body).toEqual({
+      selectedIssueIdsOrKeys: ['A-2'],
+      selectedActions: ['customfield_10020'],
+      editedFieldsInput: { singleSelectFields: [{ fieldId: 'customfield_10020', option: { optionId: '1' } }] },
+      sendBulkNotification: true,
+    });
+    expect(requests.some(request => request.method === 'PUT')).toBe(false);
+  });
+
+  it('updates issue by issue when option ids differ between field contexts', async () => {
+    const requests: { method: string; path: string; body: any }[] = [];
+    const client = await startMockJira('cloud', severitySite('/rest/api/3', requests, ['A-2', 'B-1']));
+    const bulk = new BulkOperations(client);
+    const { confirmationToken } = await bulk.planUpdate({ issueKeys: ['A-2', 'B-1'] }, { Severity: 'High' });
+
+    const result = await bulk.apply('update', confirmationToken);
+    expect(result).toMatchObject({ succeeded: 2, failed: 0 });
+    expect(requests.some(request => request.path.endsWith('/bulk/issues/fields'))).toBe(false);
+    expect(requests.filter(request => request.method === 'PUT').map(request => request.path).sort()).toEqual([
+      '/rest/api/3/issue/A-2',
+      '/rest/api/3/issue/B-1',
+    ]);
+  });
+
+  it('updates issue by issue on Data Center', async () => {
+    const requests: { method: string; path: string; body: any }[] = [];
+    const client = await startMockJira('datacenter', severitySite('/rest/api/2', requests));
+    const bulk = new BulkOperations(client);
+    const { confirmationToken } = await bulk.planUpdate({ issueKeys: ['A-1', 'A-2'] }, { Severity: 'High' });
+
+    const result = await bulk.apply('update', confirmationToken);
+    expect(result).toMatchObject({ succeeded: 1, failed: 0 });
+    expect(requests.filter(request => request.method === 'PUT')).toEqual([
+      { method: 'PUT', path: '/rest/api/2/issue/A-2', body: { fields: { customfield_10020: { value: 'High' } } } },
+    ]);
+  });
+});
@@ -0,0 +1,85 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { buildDependencyGraph } from '../src/dependency-graph.js';
+import { startMockJira, stopMockJira } from './mock-jira.js';
+
+afterEach(stopMockJira);
+
+const status = { name: 'Open', statusCategory: { key: 'new' } };
+
+const FIELDS = [
+  ...['summary', 'status', 'issuetype'].map(id => ({ id, name: id, custom: false })),
+  { id: 'customfield_10008', name: 'Epic Link', custom: true, schema: { type: 'any' } },
+];
+
+describe('buildDependencyGraph on Data Center', () => {
+  it('finds epic children through the Epic Link field', async () => {
+    const searches: string[] = [];
+    const client = await startMockJira('datacenter', (method, path, body) => {
+      if (path === '/rest/api/2/issue/PROJ-1') {
+        return { key: 'PROJ-1', fields: { summary: 'Epic', issuetype: { name: 'Epic' }, status, issuelinks: [], subtasks: [] } };
+      }
+      if (path === '/rest/api/2/field') {
+        return FIELDS;
+      }
+      if (method === 'POST' && path === '/rest/api/2/search') {
+        searches.push(body.jql);
+        return {
+          total: 1,
+          issues: [
+            { key: 'PROJ-2', fields: { summary: 'Story', issuetype: { name: 'Story' }, status, customfield_10008: 'PROJ-1' } },
+          ],
+        };
+      }
+      return undefined;
+    });
+
+    const graph = await buildDependencyGraph(client, 'PROJ-1', { depth: 1 });
+    expect(searches).toEqual(['"Epic Link" in (PROJ-1) ORDER BY key']);
+    expect(graph.nodes.map(node => node.key)).toEqual(['PROJ-1', 'PROJ-2']);
+    expect(graph.edges).toEqual([{ from: 'PROJ-1', to: 'PROJ-2', kind: 'child', type: 'Child', relation: 'has child' }]);
+  });
+
+  it('skips children whose epic cannot be determined', async () => {
+    const epic = (key: string) => ({
+      key,
+      fields: { summary: 'Epic', issuetype: { name: 'Epic' }, status, issuelinks: [], subtasks: [] },
+    });
+    const client = await startMockJira('datacenter', (method, path) => {
+      if (path === '/rest/api/2/issue/PROJ-1') {
+        return {
+          key: 'PROJ-1',
+          fields: {
+            summary: 'Story',
+            issuetype: { name: 'Story' },
+            status,
+            issuelinks: [
+              { id: '1', type: { name: 'Relates', outward: 'relates to' }, outwardIssue: epic('PROJ-10') },
+              { id: '2', type: { name: 'Relates', outward: 'relates to' }, outwardIssue: epic('PROJ-20') },
+            ],
+            subtasks: [],
+          },
+        };
+      }
+      if (path === '/rest/api/2/issue/PROJ-10' || path === '/rest/api/2/issue/PROJ-20') return epic(path.split('/').at(-1)!);
+      if (path === '/rest/api/2/field') {
+        return FIELDS;
+      }
+      if (method === 'POST' && path === '/rest/api/2/search') {
+        return {
+          total: 2,
+          issues: [
+            { key: 'PROJ-21', fields: { summary: 'Known', issuetype: { name: 'Story' }, status, customfield_10008: 'PROJ-20' } },
+            { key: 'PROJ-99', fields: { summary: 'Unknown', issuetype: { name: 'Story' }, status } },
+          ],
+        };
+      }
+      return undefined;
+    });
+
+    const graph = await buildDependencyGraph(client, 'PROJ-1', { depth: 2 });
+    expect(graph.nodes.map(node => node.key)).not.toContain('PROJ-99');
+    expect(graph.edges.filter(edge => edge.kind === 'child')).toEqual([
+      { from: 'PROJ-20', to: 'PROJ-21', kind: 'child', type: 'Child', relation: 'has child' },
+    ]);
+  });
+});
@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { JiraClient } from '../src/jira-client.js';
+import { startMockJira, stopMockJira } from './mock-jira.js';
+
+afterEach(stopMockJira);
+
+const FIELDS = [
+  { id: 'duedate', name: 'Due date', custom: false, schema: { type: 'date', system: 'duedate' } },
+  { id: 'customfield_10030', name: 'Go live', custom: true, schema: { type: 'datetime' } },
+  { id: 'customfield_10040', name: 'Story Points', custom: true, schema: { type: 'number' } },
+  { id: 'customfield_10020', name: 'Severity', custom: true, schema: { type: 'option' } },
+  { id: 'customfield_10050', name: 'Reviewer', custom: true, schema: { type: 'user' } },
+  { id: 'labels', name: 'Labels', custom: false, schema: { type: 'array', items: 'string', system: 'labels' } },
+];
+
+/**
+ * A Data Center site that records the fields of each issue update
+ */
+async function startSite(updates: any[]): Promise<JiraClient> {
+  return startMockJira('datacenter', (method, path, body) => {
+    if (path === '/rest/api/2/field') return FIELDS;
+    if (path.endsWith('/editmeta')) return { fields: {} };
+    if (method === 'PUT' && path === '/rest/api/2/issue/A-1') {
+      updates.push(body.fields);
+      return {};
+    }
+    return undefined;
+  });
+}
+
+describe('JiraClient field coercion', () => {
+  it('coerces plain values by field type', async () => {
+    const updates: any[] = [];
+    const client = await startSite(updates);
+    await client.updateIssue('A-1', {
+      fields: { 'Story Points': '5', Severity: 'High', Labels: 'one, two', 'Go live': '2024-05-31T14:30:00Z' },
+    });
+
+    expect(updates).toEqual([
+      {
+        customfield_10040: 5,
+        customfield_10020: { value: 'High' },
+        labels: ['one', 'two'],
+        customfield_10030: '2024-05-31T14:30:00.000+0000',
+      },
+    ]);
+  });
+
+  it('keeps the calendar day of a date given with a time and offset', async () => {
+    const updates: any[] = [];
+    const client = await startSite(updates);
+    await client.updateIssue('A-1', { fields: { 'Due date': '2024-03-01T00:30+02:00' } });
+    await client.updateIssue('A-1', { fields: { 'Due date': '2024-12-31' } });
+
+    expect(updates.map(fields => fields.duedate)).toEqual(['2024-03-01', '2024-12-31']);
+  });
+
+  it.each(['5', 'tomorrow', '2024-02-30', '31/05/2024'])('rejects the date %s', async value => {
+    const updates: any[] = [];
+    const client = await startSite(updates);
+
+    await expect(client.updateIssue('A-1', { fields: { 'Due date': value } })).rejects.toThrow(
+      `Invalid value "${value}" for field duedate 'Due date': expected a date such as 2024-05-31`
+    );
+    await expect(client.updateIssue('A-1', { fields: { 'Go live': value } })).rejects.toThrow(/expected a date-time/);
+    expect(updates).toEqual([]);
+  });
+
+  it('rejects a number that does not parse', async () => {
+    const client = await startSite([]);
+    await expect(client.updateIssue('A-1', { fields: { 'Story Points': 'five' } })).rejects.toThrow(
+      `Invalid value "five" for field customfield_10040 'Story Points': expected a number`
+    );
+  });
+
+  it('passes objects of the right shape through and rejects others', async () => {
+    const updates: any[] = [];
+    const client = await startSite(updates);
+    await client.updateIssue('A-1', { fields: { Severity: { id: '1' }, Reviewer: { name: 'jdoe' } } });
+    expect(updates).toEqual([{ customfield_10020: { id: '1' }, customfield_10050: { name: 'jdoe' } }]);
+
+    await expect(client.updateIssue('A-1', { fields: { Severity: { name: 'High' } } })).rejects.toThrow(
+      `for field customfield_10020 'Severity': expected an object with value or id`
+    );
+    await expect(client.updateIssue('A-1', { fields: { Reviewer: { displayName: 'Jane' } } })).rejects.toThrow(
+      'expected an object with accountId or name or key'
+    );
+    await expect(client.updateIssue('A-1', { fields: { 'Story Points': { value: 5 } } })).rejects.toThrow(
+      'expected a number, not an object'
+    );
+    await expect(client.updateIssue('A-1', { fields: { 'Due date': { value: '2024-05-31' } } })).rejects.toThrow(
+      'expected a date, not an object'
+    );
+    expect(updates).toHaveLength(1);
+  });
+});
@@ -0,0 +1,150 @@
+import { AxiosInstance } from 'axios';
+import { afterEach, describe, expect, it } from 'vitest';
+import { FieldRegistry, formatFieldValue } from '../src/field-registry.js';
+import { startMockJira, stopMockJira } from './mock-jira.js';
+
+afterEach(stopMockJira);
+
+const FIELDS = [
+  { id: 'summary', name: 'Summary', custom: false, schema: { type: 'string', system: 'summary' } },
+  {
+    id: 'customfield_10010',
+    name: 'Customer Tier',
+    custom: true,
+    clauseNames: ['cf[10010]', 'Customer Tier'],
+    schema: { type: 'option', custom: 'com.atlassian.jira.plugin.system.customfieldtypes:select' },
+  },
+  // Two fields share the name "Story Points", as after a Jira Software migration
+  { id: 'customfield_10016', name: 'Story Points', custom: true, clauseNames: ['cf[10016]'], schema: { type: 'number' } },
+  { id: 'customfield_10028', name: 'Story Points', custom: true, clauseNames: ['cf[10028]'], schema: { type: 'number' } },
+  { id: 'customfield_10020', name: 'Sprint', custom: true, schema: { type: 'array', items: 'json', custom: 'com.pyxis.greenhopper.jira:gh-sprint' } },
+];
+
+/**
+ * A registry over a stub client that answers /field, createmeta and editmeta, recording requested paths
+ */
+function registry(requests: string[] = []): FieldRegistry {
+  const client = {
+    get: async (url: string) => {
+      requests.push(url);
+      if (url === '/field') return { data: FIELDS };
+      if (url === '/issue/createmeta/ABC/issuetypes') return { data: { issueTypes: [{ id: '1', name: 'Bug' }, { id: '3', name: 'Task' }] } };
+      if (url === '/issue/createmeta/ABC/issuetypes/1') {
+        return {
+          data: {
+            total: 1,
+            fields: [
+              {
+                fieldId: 'customfield_10010',
+                name: 'Customer Tier',
+                required: true,
+                schema: FIELDS[1].schema,
+                allowedValues: [{ id: '100', value: 'Gold' }, { id: '101', value: 'Silver' }],
+              },
+            ],
+          },
+        };
+      }
+      if (url === '/issue/createmeta/ABC/issuetypes/3') return { data: { total: 0, fields: [] } };
+      if (url === '/issue/ABC-1/editmeta') {
+        return { data: { fields: { customfield_10028: { name: 'Story Points', schema: { type: 'number' } } } } };
+      }
+      throw new Error(`Unexpected request ${url}`);
+    },
+  };
+  return new FieldRegistry(client as unknown as AxiosInstance);
+}
+
+describe('FieldRegistry', () => {
+  it('loads /field once and maps ids to names and readable types', async () => {
+    const requests: string[] = [];
+    const fields = registry(requests);
+    await Promise.all([fields.fields(), fields.names()]);
+
+    expect(requests).toEqual(['/field']);
+    expect((await fields.fields()).get('customfield_10020')?.type).toBe('sprint');
+    expect((await fields.names()).customfield_10010).toBe('Customer Tier');
+  });
+
+  it('lists a name shared by several fields with the field on the screen first', async () => {
+    const fields = registry();
+    const storyPoints = (metadata: { names: { [id: string]: string } }) =>
+      Object.entries(metadata.names)
+        .filter(([, name]) => name === 'Story Points')
+        .map(([id]) => id);
+
+    expect(storyPoints(await fields.metadata())).toEqual(['customfield_10016', 'customfield_10028']);
+    expect(storyPoints(await fields.metadata(await fields.editFields('ABC-1')))).toEqual([
+      'customfield_10028',
+      'customfield_10016',
+    ]);
+  });
+
+  it('finds fields by name, id or JQL clause name', async () => {
+    const fields = registry();
+    const ids = async (query: string) => (await fields.list({ query })).map(field => field.id);
+
+    expect(await ids('customer tier')).toEqual(['customfield_10010']);
+    expect(await ids('cf[10010]')).toEqual(['customfield_10010']);
+    expect(await ids('CUSTOMFIELD_10016')).toEqual(['customfield_10016']);
+    expect(await ids('story')).toEqual(['customfield_10016', 'customfield_10028']);
+  });
+
+  it('reports which issue types of a project have a field on their create screen', async () => {
+    expect(await registry().list({ query: 'tier', projectKey: 'ABC' })).toEqual([
+      {
+        id: 'customfield_10010',
+        name: 'Customer Tier',
+        custom: true,
+        type: 'option',
+        clauseNames: ['cf[10010]', 'Customer Tier'],
+        issueTypes: ['Bug'],
+        required: true,
+        allowedValues: ['Gold', 'Silver'],
+      },
+    ]);
+  });
+
+  it('fails for an issue type the project does not have', async () => {
+    await expect(registry().createFields('ABC', 'Epic')).rejects.toThrow('Issue type "Epic" is not available in project ABC');
+  });
+});
+
+describe('JiraClient field resolution', () => {
+  it('resolves ids and case-insensitive names, preferring the field on the edit screen', async () => {
+    const updates: any[] = [];
+    const client = await startMockJira('datacenter', (method, path, body) => {
+      if (path === '/rest/api/2/field') return FIELDS;
+      if (path === '/rest/api/2/issue/ABC-1/editmeta') {
+        return { fields: { customfield_10028: { name: 'Story Points', schema: { type: 'number' } } } };
+      }
+      if (method === 'PUT' && path === '/rest/api/2/issue/ABC-1') {
+        updates.push(body.fields);
+        return {};
+      }
+      return undefined;
+    });
+
+    await client.updateIssue('ABC-1', { fields: { 'story points': 3, customfield_10016: 5 } });
+    expect(updates).toEqual([{ customfield_10028: 3, customfield_10016: 5 }]);
+    await expect(client.updateIssue('ABC-1', { fields: { Points: 1 } })).rejects.toThrow('Unknown field "Points"');
+  });
+});
+
+describe('formatFieldValue', () => {
+  it('formats values by schema type and keeps falsy values', () => {
+    expect(formatFieldValue({ displayName: 'Ana', accountId: 'u1' }, { type: 'user' })).toBe('Ana');
+    expect(formatFieldValue({ value: 'Hardware', child: { value: 'Disk' } }, { type: 'option-with-child' })).toBe(
+      'Hardware > Disk'
+    );
+    expect(formatFieldValue([{ name: 'Sprint 1' }, { name: 'Sprint 2' }], FIELDS[4].schema)).toEqual(['Sprint 1', 'Sprint 2']);
+    expect(formatFieldValue(0, { type: 'number' })).toBe(0);
+    expect(formatFieldValue(false)).toBe(false);
+    expect(formatFieldValue(undefined)).toBeNull();
+  });
+
+  it('uses the most readable property when the schema is unknown', () => {
+    expect(formatFieldValue({ id: '1', name: 'High' })).toBe('High');
+    expect(formatFieldValue({ id: '7', title: 'Platform' })).toBe('Platform');
+  });
+});
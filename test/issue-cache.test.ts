@@ -0,0 +1,106 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, afterEach, describe, expect, it, vi } from 'vitest';
+import { IssueCache, syncProjectIssues } from '../src/issue-cache.js';
+import { JiraClient } from '../src/jira-client.js';
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'issue-cache-test-'));
+let cacheCount = 0;
+
+function newCache(maxAgeMinutes?: number): IssueCache {
+  return new IssueCache(path.join(root, String(cacheCount++)), maxAgeMinutes);
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+afterAll(() => fs.rmSync(root, { recursive: true, force: true }));
+
+/**
+ * A Jira client stub serving the given issues (key to updated timestamp) from search
+ */
+function fakeJira(issues: { [key: string]: string }) {
+  const searches: string[] = [];
+  const fetched: string[] = [];
+  const client = {
+    searchIssues: async (jql: string) => {
+      searches.push(jql);
+      return { issues: Object.entries(issues).map(([key, updated]) => ({ key, fields: { updated } })) };
+    },
+    getComprehensiveIssue: async (issueKey: string) => {
+      fetched.push(issueKey);
+      return { issueKey, updated: issues[issueKey] };
+    },
+  };
+  return { client: client as unknown as JiraClient, searches, fetched };
+}
+
+describe('IssueCache', () => {
+  it('serves entries until they are older than the maximum age', () => {
+    vi.useFakeTimers({ now: new Date('2024-05-01T09:00:00Z') });
+    const cache = newCache(60);
+    const entry = cache.put({ issueKey: 'PROJ-1', updated: '2024-04-30T10:00:00.000+0000' });
+
+    vi.setSystemTime(new Date('2024-05-01T09:59:00Z'));
+    expect(cache.isFresh(entry)).toBe(true);
+    vi.setSystemTime(new Date('2024-05-01T10:01:00Z'));
+    expect(cache.isFresh(entry)).toBe(false);
+    expect(cache.isFresh(entry, 120)).toBe(true);
+
+    cache.touch(entry);
+    expect(cache.isFresh(cache.get('PROJ-1')!)).toBe(true);
+  });
+
+  it('drops entries', () => {
+    const cache = newCache();
+    cache.put({ issueKey: 'PROJ-1', updated: 'a' });
+    cache.put({ issueKey: 'OTHER-1', updated: 'a' });
+
+    cache.delete('proj-1');
+    expect(cache.get('PROJ-1')).toBeUndefined();
+    expect(cache.keys()).toEqual(['OTHER-1']);
+    expect(() => cache.delete('PROJ-1')).not.toThrow();
+  });
+});
+
+describe('syncProjectIssues', () => {
+  it('fetches only changed issues and quotes the project key', async () => {
+    const cache = newCache();
+    cache.put({ issueKey: 'PROJ-1', updated: 'v1' });
+    const jira = fakeJira({ 'PROJ-1': 'v1', 'PROJ-2': 'v1' });
+
+    const result = await syncProjectIssues(cache, jira.client, 'PROJ');
+    expect(jira.searches).toEqual(['project = "PROJ" ORDER BY updated ASC']);
+    expect(jira.fetched).toEqual(['PROJ-2']);
+    expect(result).toMatchObject({ mode: 'full', scanned: 2, fetched: 1, unchanged: 1 });
+  });
+
+  it('looks back from the last sync on incremental runs', async () => {
+    vi.useFakeTimers({ now: new Date('2024-05-01T09:10:00Z') });
+    const cache = newCache();
+    cache.setSyncState('PROJ', { lastSync: '2024-05-01T09:00:00.000Z', issues: 1 });
+    const jira = fakeJira({});
+
+    const result = await syncProjectIssues(cache, jira.client, 'PROJ');
+    expect(result.mode).toBe('incremental');
+    expect(jira.searches[0]).toBe('project = "PROJ" AND updated >= -15m ORDER BY updated ASC');
+  });
+
+  it('drops cached issues a full sync no longer finds in the project', async () => {
+    const cache = newCache();
+    for (const issueKey of ['PROJ-1', 'PROJ-2', 'OTHER-1']) {
+      cache.put({ issueKey, updated: 'v1' });
+    }
+    cache.setSyncState('PROJ', { lastSync: new Date().toISOString(), issues: 2 });
+
+    // Incremental runs only see recent changes, so they never prune
+    await syncProjectIssues(cache, fakeJira({ 'PROJ-1': 'v1' }).client, 'PROJ');
+    expect(cache.keys('PROJ')).toEqual(['PROJ-1', 'PROJ-2']);
+
+    const result = await syncProjectIssues(cache, fakeJira({ 'PROJ-1': 'v1' }).client, 'PROJ', { full: true });
+    expect(result.removed).toEqual(['PROJ-2']);
+    expect(cache.keys().sort()).toEqual(['OTHER-1', 'PROJ-1']);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { buildIssueTimeline, businessHoursBetween, parseBusinessHours } from '../src/issue-timeline.js';
+
+const NOW = new Date('2024-06-01T00:00:00Z');
+
+function statusChange(created: string, from: string, to: string) {
+  return { created, author: { displayName: 'Ana' }, items: [{ field: 'status', fromString: from, toString: to }] };
+}
+
+describe('parseBusinessHours', () => {
+  it('parses hours, days and offset', () => {
+    expect(parseBusinessHours('09:30-18:00', '0,1,2', '+05:30')).toEqual({
+      startMinute: 570,
+      endMinute: 1080,
+      workDays: [0, 1, 2],
+      utcOffsetMinutes: 330,
+    });
+  });
+
+  it.each(['9-17', '09:00-09:00', '09:75-17:00', '25:00-17:00'])('rejects the hours %s', hours => {
+    expect(() => parseBusinessHours(hours)).toThrow(`Invalid business hours "${hours}"`);
+  });
+});
+
+describe('businessHoursBetween', () => {
+  // 2024-05-06 is a Monday
+  it('counts only the hours inside the window on work days', () => {
+    const hours = parseBusinessHours('09:00-17:00');
+    expect(businessHoursBetween(new Date('2024-05-06T08:00:00Z'), new Date('2024-05-06T12:00:00Z'), hours)).toBe(3);
+    // Friday 16:00 to Monday 10:00
+    expect(businessHoursBetween(new Date('2024-05-10T16:00:00Z'), new Date('2024-05-13T10:00:00Z'), hours)).toBe(2);
+  });
+
+  it('applies the UTC offset', () => {
+    const hours = parseBusinessHours('09:00-17:00', undefined, '+02:00');
+    expect(businessHoursBetween(new Date('2024-05-06T06:00:00Z'), new Date('2024-05-06T16:00:00Z'), hours)).toBe(8);
+  });
+
+  it('counts a window that crosses midnight on the day it starts', () => {
+    const hours = parseBusinessHours('22:00-06:00', '1-5');
+    // Monday night shift
+    expect(businessHoursBetween(new Date('2024-05-06T20:00:00Z'), new Date('2024-05-07T08:00:00Z'), hours)).toBe(8);
+    // Starting after midnight still counts the rest of Monday's shift
+    expect(businessHoursBetween(new Date('2024-05-07T02:00:00Z'), new Date('2024-05-07T04:00:00Z'), hours)).toBe(2);
+    // Friday's shift runs into Saturday; Saturday night is not a work day
+    expect(businessHoursBetween(new Date('2024-05-10T12:00:00Z'), new Date('2024-05-12T12:00:00Z'), hours)).toBe(8);
+  });
+});
+
+describe('buildIssueTimeline', () => {
+  const histories = [
+    statusChange('2024-05-06T10:00:00Z', 'Open', 'In Progress'),
+    statusChange('2024-05-06T14:00:00Z', 'In Progress', 'Done'),
+  ];
+
+  it('runs the last status of an open issue until now', () => {
+    const timeline = buildIssueTimeline(
+      { created: '2024-05-06T09:00:00Z', histories: histories.slice(0, 1) },
+      undefined,
+      NOW
+    );
+
+    expect(timeline.statusTimeline.map((segment: any) => [segment.status, segment.to])).toEqual([
+      ['Open', '2024-05-06T10:00:00.000Z'],
+      ['In Progress', null],
+    ]);
+    expect(timeline.timeInStatus['In Progress'].calendarHours).toBe(614);
+  });
+
+  it('ends the last status of a resolved issue at the resolution date', () => {
+    const timeline = buildIssueTimeline(
+      { created: '2024-05-06T09:00:00Z', resolutionDate: '2024-05-06T14:00:00Z', histories },
+      undefined,
+      NOW
+    );
+
+    expect(timeline.statusTimeline.at(-1)).toEqual({
+      status: 'Done',
+      from: '2024-05-06T14:00:00.000Z',
+      to: '2024-05-06T14:00:00.000Z',
+      calendarHours: 0,
+      businessHours: 0,
+    });
+    expect(timeline.timeInStatus['In Progress']).toEqual({ calendarHours: 4, businessHours: 4, visits: 1 });
+  });
+
+  it('ends the last status of a closed issue without a resolution at the last transition', () => {
+    const timeline = buildIssueTimeline(
+      { created: '2024-05-06T09:00:00Z', statusCategory: 'done', histories },
+      undefined,
+      NOW
+    );
+
+    expect(timeline.statusTimeline.at(-1)).toMatchObject({ status: 'Done', to: '2024-05-06T14:00:00.000Z', calendarHours: 0 });
+  });
+
+  it('counts reopens, hand-offs and the first response from someone other than the reporter', () => {
+    const timeline = buildIssueTimeline(
+      {
+        created: '2024-05-06T09:00:00Z',
+        reporter: 'Bo',
+        histories: [
+          {
+            created: '2024-05-06T11:00:00Z',
+            author: { displayName: 'Ana' },
+            items: [
+              { field: 'assignee', fromString: null, toString: 'Ana' },
+              { field: 'resolution', fromString: 'Fixed', toString: null },
+            ],
+          },
+        ],
+        comments: [
+          { author: 'Bo', created: '2024-05-06T09:30:00Z' },
+          { author: 'Ana', created: '2024-05-06T10:30:00Z' },
+        ],
+      },
+      undefined,
+      NOW
+    );
+
+    expect(timeline.handoffCount).toBe(1);
+    expect(timeline.reopenCount).toBe(1);
+    expect(timeline.firstResponse).toEqual({ at: '2024-05-06T10:30:00Z', by: 'Ana', calendarHours: 1.5, businessHours: 1.5 });
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { operandValueTokens, parseJql, quoteJqlValue, tokenizeJql } from '../src/jql-parser.js';
+
+/**
+ * Field, operator and operand values of each clause, in query order
+ */
+function clauses(jql: string) {
+  const result = parseJql(jql);
+  expect(result.errors).toEqual([]);
+  return result.clauses.map(clause => [clause.field, clause.operator, operandValueTokens(clause.operand).map(token => token.value)]);
+}
+
+describe('tokenizeJql', () => {
+  it('unescapes quoted strings and keeps their raw text', () => {
+    const [, , value] = tokenizeJql(String.raw`summary ~ "say \"hi\" \\ bye"`);
+    expect(value).toMatchObject({ type: 'string', value: String.raw`say "hi" \ bye`, text: String.raw`"say \"hi\" \\ bye"` });
+  });
+
+  it('accepts single quotes and escaped characters in unquoted words', () => {
+    expect(tokenizeJql(String.raw`labels = 'a b' AND x = a\ b`).map(token => token.value)).toEqual([
+      'labels', '=', 'a b', 'AND', 'x', '=', 'a b', '',
+    ]);
+  });
+
+  it('reports an unterminated string with its position', () => {
+    expect(parseJql('project = "ABC').errors).toEqual([
+      { message: 'Unterminated quoted string (at position 10)', position: 10 },
+    ]);
+  });
+});
+
+describe('parseJql', () => {
+  it('parses comparison, list, IS and history operators', () => {
+    expect(
+      clauses('project = ABC AND status NOT IN (Done, "In Review") AND assignee IS EMPTY AND priority != High')
+    ).toEqual([
+      ['project', '=', ['ABC']],
+      ['status', 'NOT IN', ['Done', 'In Review']],
+      ['assignee', 'IS', []],
+      ['priority', '!=', ['High']],
+    ]);
+
+    const [was, changed] = parseJql('status WAS NOT IN (Open) BEFORE "2024-01-01" AND assignee CHANGED BY currentUser()').clauses;
+    expect(was.operator).toBe('WAS NOT IN');
+    expect(was.predicates).toEqual([{ name: 'BEFORE', operand: expect.objectContaining({ kind: 'value', value: '2024-01-01' }) }]);
+    expect(changed.operand).toBeUndefined();
+    expect(changed.predicates).toEqual([{ name: 'BY', operand: { kind: 'function', name: 'currentUser', args: [] } }]);
+  });
+
+  it('parses functions with arguments, also inside lists', () => {
+    const [clause] = parseJql('fixVersion IN (releasedVersions(ABC, "Mobile App"), "1.0")').clauses;
+    expect(clause.operand).toMatchObject({
+      kind: 'list',
+      items: [{ kind: 'function', name: 'releasedVersions', args: ['ABC', 'Mobile App'] }, { kind: 'value', value: '1.0' }],
+    });
+    // Function results are not plain values
+    expect(operandValueTokens(clause.operand).map(token => token.value)).toEqual(['1.0']);
+  });
+
+  it('requires a list or a function after IN', () => {
+    expect(parseJql('status IN Done').errors[0].message).toBe('Expected "(" after IN (at position 10)');
+    expect(parseJql('assignee IN membersOf("team")').errors).toEqual([]);
+  });
+
+  it('parses ORDER BY with and without directions', () => {
+    const result = parseJql('project = ABC ORDER BY priority DESC, "Story Points", created asc');
+    expect(result.orderBy.map(sort => [sort.field, sort.direction])).toEqual([
+      ['priority', 'DESC'],
+      ['Story Points', undefined],
+      ['created', 'ASC'],
+    ]);
+    expect(parseJql('ORDER BY rank').orderBy.map(sort => sort.field)).toEqual(['rank']);
+    expect(parseJql('project = ABC ORDER rank').errors[0].message).toBe('Expected BY (at position 20)');
+  });
+
+  it('accepts AND, OR, NOT and parentheses in any nesting', () => {
+    expect(clauses('a = 1 OR b = 2 AND NOT (c = 3 OR NOT d = 4) AND (e = 5)').map(clause => clause[0])).toEqual([
+      'a', 'b', 'c', 'd', 'e',
+    ]);
+    expect(parseJql('not (a = 1) or b = 2 and c = 3').errors).toEqual([]);
+  });
+
+  it('reports unbalanced parentheses and dangling operators', () => {
+    expect(parseJql('(a = 1 OR b = 2').errors[0].message).toBe('Expected ")" (at position 15)');
+    expect(parseJql('a = 1) OR b = 2').errors[0].message).toBe('Unexpected ")" (at position 5)');
+    expect(parseJql('a = 1 AND').errors[0].message).toBe('Expected a field name (at position 9)');
+    expect(parseJql('a = 1 OR AND b = 2').errors[0].message).toBe('Expected a field name but found "AND" (at position 9)');
+    expect(parseJql('a =').errors[0].message).toBe('Expected a value after = (at position 3)');
+  });
+
+  it('does not take keywords as values', () => {
+    expect(parseJql('status = and').errors[0].message).toBe('Expected a value but found "and" (at position 9)');
+  });
+});
+
+describe('quoteJqlValue', () => {
+  it('quotes values so that they tokenize back to themselves', () => {
+    for (const value of ['ABC', 'In Review', 'say "hi"', 'C:\\temp\\', 'and']) {
+      const [token] = tokenizeJql(quoteJqlValue(value));
+      expect(token).toMatchObject({ type: 'string', value });
+    }
+    expect(quoteJqlValue('say "hi"')).toBe(String.raw`"say \"hi\""`);
+  });
+});
@@ -0,0 +1,90 @@
+import { createRequire } from 'module';
+import AjvModule, { ErrorObject } from 'ajv-draft-04';
+import { describe, expect, it } from 'vitest';
+import { textToADF } from '../src/markdown-to-adf.js';
+
+const require = createRequire(import.meta.url);
+// The CommonJS export is the class itself; under Node16 resolution its type is the module's default
+const Ajv = AjvModule.default;
+const validate = new Ajv({ strict: false, allErrors: true }).compile(
+  require('@atlaskit/adf-schema/dist/json-schema/v1/full.json')
+);
+
+const BASE_URL = 'https://example.atlassian.net';
+
+function expectValidAdf(doc: any): void {
+  const valid = validate(doc);
+  expect(valid ? [] : validate.errors?.map((error: ErrorObject) => `${error.instancePath} ${error.message}`)).toEqual([]);
+}
+
+/**
+ * Find nodes of a type anywhere in a document
+ */
+function findNodes(node: any, type: string): any[] {
+  const found = node.type === type ? [node] : [];
+  return found.concat(...(node.content || []).map((child: any) => findNodes(child, type)));
+}
+
+describe('textToADF schema validity', () => {
+  const samples: { [name: string]: string } = {
+    headings: '# Title\n\n## Section\n\nText with **bold**, *italic*, ~~strike~~ and `code`.',
+    'hard breaks': 'first line\nsecond line',
+    'nested lists': '- one\n  - nested\n    1. deep\n- two',
+    'ordered list start': '3. three\n4. four',
+    'task lists': '- [x] done\n- [ ] open\n  - [ ] nested',
+    'code blocks': '```ts\nconst a = 1;\n```\n\n```\nplain\n```',
+    tables: '| a | b |\n|---|---|\n| `1` | **2** |',
+    rule: 'above\n\n---\n\nbelow',
+    links: '[docs](https://example.com) and ![diagram](https://example.com/d.png)',
+    mentions: 'ping @accountid:557058:abc and [~accountid:557058:def]',
+    'issue keys': 'Fixed by PROJ-12, see [PROJ-13](https://x.example.com).',
+    panels: '> [!NOTE]\n> Careful\n\n> [!CAUTION]\n> ## Heading\n> | a |\n> |---|\n> | 1 |\n> > nested',
+    'blockquote with unsupported children': '> ## Title\n> > nested\n>\n> | a | b |\n> |---|---|\n> | 1 | 2 |\n>\n> ---\n>\n> - [ ] task',
+    'list item with blocks': '- a\n\n  > quote with @accountid:557058:abc  \n  > and a break\n\n  ## heading\n\n  | a |\n  |---|\n  | 1 |',
+    empty: '',
+  };
+
+  it.each(Object.entries(samples))('%s', (_, markdown) => {
+    expectValidAdf(textToADF(markdown, { baseUrl: BASE_URL, projectKeys: ['PROJ'] }));
+  });
+});
+
+describe('blockquotes', () => {
+  it('unwraps headings, nested quotes and tables into allowed nodes', () => {
+    const doc = textToADF('> ## Title\n> > nested\n>\n> | a | b |\n> |---|---|\n> | 1 | 2 |');
+    const quote = doc.content[0];
+
+    expect(quote.type).toBe('blockquote');
+    expect(quote.content.map((node: any) => node.type)).toEqual(['paragraph', 'paragraph', 'paragraph', 'paragraph']);
+    expect(quote.content[0].content[0]).toEqual({ type: 'text', text: 'Title', marks: [{ type: 'strong' }] });
+    expect(quote.content[1].content[0].text).toBe('nested');
+    expect(quote.content[3].content.map((node: any) => node.text).join('')).toBe('1 | 2');
+  });
+});
+
+describe('list items', () => {
+  it('keeps a quote inside a list item as paragraphs with its inline nodes', () => {
+    const doc = textToADF('- a\n\n  > see @accountid:557058:abc\n  > now');
+    const item = doc.content[0].content[0];
+
+    expect(item.content.map((node: any) => node.type)).toEqual(['paragraph', 'paragraph']);
+    expect(item.content[1].content.map((node: any) => node.type)).toEqual(['text', 'mention', 'hardBreak', 'text']);
+  });
+});
+
+describe('issue keys', () => {
+  it('links only keys of known projects', () => {
+    const doc = textToADF('PROJ-12 uses UTF-8, SHA-256 and ISO-8601 like OTHER-3', {
+      baseUrl: BASE_URL,
+      projectKeys: ['PROJ'],
+    });
+
+    const cards = findNodes(doc, 'inlineCard');
+    expect(cards.map(card => card.attrs.url)).toEqual([`${BASE_URL}/browse/PROJ-12`]);
+    expect(findNodes(doc, 'text').map(node => node.text).join('')).toBe(' uses UTF-8, SHA-256 and ISO-8601 like OTHER-3');
+  });
+
+  it('links nothing without a project list', () => {
+    expect(findNodes(textToADF('PROJ-12', { baseUrl: BASE_URL }), 'inlineCard')).toEqual([]);
+  });
+});
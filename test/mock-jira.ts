@@ -0,0 +1,36 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { BasicAuth } from '../src/auth.js';
+import { Deployment, DeploymentType } from '../src/deployment.js';
+import { JiraClient } from '../src/jira-client.js';
+
+/**
+ * Answers a request with a JSON body, or undefined for a 404
+ */
+export type MockRoute = (method: string, path: string, body: any) => any;
+
+let server: http.Server | undefined;
+
+/**
+ * Start a mock Jira on a free port that answers with JSON from the route, and a client for it
+ */
+export async function startMockJira(type: DeploymentType, route: MockRoute): Promise<JiraClient> {
+  server = http.createServer((request, response) => {
+    let raw = '';
+    request.on('data', chunk => (raw += chunk));
+    request.on('end', () => {
+      const result = route(request.method!, request.url!.split('?')[0], raw ? JSON.parse(raw) : undefined);
+      response.writeHead(result === undefined ? 404 : 200, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify(result ?? {}));
+    });
+  });
+  await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+
+  const auth = new BasicAuth(`http://127.0.0.1:${(server.address() as AddressInfo).port}`, 'user', 'token');
+  return new JiraClient(auth, { baseDelayMs: 1 }, new Deployment(auth, type));
+}
+
+export async function stopMockJira(): Promise<void> {
+  await new Promise(resolve => (server ? server.close(resolve) : resolve(undefined)));
+  server = undefined;
+}
@@ -0,0 +1,76 @@
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { OAuthAuth } from '../src/auth.js';
+
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'oauth-test-'));
+const tokenFile = path.join(directory, 'tokens.json');
+
+let server: http.Server | undefined;
+let received: string[] = [];
+let tokenUrl: string;
+
+/**
+ * Fake Atlassian token endpoint that rotates the refresh token on every call
+ */
+beforeEach(async () => {
+  received = [];
+  server = http.createServer((request, response) => {
+    let raw = '';
+    request.on('data', chunk => (raw += chunk));
+    request.on('end', () => {
+      received.push(JSON.parse(raw).refresh_token);
+      response.writeHead(200, { 'Content-Type': 'application/json' });
+      response.end(
+        JSON.stringify({ access_token: `access-${received.length}`, refresh_token: `rotated-${received.length}`, expires_in: 3600 })
+      );
+    });
+  });
+  await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+  tokenUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/oauth/token`;
+});
+
+afterEach(async () => {
+  await new Promise(resolve => server!.close(resolve));
+  fs.rmSync(tokenFile, { force: true });
+  vi.restoreAllMocks();
+});
+
+afterAll(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+function oauth(refreshToken: string): OAuthAuth {
+  return new OAuthAuth({ clientId: 'id', clientSecret: 'secret', refreshToken, cloudId: 'cloud', tokenFile, tokenUrl });
+}
+
+describe('OAuthAuth', () => {
+  it('saves rotated refresh tokens and uses them on the next start', async () => {
+    expect(await oauth('configured').authorization()).toBe('Bearer access-1');
+    expect(JSON.parse(fs.readFileSync(tokenFile, 'utf-8'))).toMatchObject({
+      refreshToken: 'rotated-1',
+      configuredRefreshToken: 'configured',
+    });
+
+    const restarted = oauth('configured');
+    expect(await restarted.authorization()).toBe('Bearer access-1');
+    await restarted.refresh();
+    expect(received).toEqual(['configured', 'rotated-1']);
+  });
+
+  it('prefers a newly configured refresh token over the saved ones', async () => {
+    await oauth('configured').authorization();
+    await oauth('reauthorized').authorization();
+    expect(received).toEqual(['configured', 'reauthorized']);
+  });
+
+  it('ignores a corrupt token file', async () => {
+    fs.writeFileSync(tokenFile, '{"refreshToken": "rot');
+    const warn = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await oauth('configured').authorization()).toBe('Bearer access-1');
+    expect(received).toEqual(['configured']);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining(`Ignoring OAuth token file ${tokenFile}`));
+  });
+});
@@ -0,0 +1,111 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import axios from 'axios';
+import { afterEach, describe, expect, it } from 'vitest';
+import { applyRequestLayer, parseRetryAfter, RequestLayer } from '../src/request-layer.js';
+
+type Handler = (request: http.IncomingMessage, response: http.ServerResponse) => void;
+
+let server: http.Server | undefined;
+
+/**
+ * Start a local mock Jira on a free port
+ */
+async function startServer(handler: Handler): Promise<string> {
+  server = http.createServer(handler);
+  await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+afterEach(async () => {
+  await new Promise(resolve => (server ? server.close(resolve) : resolve(undefined)));
+  server = undefined;
+});
+
+describe('RequestLayer', () => {
+  it('retries 429 responses, honoring Retry-After', async () => {
+    let calls = 0;
+    const baseURL = await startServer((_, response) => {
+      calls++;
+      if (calls <= 2) {
+        response.writeHead(429, { 'Retry-After': '0' });
+        response.end('{}');
+        return;
+      }
+      response.writeHead(200, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify({ ok: true }));
+    });
+
+    const client = axios.create({ baseURL });
+    applyRequestLayer(client, { baseDelayMs: 1 });
+
+    const response = await client.post('/issue', { fields: {} });
+    expect(response.data).toEqual({ ok: true });
+    expect(calls).toBe(3);
+  });
+
+  it('gives up after maxRetries', async () => {
+    let calls = 0;
+    const baseURL = await startServer((_, response) => {
+      calls++;
+      response.writeHead(429, { 'Retry-After': '0' });
+      response.end('{}');
+    });
+
+    const client = axios.create({ baseURL });
+    applyRequestLayer(client, { maxRetries: 2, baseDelayMs: 1 });
+
+    await expect(client.get('/search')).rejects.toMatchObject({ response: { status: 429 } });
+    expect(calls).toBe(3);
+  });
+
+  it('does not retry non-idempotent requests after a 5xx', async () => {
+    let calls = 0;
+    const baseURL = await startServer((_, response) => {
+      calls++;
+      response.writeHead(503);
+      response.end();
+    });
+
+    const client = axios.create({ baseURL });
+    applyRequestLayer(client, { baseDelayMs: 1 });
+
+    await expect(client.post('/issue', {})).rejects.toMatchObject({ response: { status: 503 } });
+    expect(calls).toBe(1);
+  });
+
+  it('shares one concurrency limit between clients', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const baseURL = await startServer((_, response) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      setTimeout(() => {
+        inFlight--;
+        response.writeHead(200, { 'Content-Type': 'application/json' });
+        response.end('{}');
+      }, 20);
+    });
+
+    const layer = new RequestLayer({ maxConcurrency: 2 });
+    const first = axios.create({ baseURL });
+    const second = axios.create({ baseURL });
+    applyRequestLayer(first, layer);
+    applyRequestLayer(second, layer);
+
+    await Promise.all([
+      ...Array.from({ length: 4 }, () => first.get('/issue/A-1')),
+      ...Array.from({ length: 4 }, () => second.get('/board')),
+    ]);
+    expect(maxInFlight).toBe(2);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads seconds and HTTP dates', () => {
+    expect(parseRetryAfter('3')).toBe(3000);
+    expect(parseRetryAfter(new Date(Date.now() - 1000).toUTCString())).toBe(0);
+    expect(parseRetryAfter('soon')).toBeUndefined();
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+  });
+});
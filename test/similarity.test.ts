@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { keyTerms, rankSimilar, SimilarityDocument, tokenize } from '../src/similarity.js';
+
+function issue(key: string, summary: string, description: string = '', comments: string = ''): SimilarityDocument {
+  return { key, fields: { summary, description, comments } };
+}
+
+const QUERY: SimilarityDocument = { key: 'query', fields: { text: 'Export to CSV fails with timeout for large reports' } };
+
+describe('tokenize', () => {
+  it('drops stopwords, numbers and URLs and folds plurals', () => {
+    expect(tokenize('The exports of 2 reports failed, see https://example.com/logs and the batches')).toEqual([
+      'export',
+      'report',
+      'failed',
+      'see',
+      'batch',
+    ]);
+  });
+});
+
+describe('keyTerms', () => {
+  it('ranks terms by weighted frequency, breaking ties alphabetically', () => {
+    const document = issue('A-1', 'Login timeout', 'Users see a timeout on the login page. Session cookie missing.');
+    expect(keyTerms(document, 3)).toEqual(['login', 'timeout', 'cookie']);
+  });
+});
+
+describe('rankSimilar', () => {
+  const candidates = [
+    issue('A-1', 'Dashboard colors wrong in dark mode'),
+    issue('A-2', 'CSV export timeout', 'Large reports time out when exporting to CSV.'),
+    issue('A-3', 'PDF export slow', 'Reports take minutes to render.'),
+    issue('A-4', 'Timeout in search', '', 'Only one comment mentions a CSV export.'),
+  ];
+
+  it('ranks candidates by BM25 and leaves out those without shared terms', () => {
+    const matches = rankSimilar(QUERY, candidates);
+
+    expect(matches.map(match => match.key)).toEqual(['A-2', 'A-4', 'A-3']);
+    expect(matches[0].matchedTerms.sort()).toEqual(['csv', 'export', 'large', 'report', 'timeout']);
+    expect(matches[0].similarity).toBeGreaterThan(matches[1].similarity);
+    expect(matches.every(match => match.similarity > 0 && match.similarity <= 1)).toBe(true);
+  });
+
+  it('weights summaries above comments', () => {
+    const [first] = rankSimilar(QUERY, [issue('A-5', 'Other', '', 'CSV export timeout'), issue('A-6', 'CSV export timeout')]);
+    expect(first.key).toBe('A-6');
+  });
+
+  it("keeps the candidates' order for equal scores", () => {
+    const twins = [issue('B-2', 'CSV export timeout'), issue('B-1', 'CSV export timeout'), issue('B-3', 'CSV export timeout')];
+    const matches = rankSimilar(QUERY, twins);
+
+    expect(matches.map(match => match.key)).toEqual(['B-2', 'B-1', 'B-3']);
+    expect(new Set(matches.map(match => match.score)).size).toBe(1);
+  });
+
+  it('returns snippets with the matching passages and honors top', () => {
+    const matches = rankSimilar(QUERY, candidates, { top: 1, snippets: 2 });
+    expect(matches).toHaveLength(1);
+    expect(matches[0].snippets).toEqual([
+      { field: 'summary', text: 'CSV export timeout' },
+      { field: 'description', text: 'Large reports time out when exporting to CSV.' },
+    ]);
+  });
+
+  it('returns nothing without candidates or query terms', () => {
+    expect(rankSimilar(QUERY, [])).toEqual([]);
+    expect(rankSimilar({ key: 'query', fields: { text: 'the and of' } }, candidates)).toEqual([]);
+  });
+});
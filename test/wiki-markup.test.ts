@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { markdownToWiki, wikiToMarkdown } from '../src/wiki-markup.js';
+
+describe('Wiki markup round trip', () => {
+  // Markdown that markdownToWiki and wikiToMarkdown turn back into itself. Emphasis comes back
+  // as _text_ and numbered items as "1.", which are the forms used here.
+  const samples = [
+    '## Summary\n\nThe **import** job failed with `ENOSPC` on _node-3_.',
+    '- Symptoms\n  - timeouts\n  - retries\n- Cause',
+    '1. Drain\n1. Restart\n1. Verify',
+    '- [x] Roll back\n- [ ] Write RCA',
+    '> [!WARNING]\n> Do not restart the primary.',
+    '> Quoted from the customer',
+    '| Service | Impact |\n| --- | --- |\n| api | errors |',
+    '```sql\nSELECT 1;\n```',
+    'See [the runbook](https://wiki.example.com/runbook) for ~~old~~ steps.',
+    '---',
+  ];
+
+  it.each(samples)('%s', markdown => {
+    expect(wikiToMarkdown(markdownToWiki(markdown))).toBe(markdown);
+  });
+});
+
+describe('markdownToWiki task lists', () => {
+  it('marks done items with (/) and open items with a neutral (-)', () => {
+    expect(markdownToWiki('- [x] Roll back\n- [ ] Write RCA')).toBe('* (/) Roll back\n* (-) Write RCA');
+  });
+});
+
+describe('wikiToMarkdown', () => {
+  it('renders (x) as the error icon rather than an open task', () => {
+    expect(wikiToMarkdown('* (x) Backup failed')).toBe('- ❌ Backup failed');
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { buildTimesheet, formatDuration, parseDuration } from '../src/worklogs.js';
+
+describe('durations', () => {
+  it('parses and formats Jira time tracking units', () => {
+    expect(parseDuration('1h 30m')).toBe(5400);
+    expect(parseDuration('1d')).toBe(8 * 3600);
+    expect(formatDuration(9 * 3600 + 60)).toBe('1d 1h 1m');
+    expect(() => parseDuration('soon')).toThrow('Invalid duration');
+  });
+});
+
+describe('buildTimesheet', () => {
+  it('credits every pod of a multi-pod issue and groups issues without pods as not set', () => {
+    const worklogs = [
+      { issueKey: 'A-1', authorId: 'u1', author: 'ana', started: '2024-05-01T09:00:00Z', timeSpentSeconds: 3600 },
+      { issueKey: 'A-2', authorId: 'u1', author: 'ana', started: '2024-05-01T10:00:00Z', timeSpentSeconds: 1800 },
+      { issueKey: 'A-3', authorId: 'u2', author: 'bo', started: '2024-05-01T11:00:00Z', timeSpentSeconds: 600 },
+    ];
+    const issues = [
+      { issueKey: 'A-1', pods: ['workflow', 'billing'] },
+      { issueKey: 'A-2', pods: ['workflow'] },
+      { issueKey: 'A-3', pods: [] },
+    ];
+
+    expect(buildTimesheet(worklogs, issues).byPod).toEqual([
+      { pod: 'workflow', hours: 1.5, duration: '1h 30m' },
+      { pod: 'billing', hours: 1, duration: '1h' },
+      { pod: '(not set)', hours: 0.17, duration: '10m' },
+    ]);
+  });
+
+  it('keeps users who share a display name apart', () => {
+    const worklogs = [
+      { issueKey: 'A-1', authorId: 'u1', author: 'Alex Kim', started: '2024-05-01T09:00:00Z', timeSpentSeconds: 3600 },
+      { issueKey: 'A-1', authorId: 'u2', author: 'Alex Kim', started: '2024-05-01T10:00:00Z', timeSpentSeconds: 1800 },
+    ];
+    const timesheet = buildTimesheet(worklogs, [{ issueKey: 'A-1' }]);
+
+    expect(timesheet.byUser.map((user: any) => [user.userId, user.user, user.duration])).toEqual([
+      ['u1', 'Alex Kim', '1h'],
+      ['u2', 'Alex Kim', '30m'],
+    ]);
+    expect(timesheet.byIssue[0].users).toEqual(['Alex Kim', 'Alex Kim']);
+  });
+});